@@ -0,0 +1,261 @@
+-- Initial schema
+-- Everything uses IF NOT EXISTS / OR REPLACE, so this also applies cleanly to
+-- databases created before migrations existed.
+
+CREATE TABLE IF NOT EXISTS user_wallets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supabase_id UUID NOT NULL UNIQUE,
+  para_wallet_id TEXT NOT NULL UNIQUE,
+  wallet_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS user_wallets_supabase_id ON user_wallets(supabase_id);
+CREATE INDEX IF NOT EXISTS user_wallets_para_wallet_id ON user_wallets(para_wallet_id);
+
+CREATE TABLE IF NOT EXISTS provisioning_jobs (
+  supabase_id UUID PRIMARY KEY,
+  status TEXT NOT NULL,
+  para_wallet_id TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supabase_id UUID NOT NULL,
+  tx_hash TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL DEFAULT 'transfer',
+  replaces_tx_hash TEXT,
+  replaced_by_tx_hash TEXT,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  token_address TEXT,
+  value TEXT NOT NULL,
+  nonce INTEGER NOT NULL,
+  gas_limit TEXT NOT NULL,
+  max_fee_per_gas TEXT NOT NULL,
+  max_priority_fee_per_gas TEXT NOT NULL,
+  chain_id INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  block_number BIGINT,
+  confirmations INTEGER NOT NULL DEFAULT 0,
+  gas_used TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  confirmed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS transactions_supabase_id_created_at ON transactions(supabase_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS transactions_status ON transactions(status);
+CREATE INDEX IF NOT EXISTS transactions_from_address_nonce ON transactions(from_address, chain_id, nonce);
+
+CREATE TABLE IF NOT EXISTS deposits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supabase_id UUID NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  token_address TEXT,
+  value TEXT NOT NULL,
+  chain_id INTEGER NOT NULL,
+  block_number BIGINT NOT NULL,
+  block_hash TEXT NOT NULL,
+  confirmations INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  confirmed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (chain_id, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS deposits_supabase_id_created_at ON deposits(supabase_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS deposits_chain_id_status ON deposits(chain_id, status);
+
+CREATE TABLE IF NOT EXISTS block_scanner_state (
+  chain_id INTEGER PRIMARY KEY,
+  last_block BIGINT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE OR REPLACE VIEW transaction_history AS
+  SELECT id, supabase_id, tx_hash, kind, 'out' AS direction, replaces_tx_hash,
+    replaced_by_tx_hash, from_address, to_address, token_address, value, nonce, gas_limit,
+    max_fee_per_gas, max_priority_fee_per_gas, chain_id, status, block_number, confirmations,
+    gas_used, error, created_at, updated_at, confirmed_at, NULL::INTEGER AS log_index
+  FROM transactions
+  UNION ALL
+  SELECT id, supabase_id, tx_hash, 'deposit', 'in', NULL, NULL, from_address, to_address,
+    token_address, value, NULL, NULL, NULL, NULL, chain_id, status, block_number, confirmations,
+    NULL, NULL, created_at, updated_at, confirmed_at, log_index
+  FROM deposits;
+
+CREATE TABLE IF NOT EXISTS spending_limits (
+  supabase_id UUID PRIMARY KEY,
+  max_per_transaction TEXT,
+  daily_limit TEXT,
+  weekly_limit TEXT,
+  daily_tx_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS address_book (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supabase_id UUID NOT NULL,
+  label TEXT NOT NULL,
+  address TEXT NOT NULL,
+  usable_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (supabase_id, address)
+);
+
+CREATE TABLE IF NOT EXISTS security_settings (
+  supabase_id UUID PRIMARY KEY,
+  allowlist_only BOOLEAN NOT NULL DEFAULT FALSE,
+  allowlist_disable_at TIMESTAMP WITH TIME ZONE,
+  sessions_revoked_before TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS totp_factors (
+  supabase_id UUID PRIMARY KEY,
+  secret TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  last_used_step BIGINT NOT NULL DEFAULT 0,
+  step_up_threshold TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  enabled_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS revoked_sessions (
+  session_id UUID PRIMARY KEY,
+  supabase_id UUID NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  supabase_id UUID NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress',
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (supabase_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supabase_id UUID NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_endpoints_supabase_id ON webhook_endpoints(supabase_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  supabase_id UUID NOT NULL,
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_status_code INTEGER,
+  last_error TEXT,
+  replay_of UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS webhook_deliveries_endpoint_id_created_at ON webhook_deliveries(endpoint_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS webhook_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id UUID NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+  attempt INTEGER NOT NULL,
+  status_code INTEGER,
+  error TEXT,
+  duration_ms INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS webhook_attempts_delivery_id ON webhook_attempts(delivery_id);
+
+-- No foreign key to auth.users: entries outlive the user they describe
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supabase_id UUID,
+  action TEXT NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'failure', 'denied')),
+  request_id TEXT,
+  ip TEXT,
+  user_agent TEXT,
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_supabase_id_created_at ON audit_log(supabase_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_action_created_at ON audit_log(action, created_at DESC);
+
+-- Append-only, even for the service role
+CREATE OR REPLACE FUNCTION audit_log_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_log_no_change ON audit_log;
+CREATE TRIGGER audit_log_no_change BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION audit_log_append_only();
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+CREATE TRIGGER audit_log_no_truncate BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION audit_log_append_only();
+
+-- On Supabase, user rows are removed with their auth user. Plain Postgres has
+-- no auth schema, so there the references are left out.
+DO $$
+DECLARE
+  owned TEXT;
+BEGIN
+  IF to_regclass('auth.users') IS NOT NULL THEN
+    FOREACH owned IN ARRAY ARRAY[
+      'user_wallets', 'provisioning_jobs', 'transactions', 'deposits', 'spending_limits',
+      'address_book', 'security_settings', 'totp_factors', 'revoked_sessions',
+      'idempotency_keys', 'webhook_endpoints', 'webhook_deliveries'
+    ] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = owned || '_supabase_id_fkey'
+      ) THEN
+        EXECUTE format(
+          'ALTER TABLE %I ADD CONSTRAINT %I FOREIGN KEY (supabase_id) REFERENCES auth.users(id) ON DELETE CASCADE',
+          owned,
+          owned || '_supabase_id_fkey'
+        );
+      END IF;
+    END LOOP;
+  END IF;
+END;
+$$;
@@ -0,0 +1,27 @@
+-- Per-user caps on ERC-20 tokens, one row per chain and token
+-- Amounts are token base units; a NULL column falls back to the token's
+-- LIMIT_TOKENS default.
+
+CREATE TABLE IF NOT EXISTS token_spending_limits (
+  supabase_id UUID NOT NULL,
+  chain_id INTEGER NOT NULL,
+  token_address TEXT NOT NULL, -- lowercase
+  max_per_transaction TEXT,
+  daily_limit TEXT,
+  weekly_limit TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (supabase_id, chain_id, token_address)
+);
+
+-- Removed with the auth user on Supabase, as in 001
+DO $$
+BEGIN
+  IF to_regclass('auth.users') IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'token_spending_limits_supabase_id_fkey'
+  ) THEN
+    ALTER TABLE token_spending_limits ADD CONSTRAINT token_spending_limits_supabase_id_fkey
+      FOREIGN KEY (supabase_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+  END IF;
+END;
+$$;
@@ -0,0 +1,2 @@
+-- Expired revocations are swept by expires_at
+CREATE INDEX IF NOT EXISTS revoked_sessions_expires_at ON revoked_sessions(expires_at);
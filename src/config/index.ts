@@ -1,11 +1,71 @@
 import dotenv from "dotenv";
+import { ChainConfig, LogLevel, TokenLimitConfig } from "../types";
 
 dotenv.config();
 
+const parseList = (value?: string): string[] =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// LIMIT_TOKENS entries: chainId:tokenAddress:maxPerTransaction:daily:weekly
+const parseTokenLimit = (entry: string): TokenLimitConfig => {
+  const [chainId, token, maxPerTransaction, daily, weekly] = entry.split(":");
+  if (!weekly) {
+    throw new Error(
+      `Invalid LIMIT_TOKENS entry "${entry}": expected chainId:token:maxPerTransaction:daily:weekly`
+    );
+  }
+  return {
+    chainId: parseInt(chainId),
+    token: token.toLowerCase(),
+    maxPerTransaction,
+    daily,
+    weekly,
+  };
+};
+
+// Additional EVM networks. Each is enabled when <KEY>_RPC_URL is set (a
+// comma-separated list, like SEPOLIA_RPC_URL); <KEY>_TOKEN_ADDRESSES lists
+// ERC-20 contracts to show on that chain.
+const optionalChains: Omit<ChainConfig, "rpcUrls" | "tokens">[] = [
+  {
+    key: "BASE_SEPOLIA",
+    chainId: 84532,
+    name: "Base Sepolia",
+    nativeSymbol: "ETH",
+    explorerUrl: "https://sepolia.basescan.org",
+  },
+  {
+    key: "ARBITRUM_SEPOLIA",
+    chainId: 421614,
+    name: "Arbitrum Sepolia",
+    nativeSymbol: "ETH",
+    explorerUrl: "https://sepolia.arbiscan.io",
+  },
+  {
+    key: "OPTIMISM_SEPOLIA",
+    chainId: 11155420,
+    name: "OP Sepolia",
+    nativeSymbol: "ETH",
+    explorerUrl: "https://sepolia-optimism.etherscan.io",
+  },
+  {
+    key: "POLYGON_AMOY",
+    chainId: 80002,
+    name: "Polygon Amoy",
+    nativeSymbol: "POL",
+    explorerUrl: "https://amoy.polygonscan.com",
+  },
+];
+
 export const config = {
   // Server
   port: parseInt(process.env.PORT || "3000"),
   nodeEnv: process.env.NODE_ENV || "development",
+  // Number of proxies in front of the app; needed for per-IP rate limits behind a load balancer
+  trustProxy: parseInt(process.env.TRUST_PROXY || "0"),
 
   // Supabase
   supabase: {
@@ -15,19 +75,227 @@ export const config = {
     jwtSecret: process.env.SUPABASE_JWT_SECRET!,
   },
 
+  // Access token verification
+  // local: check signature and claims in-process (HS256 secret or JWKS)
+  // remote: ask Supabase on every request (sees revoked sessions)
+  // hybrid: local check first, then Supabase
+  auth: {
+    verification: (process.env.AUTH_VERIFICATION || "local") as
+      | "local"
+      | "remote"
+      | "hybrid",
+    audience: process.env.SUPABASE_JWT_AUDIENCE || "authenticated",
+    issuer:
+      process.env.SUPABASE_JWT_ISSUER || `${process.env.SUPABASE_URL}/auth/v1`,
+    // Used for asymmetric (RS256/ES256) tokens
+    jwksUrl:
+      process.env.SUPABASE_JWKS_URL ||
+      `${process.env.SUPABASE_URL}/auth/v1/.well-known/jwks.json`,
+    jwksCacheTtlMs: parseInt(process.env.JWKS_CACHE_TTL_MS || "600000"),
+    // How long other instances may keep accepting a logged-out session
+    revocationCacheTtlMs: parseInt(process.env.REVOCATION_CACHE_TTL_MS || "30000"),
+  },
+
+  // Storage backend
+  // supabase: Supabase's REST API with the service role key
+  // sql: direct Postgres connection on DATABASE_URL (e.g. a local database)
+  storage: {
+    backend: (process.env.STORAGE_BACKEND || "supabase") as "supabase" | "sql",
+    // Also used by the supabase backend to apply migrations
+    databaseUrl: process.env.DATABASE_URL || "",
+  },
+
   // Para API
   para: {
     apiKey: process.env.PARA_API_KEY!,
     baseUrl: process.env.PARA_BASE_URL || "https://api.getpara.com",
+    timeoutMs: parseInt(process.env.PARA_TIMEOUT_MS || "10000"),
+    // Retries of wallet lookups and creation; signing is never retried
+    maxRetries: parseInt(process.env.PARA_MAX_RETRIES || "2"),
+    retryBaseDelayMs: parseInt(process.env.PARA_RETRY_BASE_DELAY_MS || "250"),
+    // Consecutive failed calls that open the circuit, and how long it stays open
+    circuitFailureThreshold: parseInt(process.env.PARA_CIRCUIT_FAILURE_THRESHOLD || "5"),
+    circuitResetMs: parseInt(process.env.PARA_CIRCUIT_RESET_MS || "30000"),
   },
 
   // Ethereum
   ethereum: {
-    rpcUrl: process.env.SEPOLIA_RPC_URL!,
+    // Comma-separated; later URLs are fallbacks
+    rpcUrls: parseList(process.env.SEPOLIA_RPC_URL),
     chainId: parseInt(process.env.SEPOLIA_CHAIN_ID || "11155111"),
+    // ERC-20 contracts whose balances are shown on the wallet view
+    tokens: parseList(process.env.TOKEN_ADDRESSES),
+  },
+
+  // Chain registry; the first entry is the primary chain above
+  chains: [] as ChainConfig[],
+
+  // JSON-RPC endpoints: retries, failover and health checks
+  rpc: {
+    timeoutMs: parseInt(process.env.RPC_TIMEOUT_MS || "10000"),
+    // Retries of a failed call, after every endpoint has been tried once
+    maxRetries: parseInt(process.env.RPC_MAX_RETRIES || "2"),
+    retryBaseDelayMs: parseInt(process.env.RPC_RETRY_BASE_DELAY_MS || "250"),
+    // Consecutive failures before an endpoint is taken out of rotation
+    failureThreshold: parseInt(process.env.RPC_FAILURE_THRESHOLD || "3"),
+    healthCheckIntervalMs: parseInt(process.env.RPC_HEALTH_CHECK_INTERVAL_MS || "15000"),
+    maxBlockLag: parseInt(process.env.RPC_MAX_BLOCK_LAG || "5"),
+    // Endpoints that must agree on a balance; capped at the number healthy
+    balanceQuorum: parseInt(process.env.RPC_BALANCE_QUORUM || "2"),
+    // Fee data and block number reads are shared for this long
+    cacheTtlMs: parseInt(process.env.RPC_CACHE_TTL_MS || "2000"),
+  },
+
+  // Readiness checks (GET /health/ready)
+  health: {
+    probeTimeoutMs: parseInt(process.env.HEALTH_PROBE_TIMEOUT_MS || "3000"),
+    // Reports are reused for this long instead of probing on every request
+    cacheTtlMs: parseInt(process.env.HEALTH_CACHE_TTL_MS || "5000"),
+    // Not ready when the primary chain's latest block is older; 0 turns this off
+    maxBlockAgeSeconds: parseInt(process.env.HEALTH_MAX_BLOCK_AGE_SECONDS || "120"),
+  },
+
+  // Confirmation tracker
+  tracker: {
+    confirmations: parseInt(process.env.TX_CONFIRMATIONS || "3"),
+    pollIntervalMs: parseInt(process.env.TX_TRACKER_INTERVAL_MS || "15000"),
+    dropTimeoutMs: parseInt(process.env.TX_DROP_TIMEOUT_MS || "1800000"),
+  },
+
+  // Deposit scanner; confirmations needed are shared with the tracker
+  deposits: {
+    enabled: process.env.DEPOSIT_SCAN_ENABLED !== "false",
+    // Chains to scan; defaults to the primary chain
+    chainIds: (process.env.DEPOSIT_SCAN_CHAIN_IDS || process.env.SEPOLIA_CHAIN_ID || "11155111")
+      .split(",")
+      .map((chainId) => parseInt(chainId.trim())),
+    pollIntervalMs: parseInt(process.env.DEPOSIT_SCAN_INTERVAL_MS || "15000"),
+    maxBlocksPerTick: parseInt(process.env.DEPOSIT_SCAN_MAX_BLOCKS || "50"),
+  },
+
+  // Default spending limits, overridable per user in spending_limits
+  // Native amounts apply to each chain's native asset separately
+  limits: {
+    maxPerTransactionEth: process.env.LIMIT_MAX_PER_TX_ETH || "1",
+    dailyEth: process.env.LIMIT_DAILY_ETH || "5",
+    weeklyEth: process.env.LIMIT_WEEKLY_ETH || "20",
+    dailyTxCount: parseInt(process.env.LIMIT_DAILY_TX_COUNT || "20"),
+    // Caps per ERC-20 token and chain; sends of tokens not listed are refused
+    tokens: parseList(process.env.LIMIT_TOKENS).map(parseTokenLimit),
+  },
+
+  // Address book: new recipients can be used only after this delay
+  addressBook: {
+    coolingOffMs: parseInt(process.env.ADDRESS_COOLING_OFF_MS || "86400000"),
+  },
+
+  // Rate limit budgets: max requests per window, per user and per client IP
+  rateLimits: {
+    login: {
+      name: "login",
+      windowMs: parseInt(process.env.RATE_LIMIT_LOGIN_WINDOW_MS || "900000"),
+      perUser: parseInt(process.env.RATE_LIMIT_LOGIN_PER_USER || "5"),
+      perIp: parseInt(process.env.RATE_LIMIT_LOGIN_PER_IP || "20"),
+    },
+    signup: {
+      name: "signup",
+      windowMs: parseInt(process.env.RATE_LIMIT_SIGNUP_WINDOW_MS || "3600000"),
+      perUser: parseInt(process.env.RATE_LIMIT_SIGNUP_PER_USER || "3"),
+      perIp: parseInt(process.env.RATE_LIMIT_SIGNUP_PER_IP || "10"),
+    },
+    send: {
+      name: "send",
+      windowMs: parseInt(process.env.RATE_LIMIT_SEND_WINDOW_MS || "60000"),
+      perUser: parseInt(process.env.RATE_LIMIT_SEND_PER_USER || "10"),
+      perIp: parseInt(process.env.RATE_LIMIT_SEND_PER_IP || "30"),
+    },
+    // Endpoints that check a TOTP code
+    stepUp: {
+      name: "step-up",
+      windowMs: parseInt(process.env.RATE_LIMIT_STEP_UP_WINDOW_MS || "900000"),
+      perUser: parseInt(process.env.RATE_LIMIT_STEP_UP_PER_USER || "5"),
+      perIp: parseInt(process.env.RATE_LIMIT_STEP_UP_PER_IP || "20"),
+    },
+  },
+
+  // Step-up authentication for users with a TOTP factor
+  stepUp: {
+    // Default for native-asset sends that need a TOTP code; overridable per user
+    thresholdEth: process.env.STEP_UP_THRESHOLD_ETH || "0.1",
+    tokenTtlMs: parseInt(process.env.STEP_UP_TOKEN_TTL_MS || "300000"),
+    // Name shown in authenticator apps
+    totpIssuer: process.env.TOTP_ISSUER || "Para Fintech",
+    // Signs step-up tokens and encrypts stored TOTP secrets
+    secret: process.env.STEP_UP_SECRET || process.env.SUPABASE_JWT_SECRET!,
+  },
+
+  // Signup wallet provisioning: retries of each database step (Para calls
+  // retry on their own, see PARA_MAX_RETRIES)
+  provisioning: {
+    maxAttempts: parseInt(process.env.PROVISIONING_MAX_ATTEMPTS || "3"),
+    retryBaseDelayMs: parseInt(process.env.PROVISIONING_RETRY_BASE_DELAY_MS || "500"),
+  },
+
+  // Outbound webhooks
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8"),
+    // Backoff doubles from here after each failed attempt
+    retryBaseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || "30000"),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000"),
+    pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || "10000"),
+    // Endpoints on loopback, private, link-local or metadata addresses are
+    // refused unless this is set, e.g. for a receiver on the same machine
+    allowPrivateAddresses: process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES === "true",
+  },
+
+  // Real-time event stream
+  realtime: {
+    // How often wallet status and balance are checked while a user is connected
+    pollIntervalMs: parseInt(process.env.REALTIME_POLL_INTERVAL_MS || "10000"),
+    heartbeatMs: parseInt(process.env.REALTIME_HEARTBEAT_MS || "25000"),
+    maxStreamsPerUser: parseInt(process.env.REALTIME_MAX_STREAMS_PER_USER || "5"),
+  },
+
+  // Idempotency keys
+  idempotency: {
+    ttlMs: parseInt(process.env.IDEMPOTENCY_TTL_MS || "86400000"),
+  },
+
+  // Logging
+  logging: {
+    level: (process.env.LOG_LEVEL || "info") as LogLevel,
+  },
+
+  // Prometheus scrape endpoint (/metrics); open unless a token is set
+  metrics: {
+    token: process.env.METRICS_TOKEN || "",
+  },
+
+  // Operator API (/api/admin); disabled unless a key is set
+  admin: {
+    apiKey: process.env.ADMIN_API_KEY || "",
   },
 };
 
+config.chains = [
+  {
+    key: "SEPOLIA",
+    chainId: config.ethereum.chainId,
+    name: "Sepolia",
+    nativeSymbol: "ETH",
+    rpcUrls: config.ethereum.rpcUrls,
+    explorerUrl: process.env.SEPOLIA_EXPLORER_URL || "https://sepolia.etherscan.io",
+    tokens: config.ethereum.tokens,
+  },
+  ...optionalChains
+    .filter((chain) => process.env[`${chain.key}_RPC_URL`])
+    .map((chain) => ({
+      ...chain,
+      rpcUrls: parseList(process.env[`${chain.key}_RPC_URL`]),
+      tokens: parseList(process.env[`${chain.key}_TOKEN_ADDRESSES`]),
+    })),
+];
+
 // Validation
 const requiredVars = [
   "SUPABASE_URL",
@@ -38,6 +306,10 @@ const requiredVars = [
   "SEPOLIA_RPC_URL",
 ];
 
+if (config.storage.backend === "sql") {
+  requiredVars.push("DATABASE_URL");
+}
+
 for (const variable of requiredVars) {
   if (!process.env[variable]) {
     throw new Error(`Missing required environment variable: ${variable}`);
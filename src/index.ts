@@ -1,31 +1,50 @@
 import express, { Express, Request, Response } from "express";
 import { config } from "./config";
 import { databaseService } from "./services/database";
+import { transactionTracker } from "./services/tracker";
+import { rpcService } from "./services/rpc";
+import { webhookService } from "./services/webhooks";
+import { depositScanner } from "./services/depositScanner";
+import { sessionService } from "./services/session";
 import authRoutes from "./routes/auth";
 import walletRoutes from "./routes/wallet";
 import transactionRoutes from "./routes/transaction";
+import webhookRoutes from "./routes/webhook";
+import eventRoutes from "./routes/events";
+import adminRoutes from "./routes/admin";
+import metricsRoutes from "./routes/metrics";
+import healthRoutes from "./routes/health";
+import { requestContextMiddleware } from "./middleware/requestContext";
+import { paraErrorHandler } from "./middleware/paraErrors";
+import { metricsMiddleware } from "./middleware/metrics";
+import { logger } from "./services/logger";
 
 const app: Express = express();
 
+// Use the client address from X-Forwarded-For when behind a proxy (per-IP rate limits)
+app.set("trust proxy", config.trustProxy);
+
 // Middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Logging middleware
-app.use((req: Request, res: Response, next) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-  next();
-});
+// Request IDs and access logs
+app.use(requestContextMiddleware);
+app.use(metricsMiddleware);
 
-// Health check endpoint
-app.get("/health", (req: Request, res: Response) => {
-  res.status(200).json({ status: "ok", timestamp: new Date().toISOString() });
-});
+// Health checks: status, liveness and readiness
+app.use("/health", healthRoutes);
+
+// Prometheus scrape endpoint
+app.use("/metrics", metricsRoutes);
 
 // API Routes
 app.use("/api/auth", authRoutes);
 app.use("/api/wallet", walletRoutes);
 app.use("/api/transaction", transactionRoutes);
+app.use("/api/webhooks", webhookRoutes);
+app.use("/api/events", eventRoutes);
+app.use("/api/admin", adminRoutes);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -36,8 +55,9 @@ app.use((req: Request, res: Response) => {
 });
 
 // Error handling middleware
+app.use(paraErrorHandler);
 app.use((error: any, req: Request, res: Response, next: Function) => {
-  console.error("Unhandled error:", error);
+  logger.error("Unhandled error", { error });
   res.status(error.status || 500).json({
     error: error.name || "Internal Server Error",
     message: error.message,
@@ -45,32 +65,36 @@ app.use((error: any, req: Request, res: Response, next: Function) => {
 });
 
 // Initialize and start server
-const startServer = async () => {
+export const startServer = async () => {
   try {
     // Initialize database schema
-    console.log("Initializing database schema...");
+    logger.info("Initializing database schema");
     await databaseService.initializeSchema();
-    console.log("Database schema initialized.");
 
-    // Start listening
+    // Health-check RPC endpoints, reconcile pending transactions, deliver
+    // webhooks, watch for deposits and sweep expired session revocations
+    rpcService.start();
+    transactionTracker.start();
+    webhookService.start();
+    depositScanner.start();
+    sessionService.start();
+
+    // Start listening; the endpoints are listed in API.md
     app.listen(config.port, () => {
-      console.log(`✓ Server running on http://localhost:${config.port}`);
-      console.log(`✓ Environment: ${config.nodeEnv}`);
-      console.log(`\nAvailable endpoints:`);
-      console.log(`  POST   /api/auth/signup         - Register new user & create wallet`);
-      console.log(`  POST   /api/auth/login          - Login existing user`);
-      console.log(`  GET    /api/wallet              - View wallet details & balance`);
-      console.log(`  GET    /api/wallet/status       - Quick wallet status check`);
-      console.log(`  POST   /api/transaction/send    - Send crypto transaction`);
-      console.log(`  GET    /api/transaction/:hash   - Check transaction status`);
-      console.log(`  GET    /health                  - Health check`);
+      logger.info("Server running", {
+        url: `http://localhost:${config.port}`,
+        environment: config.nodeEnv,
+      });
     });
   } catch (error) {
-    console.error("Failed to start server:", error);
+    logger.error("Failed to start server", { error });
     process.exit(1);
   }
 };
 
-startServer();
+// Started when run directly; tests import the app and serve it themselves
+if (require.main === module) {
+  startServer();
+}
 
 export default app;
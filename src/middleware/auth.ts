@@ -1,21 +1,45 @@
 import { Request, Response, NextFunction } from "express";
+import { createHash, timingSafeEqual } from "crypto";
 import { supabaseService } from "../services/supabase";
+import { sessionService } from "../services/session";
+import { AuthenticatedUser } from "../types";
+import { RateLimitStore, rateLimitStore } from "../services/rateLimitStore";
+import { logger, requestContext } from "../services/logger";
+import { config } from "../config";
 
 // Extend Express Request to include user context
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        userId: string;
-        email: string;
-      };
+      user?: AuthenticatedUser;
+      accessToken?: string;
     }
   }
 }
 
+/**
+ * Verify an access token and check that its session is still active
+ * Shared by authMiddleware and streamAuthMiddleware
+ */
+const authenticate = async (token: string): Promise<AuthenticatedUser> => {
+  // Verify token with Supabase
+  const user = await supabaseService.verifyToken(token);
+
+  if (await sessionService.isRevoked(user)) {
+    throw new Error("Session has been revoked. Please log in again.");
+  }
+
+  // Tag the request's log lines and audit entries with the user
+  const context = requestContext.get();
+  if (context) context.userId = user.userId;
+
+  return user;
+};
+
 /**
  * Middleware to verify Supabase JWT token
  * Extracts user ID from token and attaches to request
+ * Tokens of logged-out sessions are refused even before they expire
  */
 export const authMiddleware = async (
   req: Request,
@@ -41,9 +65,8 @@ export const authMiddleware = async (
       });
     }
 
-    // Verify token with Supabase
-    const user = await supabaseService.verifyToken(token);
-    req.user = user;
+    req.user = await authenticate(token);
+    req.accessToken = token;
 
     next();
   } catch (error: any) {
@@ -55,13 +78,128 @@ export const authMiddleware = async (
 };
 
 /**
- * Optional middleware for rate limiting (can be expanded)
+ * Middleware to authenticate streaming connections
+ * Same check as authMiddleware, but browsers' EventSource can't set headers,
+ * so the token may also come in the access_token query parameter
  */
-export const rateLimitMiddleware = async (
+export const streamAuthMiddleware = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  // TODO: Implement rate limiting per user
+  if (req.headers.authorization) {
+    return authMiddleware(req, res, next);
+  }
+
+  const token = req.query.access_token;
+  if (typeof token !== "string" || !token) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "Missing Authorization header or access_token query parameter",
+    });
+  }
+
+  try {
+    req.user = await authenticate(token);
+    req.accessToken = token;
+
+    next();
+  } catch (error: any) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: error.message,
+    });
+  }
+};
+
+export interface RateLimitBudget {
+  name: string; // separates counters between budgets
+  windowMs: number;
+  perUser: number;
+  perIp: number;
+  store?: RateLimitStore; // defaults to the shared store
+}
+
+/**
+ * Middleware for the operator API
+ * Requires the X-Admin-Key header to match ADMIN_API_KEY; without a
+ * configured key the operator API is off
+ */
+export const adminMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  if (!config.admin.apiKey) {
+    return res.status(503).json({
+      error: "Service Unavailable",
+      message: "Operator API is disabled. Set ADMIN_API_KEY to enable it.",
+    });
+  }
+
+  // Compare digests so the check takes the same time whatever the input
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  const provided = req.header("X-Admin-Key") || "";
+  if (!timingSafeEqual(digest(provided), digest(config.admin.apiKey))) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "Missing or invalid X-Admin-Key header",
+    });
+  }
+
   next();
 };
+
+/**
+ * Middleware factory for rate limiting
+ * Counts each request against the user and the client IP. The user is the
+ * authenticated user, or the email in the body on /login and /signup. Sets
+ * RateLimit-* headers from whichever counter is closer to its limit, and
+ * answers 429 with Retry-After once either is exceeded.
+ */
+export const rateLimitMiddleware =
+  (budget: RateLimitBudget) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const store = budget.store || rateLimitStore.get();
+      const email =
+        typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : null;
+      const userKey = req.user?.userId || email;
+
+      const checks = [{ key: `ip:${req.ip}`, limit: budget.perIp }];
+      if (userKey) {
+        checks.push({ key: `user:${userKey}`, limit: budget.perUser });
+      }
+
+      const results = await Promise.all(
+        checks.map(async ({ key, limit }) => {
+          const { count, resetAt } = await store.increment(
+            `${budget.name}:${key}`,
+            budget.windowMs
+          );
+          return { limit, remaining: limit - count, resetAt };
+        })
+      );
+
+      // Report the counter with the least room left
+      const tightest = results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+      const resetSeconds = Math.max(
+        Math.ceil((tightest.resetAt - Date.now()) / 1000),
+        0
+      );
+
+      res.setHeader("RateLimit-Limit", tightest.limit);
+      res.setHeader("RateLimit-Remaining", Math.max(tightest.remaining, 0));
+      res.setHeader("RateLimit-Reset", resetSeconds);
+
+      if (tightest.remaining < 0) {
+        res.setHeader("Retry-After", resetSeconds);
+        return res.status(429).json({
+          error: "Too Many Requests",
+          message: `Rate limit exceeded. Try again in ${resetSeconds} seconds.`,
+        });
+      }
+
+      next();
+    } catch (error: any) {
+      // Fail open: a broken counter store shouldn't take the API down
+      logger.error("Rate limit check error", { budget: budget.name, error });
+      next();
+    }
+  };
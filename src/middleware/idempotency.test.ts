@@ -0,0 +1,146 @@
+import "../testing/unitEnv";
+import { after, before, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express, { NextFunction, Request, Response } from "express";
+import { IdempotencyRecord } from "../types";
+import { databaseService } from "../services/database";
+import { idempotencyMiddleware } from "./idempotency";
+
+const USER_ID = "0b6c1b9e-5d0c-4c1e-9f37-6a3f4d1e2c11";
+
+describe("idempotencyMiddleware", () => {
+  let server: Server;
+  let baseUrl: string;
+  // Stored keys, as the storage backends keep them
+  let records: Map<string, IdempotencyRecord>;
+  let routeCalls: number;
+  let routeStatus: number;
+
+  const send = async (key: string, body: unknown) => {
+    const response = await fetch(`${baseUrl}/send`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+      body: JSON.stringify(body),
+    });
+    return {
+      status: response.status,
+      replayed: response.headers.get("Idempotent-Replayed") === "true",
+      body: (await response.json()) as { sent?: number; message?: string },
+    };
+  };
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+      req.user = { userId: USER_ID, email: "user@example.com" };
+      next();
+    });
+    app.post("/send", idempotencyMiddleware, (_req: Request, res: Response) => {
+      routeCalls++;
+      res.status(routeStatus).json({ sent: routeCalls });
+    });
+
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    records = new Map();
+    routeCalls = 0;
+    routeStatus = 201;
+
+    mock.method(databaseService, "claimIdempotencyKey", async (
+      supabaseId: string,
+      key: string,
+      requestHash: string,
+      expiresAt: string
+    ) => {
+      const existing = records.get(key);
+      if (existing) return existing;
+      records.set(key, {
+        supabase_id: supabaseId,
+        idempotency_key: key,
+        request_hash: requestHash,
+        status: "in_progress",
+        created_at: new Date().toISOString(),
+        expires_at: expiresAt,
+      });
+      return null;
+    });
+    mock.method(databaseService, "completeIdempotencyKey", async (
+      _supabaseId: string,
+      key: string,
+      responseStatus: number,
+      responseBody: unknown
+    ) => {
+      Object.assign(records.get(key)!, {
+        status: "completed",
+        response_status: responseStatus,
+        response_body: responseBody,
+      });
+    });
+    mock.method(databaseService, "releaseIdempotencyKey", async (_supabaseId: string, key: string) => {
+      records.delete(key);
+    });
+  });
+
+  test("replays the stored response for a repeat with the same body", async () => {
+    const first = await send("key-1", { to: "0xabc", amount: "0.1" });
+    // Same body with its keys in another order
+    const repeat = await send("key-1", { amount: "0.1", to: "0xabc" });
+
+    assert.equal(first.status, 201);
+    assert.equal(repeat.status, 201);
+    assert.equal(repeat.replayed, true);
+    assert.deepEqual(repeat.body, first.body);
+    assert.equal(routeCalls, 1);
+  });
+
+  test("refuses a repeat with a different body with 422", async () => {
+    await send("key-1", { to: "0xabc", amount: "0.1" });
+    const repeat = await send("key-1", { to: "0xabc", amount: "0.2" });
+
+    assert.equal(repeat.status, 422);
+    assert.match(repeat.body.message!, /different request/);
+    assert.equal(routeCalls, 1);
+  });
+
+  test("refuses a repeat while the first request is in progress with 409", async () => {
+    mock.method(databaseService, "completeIdempotencyKey", async () => undefined);
+    await send("key-1", { amount: "0.1" });
+
+    const repeat = await send("key-1", { amount: "0.1" });
+    assert.equal(repeat.status, 409);
+  });
+
+  test("releases the key after a 5xx so the request can be retried", async () => {
+    routeStatus = 503;
+    await send("key-1", { amount: "0.1" });
+    routeStatus = 201;
+    const retry = await send("key-1", { amount: "0.1" });
+
+    assert.equal(retry.status, 201);
+    assert.equal(retry.replayed, false);
+    assert.equal(routeCalls, 2);
+  });
+
+  test("stores the response before sending it", async () => {
+    let storedWhenSent = false;
+    mock.method(databaseService, "completeIdempotencyKey", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      storedWhenSent = true;
+    });
+
+    await send("key-1", { amount: "0.1" });
+    assert.equal(storedWhenSent, true);
+  });
+});
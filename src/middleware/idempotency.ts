@@ -0,0 +1,135 @@
+import { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { config } from "../config";
+import { databaseService } from "../services/database";
+import { logger } from "../services/logger";
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Serialize a value with object keys sorted, so equal bodies hash equally
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+/**
+ * Keep this request's Idempotency-Key whatever the response status
+ * Call once the request has done something a retry must not repeat, e.g. a
+ * transaction was signed; the response is then stored and replayed even if
+ * it is an error.
+ */
+export const holdIdempotencyKey = (res: Response): void => {
+  res.locals.holdIdempotencyKey = true;
+};
+
+/**
+ * Middleware to make a route safe to retry with an Idempotency-Key header
+ * Must run after authMiddleware; keys are scoped per user.
+ *
+ * - First request with a key runs normally and its response is stored
+ * - A repeat with the same key and body replays the stored response
+ * - A repeat with a different body is rejected with 422
+ * - A repeat while the first is still running is rejected with 409
+ *
+ * 5xx, 401 and 429 responses release the key so the client can retry, e.g.
+ * after a step-up challenge or once Para stops rate limiting, unless the
+ * route called holdIdempotencyKey first. The response is sent only once the
+ * key is stored or released, so a retry the moment it arrives is replayed
+ * rather than refused as in progress.
+ */
+export const idempotencyMiddleware = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const key = req.header("Idempotency-Key");
+  if (key === undefined) {
+    return next();
+  }
+
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "User ID not found in token",
+    });
+  }
+
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    return res.status(400).json({
+      error: "Bad Request",
+      message: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+    });
+  }
+
+  try {
+    const requestHash = createHash("sha256")
+      .update(`${req.method} ${req.originalUrl} ${stableStringify(req.body)}`)
+      .digest("hex");
+    const expiresAt = new Date(Date.now() + config.idempotency.ttlMs).toISOString();
+
+    const existing = await databaseService.claimIdempotencyKey(
+      userId,
+      key,
+      requestHash,
+      expiresAt
+    );
+
+    if (existing) {
+      if (existing.request_hash !== requestHash) {
+        return res.status(422).json({
+          error: "Unprocessable Entity",
+          message: "Idempotency-Key was already used with a different request",
+        });
+      }
+
+      if (existing.status !== "completed") {
+        return res.status(409).json({
+          error: "Conflict",
+          message: "A request with this Idempotency-Key is still being processed",
+        });
+      }
+
+      res.setHeader("Idempotent-Replayed", "true");
+      return res.status(existing.response_status!).json(existing.response_body);
+    }
+
+    // Capture the route's response and store it before it is sent
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      const retryable =
+        res.statusCode >= 500 || res.statusCode === 401 || res.statusCode === 429;
+      const settle =
+        retryable && !res.locals.holdIdempotencyKey
+          ? databaseService.releaseIdempotencyKey(userId, key)
+          : databaseService.completeIdempotencyKey(userId, key, res.statusCode, body);
+
+      settle
+        .catch((error) => logger.error("Failed to store idempotency key", { error }))
+        .finally(() => originalJson(body));
+
+      return res;
+    };
+
+    next();
+  } catch (error: any) {
+    logger.error("Idempotency check error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+};
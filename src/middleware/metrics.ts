@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from "express";
+import { metricsService } from "../services/metrics";
+
+/**
+ * Middleware counting and timing every request by route pattern
+ * Paths are recorded as their route (/api/transaction/:txHash), not as
+ * requested, so each route is one time series; unknown paths share one.
+ */
+export const metricsMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const startedAt = process.hrtime.bigint();
+
+  res.on("finish", () => {
+    // Requests refused before reaching a route (e.g. by auth) count under their router
+    const route = req.route
+      ? `${req.baseUrl}${req.route.path}`
+      : req.baseUrl
+        ? `${req.baseUrl}/*`
+        : "unmatched";
+    metricsService.recordHttpRequest(
+      req.method,
+      route,
+      res.statusCode,
+      Number(process.hrtime.bigint() - startedAt) / 1e9
+    );
+  });
+
+  next();
+};
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from "express";
+import { ParaErrorCode } from "../types";
+import { ParaError } from "../services/para";
+import { logger } from "../services/logger";
+
+// Our response to each kind of Para failure; every endpoint answers alike
+const PARA_ERROR_RESPONSES: Record<ParaErrorCode, { status: number; error: string }> = {
+  PARA_NOT_FOUND: { status: 404, error: "Not Found" },
+  PARA_CONFLICT: { status: 409, error: "Conflict" },
+  PARA_RATE_LIMITED: { status: 429, error: "Too Many Requests" },
+  PARA_UNAVAILABLE: { status: 503, error: "Service Unavailable" },
+  PARA_SIGNING_REJECTED: { status: 422, error: "Signing Rejected" },
+  PARA_REQUEST_FAILED: { status: 502, error: "Bad Gateway" },
+};
+
+/**
+ * Answer a request that failed on a Para call
+ * Body: { error, code, message }; Retry-After is set when Para or the
+ * circuit breaker said when to come back. Pass message to replace the
+ * error's own.
+ */
+export const sendParaError = (
+  res: Response,
+  error: ParaError,
+  message: string = error.message
+): Response => {
+  const { status, error: title } = PARA_ERROR_RESPONSES[error.code];
+  if (error.retryAfterMs !== null) {
+    res.setHeader("Retry-After", Math.ceil(error.retryAfterMs / 1000));
+  }
+  return res.status(status).json({ error: title, code: error.code, message });
+};
+
+/**
+ * Error-handling middleware for Para errors that reach the app unhandled
+ */
+export const paraErrorHandler = (
+  error: any,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!(error instanceof ParaError)) return next(error);
+
+  logger.error("Unhandled Para error", { error });
+  return sendParaError(res, error);
+};
@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { logger, requestContext } from "../services/logger";
+
+// Accept a caller's request ID only if it is short and plain
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,100}$/;
+
+/**
+ * Middleware giving every request a correlation ID and an access log line
+ * The ID is taken from X-Request-Id when the caller (or a proxy) sent one,
+ * echoed back in the response, and attached to every log line, audit entry,
+ * Para call and RPC call made while serving the request.
+ * Mount after the body parsers: they run outside the request's context.
+ */
+export const requestContextMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const incoming = req.header("X-Request-Id");
+  const requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const startedAt = process.hrtime.bigint();
+
+  res.setHeader("X-Request-Id", requestId);
+
+  requestContext.run(
+    { requestId, ip: req.ip, userAgent: req.header("User-Agent") },
+    () => {
+      // Logged when the response is sent; the path never includes the query
+      // string, which may carry an access token (see GET /api/events)
+      res.on("finish", () =>
+        logger.info("Request completed", {
+          method: req.method,
+          path: req.path,
+          status: res.statusCode,
+          durationMs: Number(process.hrtime.bigint() - startedAt) / 1e6,
+        })
+      );
+
+      next();
+    }
+  );
+};
@@ -0,0 +1,28 @@
+import { config } from "./config";
+import { createSqlStorage } from "./services/storage/sql";
+import { logger } from "./services/logger";
+
+/**
+ * Apply pending database migrations: npm run migrate
+ * Connects to DATABASE_URL whichever storage backend the app uses, so it also
+ * prepares a Supabase project's database before the first deploy.
+ */
+const migrate = async () => {
+  if (!config.storage.databaseUrl) {
+    logger.error("DATABASE_URL is required to run migrations");
+    process.exit(1);
+  }
+
+  const storage = createSqlStorage(config.storage.databaseUrl);
+  try {
+    await storage.initializeSchema();
+    logger.info("Database is up to date");
+  } catch (error) {
+    logger.error("Migration failed", { error });
+    process.exitCode = 1;
+  } finally {
+    await storage.close();
+  }
+};
+
+migrate();
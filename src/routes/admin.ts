@@ -0,0 +1,401 @@
+import { Router, Request, Response } from "express";
+import { getAddress } from "ethers";
+import { adminMiddleware } from "../middleware/auth";
+import { databaseService } from "../services/database";
+import { policyService } from "../services/policy";
+import { blockchainService } from "../services/blockchain";
+import { auditService } from "../services/audit";
+import { logger } from "../services/logger";
+import { config } from "../config";
+import {
+  AuditAction,
+  AuditLogEntry,
+  AuditOutcome,
+  SpendingLimitsRecord,
+  SpendingLimitsUpdate,
+  TokenSpendingLimitsRecord,
+} from "../types";
+
+const router = Router();
+
+// Operator API: authenticated with ADMIN_API_KEY, not user tokens
+router.use(adminMiddleware);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const AUDIT_OUTCOMES: AuditOutcome[] = ["success", "failure", "denied"];
+
+/**
+ * Shape a user's spending limit overrides for API responses (wei; null means
+ * the default applies)
+ */
+const toLimitsView = (record: SpendingLimitsRecord | null): SpendingLimitsUpdate => ({
+  maxPerTransaction: record?.max_per_transaction ?? null,
+  daily: record?.daily_limit ?? null,
+  weekly: record?.weekly_limit ?? null,
+  dailyTxCount: record?.daily_tx_count ?? null,
+});
+
+/**
+ * Shape a user's overrides for one token for API responses (token base
+ * units; null means the LIMIT_TOKENS default applies)
+ */
+const toTokenLimitsView = (record: TokenSpendingLimitsRecord) => ({
+  chainId: record.chain_id,
+  token: getAddress(record.token_address),
+  maxPerTransaction: record.max_per_transaction,
+  daily: record.daily_limit,
+  weekly: record.weekly_limit,
+});
+
+/**
+ * Read the user, chain and token of a per-token limits route
+ * Returns an error message if one is invalid
+ */
+const parseTokenLimitsParams = (
+  params: Record<string, string>
+): { userId: string; chainId: number; token: string } | string => {
+  if (!UUID_PATTERN.test(params.userId)) {
+    return "'userId' must be a user UUID";
+  }
+  const chainId = Number(params.chainId);
+  try {
+    blockchainService.getChain(chainId);
+    return { userId: params.userId, chainId, token: getAddress(params.token) };
+  } catch (error: any) {
+    return error.message;
+  }
+};
+
+/**
+ * Shape an audit log entry for API responses
+ */
+const toAuditView = (entry: AuditLogEntry) => ({
+  id: entry.id,
+  userId: entry.supabase_id ?? null,
+  action: entry.action,
+  outcome: entry.outcome,
+  requestId: entry.request_id ?? null,
+  ip: entry.ip ?? null,
+  userAgent: entry.user_agent ?? null,
+  details: entry.details,
+  createdAt: entry.created_at,
+});
+
+/**
+ * GET /admin/audit
+ * Audit log, newest first
+ *
+ * Headers: X-Admin-Key
+ * Query: userId?, action?, outcome?, since?, until? (ISO timestamps),
+ *        limit? (1-200, default 50), offset?
+ * Response: { entries: [...], pagination: { limit, offset, total } }
+ */
+router.get("/audit", async (req: Request, res: Response) => {
+  try {
+    const { userId, action, outcome, since, until } = req.query;
+    const limit = req.query.limit ? Number(req.query.limit) : 50;
+    const offset = req.query.offset ? Number(req.query.offset) : 0;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 200) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'limit' must be an integer between 1 and 200",
+      });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'offset' must be a non-negative integer",
+      });
+    }
+    if (userId !== undefined && (typeof userId !== "string" || !UUID_PATTERN.test(userId))) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'userId' must be a user UUID",
+      });
+    }
+    if (action !== undefined && typeof action !== "string") {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'action' must be a single value",
+      });
+    }
+    if (outcome !== undefined && !AUDIT_OUTCOMES.includes(outcome as AuditOutcome)) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: `'outcome' must be one of: ${AUDIT_OUTCOMES.join(", ")}`,
+      });
+    }
+    for (const [name, value] of Object.entries({ since, until })) {
+      if (value !== undefined && (typeof value !== "string" || isNaN(Date.parse(value)))) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: `'${name}' must be an ISO 8601 timestamp`,
+        });
+      }
+    }
+
+    const { entries, total } = await databaseService.listAuditLog({
+      supabaseId: userId as string | undefined,
+      action: action as AuditAction | undefined,
+      outcome: outcome as AuditOutcome | undefined,
+      since: since ? new Date(since as string).toISOString() : undefined,
+      until: until ? new Date(until as string).toISOString() : undefined,
+      limit,
+      offset,
+    });
+
+    return res.status(200).json({
+      entries: entries.map(toAuditView),
+      pagination: { limit, offset, total },
+    });
+  } catch (error: any) {
+    logger.error("Audit log query error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /admin/users/:userId/limits
+ * A user's spending limit overrides and the limits in force on the primary chain
+ *
+ * Headers: X-Admin-Key
+ * Response: { userId, overrides: { maxPerTransaction, daily, weekly, dailyTxCount },
+ *             effective: { ... }, tokens: [{ chainId, token, maxPerTransaction, daily,
+ *             weekly }] } (native amounts in wei, token amounts in base units)
+ */
+router.get("/users/:userId/limits", async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    if (!UUID_PATTERN.test(userId)) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'userId' must be a user UUID",
+      });
+    }
+
+    const [overrides, effective, tokenOverrides] = await Promise.all([
+      databaseService.getSpendingLimits(userId),
+      policyService.getLimits(userId, { chainId: config.ethereum.chainId, token: null }),
+      databaseService.listTokenSpendingLimits(userId),
+    ]);
+
+    return res.status(200).json({
+      userId,
+      overrides: toLimitsView(overrides),
+      effective: {
+        maxPerTransaction: effective!.maxPerTransaction.toString(),
+        daily: effective!.dailyLimit.toString(),
+        weekly: effective!.weeklyLimit.toString(),
+        dailyTxCount: effective!.dailyTxCount,
+      },
+      tokens: tokenOverrides.map(toTokenLimitsView),
+    });
+  } catch (error: any) {
+    logger.error("Limits fetch error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * PUT /admin/users/:userId/limits
+ * Replace a user's spending limit overrides
+ * Amounts are wei and apply to each chain's native asset; a field left out
+ * or null falls back to the configured default.
+ *
+ * Headers: X-Admin-Key
+ * Request: { maxPerTransaction?: string | null, daily?: string | null,
+ *            weekly?: string | null, dailyTxCount?: number | null }
+ * Response: { userId, overrides }
+ */
+router.put("/users/:userId/limits", async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    if (!UUID_PATTERN.test(userId)) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'userId' must be a user UUID",
+      });
+    }
+
+    const { maxPerTransaction, daily, weekly, dailyTxCount } = (req.body ||
+      {}) as Partial<SpendingLimitsUpdate>;
+    for (const [name, value] of Object.entries({ maxPerTransaction, daily, weekly })) {
+      if (value != null && (typeof value !== "string" || !/^\d+$/.test(value))) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: `'${name}' must be an integer amount of wei as a string, or null`,
+        });
+      }
+    }
+    if (dailyTxCount != null && (!Number.isInteger(dailyTxCount) || dailyTxCount < 0)) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'dailyTxCount' must be a non-negative integer, or null",
+      });
+    }
+
+    const userWallet = await databaseService.getUserWallet(userId);
+    if (!userWallet) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "User not found",
+      });
+    }
+
+    const previous = await databaseService.getSpendingLimits(userId);
+    const saved = await databaseService.saveSpendingLimits({
+      supabase_id: userId,
+      max_per_transaction: maxPerTransaction ?? null,
+      daily_limit: daily ?? null,
+      weekly_limit: weekly ?? null,
+      daily_tx_count: dailyTxCount ?? null,
+    });
+
+    const overrides = toLimitsView(saved);
+    await auditService.record(
+      "limits.update",
+      "success",
+      { previous: toLimitsView(previous), limits: overrides, by: "admin" },
+      userId
+    );
+
+    return res.status(200).json({ userId, overrides });
+  } catch (error: any) {
+    logger.error("Limits update error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * PUT /admin/users/:userId/limits/tokens/:chainId/:token
+ * Set a user's caps on one ERC-20 token on one chain
+ * Amounts are token base units; a field left out or null falls back to the
+ * token's LIMIT_TOKENS default, and is required when there is none.
+ *
+ * Headers: X-Admin-Key
+ * Request: { maxPerTransaction?: string | null, daily?: string | null, weekly?: string | null }
+ * Response: { userId, overrides: { chainId, token, maxPerTransaction, daily, weekly } }
+ */
+router.put("/users/:userId/limits/tokens/:chainId/:token", async (req: Request, res: Response) => {
+  try {
+    const params = parseTokenLimitsParams(req.params);
+    if (typeof params === "string") {
+      return res.status(400).json({ error: "Bad Request", message: params });
+    }
+    const { userId, chainId, token } = params;
+
+    const { maxPerTransaction, daily, weekly } = (req.body || {}) as Partial<
+      Omit<SpendingLimitsUpdate, "dailyTxCount">
+    >;
+    const defaults = policyService.getTokenDefaults(chainId, token);
+    for (const [name, value] of Object.entries({ maxPerTransaction, daily, weekly })) {
+      if (value != null && (typeof value !== "string" || !/^\d+$/.test(value))) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: `'${name}' must be an integer amount of token base units as a string, or null`,
+        });
+      }
+      if (value == null && !defaults) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: `'${name}' is required: the token has no LIMIT_TOKENS default on chain ${chainId}`,
+        });
+      }
+    }
+
+    const userWallet = await databaseService.getUserWallet(userId);
+    if (!userWallet) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "User not found",
+      });
+    }
+
+    const previous = await databaseService.getTokenSpendingLimits(userId, chainId, token);
+    const saved = await databaseService.saveTokenSpendingLimits({
+      supabase_id: userId,
+      chain_id: chainId,
+      token_address: token,
+      max_per_transaction: maxPerTransaction ?? null,
+      daily_limit: daily ?? null,
+      weekly_limit: weekly ?? null,
+    });
+
+    const overrides = toTokenLimitsView(saved);
+    await auditService.record(
+      "limits.update",
+      "success",
+      {
+        previous: previous ? toTokenLimitsView(previous) : null,
+        limits: overrides,
+        by: "admin",
+      },
+      userId
+    );
+
+    return res.status(200).json({ userId, overrides });
+  } catch (error: any) {
+    logger.error("Token limits update error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * DELETE /admin/users/:userId/limits/tokens/:chainId/:token
+ * Remove a user's caps on one token, so its LIMIT_TOKENS default applies
+ * (or, without one, the token can't be sent)
+ *
+ * Headers: X-Admin-Key
+ * Response: 204 No Content
+ */
+router.delete(
+  "/users/:userId/limits/tokens/:chainId/:token",
+  async (req: Request, res: Response) => {
+    try {
+      const params = parseTokenLimitsParams(req.params);
+      if (typeof params === "string") {
+        return res.status(400).json({ error: "Bad Request", message: params });
+      }
+      const { userId, chainId, token } = params;
+
+      const previous = await databaseService.getTokenSpendingLimits(userId, chainId, token);
+      if (!previous || !(await databaseService.deleteTokenSpendingLimits(userId, chainId, token))) {
+        return res.status(404).json({
+          error: "Not Found",
+          message: "No limits are set for this token",
+        });
+      }
+
+      await auditService.record(
+        "limits.update",
+        "success",
+        { previous: toTokenLimitsView(previous), limits: null, by: "admin" },
+        userId
+      );
+
+      return res.status(204).send();
+    } catch (error: any) {
+      logger.error("Token limits delete error", { error });
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: error.message,
+      });
+    }
+  }
+);
+
+export default router;
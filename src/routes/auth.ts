@@ -1,19 +1,36 @@
 import { Router, Request, Response } from "express";
 import { supabaseService } from "../services/supabase";
-import { paraService } from "../services/para";
+import { provisioningService } from "../services/provisioning";
+import { ParaError } from "../services/para";
 import { databaseService } from "../services/database";
-import { SignupRequest, LoginRequest } from "../types";
+import { sessionService } from "../services/session";
+import { stepUpService } from "../services/stepUp";
+import { authMiddleware, rateLimitMiddleware } from "../middleware/auth";
+import { sendParaError } from "../middleware/paraErrors";
+import { config } from "../config";
+import { SignupRequest, LoginRequest, RefreshRequest } from "../types";
+import { formatEther, parseEther } from "ethers";
+import { auditService } from "../services/audit";
+import { logger } from "../services/logger";
 
 const router = Router();
 
+const stepUpRateLimit = rateLimitMiddleware(config.rateLimits.stepUp);
+
 /**
  * POST /auth/signup
  * Create a new user with Supabase and automatically provision a Para wallet
  *
+ * Runs as a saga: the user is created, then the wallet is provisioned with
+ * retries. If provisioning still fails the user is deleted again, so the
+ * signup can simply be repeated. The user is kept if Para may already hold a
+ * wallet for them (deleting them would orphan it), or if that clean-up fails;
+ * they can then log in and finish with POST /wallet/provision.
+ *
  * Request: { email: string, password: string }
  * Response: { user: {...}, session: {...}, wallet: { id, status, address? } }
  */
-router.post("/signup", async (req: Request, res: Response) => {
+router.post("/signup", rateLimitMiddleware(config.rateLimits.signup), async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body as SignupRequest;
 
@@ -29,29 +46,57 @@ router.post("/signup", async (req: Request, res: Response) => {
     const authResponse = await supabaseService.signup({ email, password });
     const supabaseUserId = authResponse.user.id;
 
-    // Step 2: Create wallet in Para
+    // Step 2: Create wallet in Para and store the mapping
     let paraWallet;
     try {
-      paraWallet = await paraService.createWallet(supabaseUserId);
-    } catch (paraError: any) {
-      // If wallet creation fails, clean up the Supabase user
-      console.error("Para wallet creation failed:", paraError.message);
+      paraWallet = await provisioningService.provisionWallet(supabaseUserId);
+    } catch (provisioningError: any) {
+      logger.error("Wallet provisioning failed", { error: provisioningError });
+
+      // A wallet Para created (or reports with a 409) is keyed to this user's
+      // ID; the failed job is left for POST /wallet/provision to pick it up
+      const job = await databaseService
+        .getProvisioningJob(supabaseUserId)
+        .catch(() => null);
+      const walletMayExist =
+        !!job?.para_wallet_id ||
+        (provisioningError instanceof ParaError && provisioningError.code === "PARA_CONFLICT");
+
+      // Compensate: otherwise remove the user so no account is left without a wallet
+      let userDeleted = false;
+      if (!walletMayExist) {
+        try {
+          await supabaseService.deleteUser(supabaseUserId);
+          userDeleted = true;
+        } catch (cleanupError: any) {
+          logger.error("Signup clean-up failed", { error: cleanupError });
+        }
+      }
+
+      await auditService.record(
+        "auth.signup",
+        "failure",
+        { email, error: provisioningError.message, userDeleted },
+        supabaseUserId
+      );
+      const message = userDeleted
+        ? `${provisioningError.message}. No account was created; please sign up again.`
+        : `${provisioningError.message}. Log in and call POST /api/wallet/provision to finish setting up your wallet.`;
+      if (provisioningError instanceof ParaError) {
+        return sendParaError(res, provisioningError, message);
+      }
       return res.status(500).json({
         error: "Wallet Creation Failed",
-        message: paraError.message,
+        message,
       });
     }
 
-    // Step 3: Store mapping in database
-    try {
-      await databaseService.saveUserWallet(supabaseUserId, paraWallet.id);
-    } catch (dbError: any) {
-      console.error("Database save failed:", dbError.message);
-      return res.status(500).json({
-        error: "Database Error",
-        message: dbError.message,
-      });
-    }
+    await auditService.record(
+      "auth.signup",
+      "success",
+      { email, walletId: paraWallet.id },
+      supabaseUserId
+    );
 
     return res.status(201).json({
       user: authResponse.user,
@@ -67,7 +112,11 @@ router.post("/signup", async (req: Request, res: Response) => {
       },
     });
   } catch (error: any) {
-    console.error("Signup error:", error);
+    logger.error("Signup error", { error });
+    await auditService.record("auth.signup", "failure", {
+      email: req.body?.email,
+      error: error.message,
+    });
     return res.status(500).json({
       error: "Internal Server Error",
       message: error.message,
@@ -82,7 +131,7 @@ router.post("/signup", async (req: Request, res: Response) => {
  * Request: { email: string, password: string }
  * Response: { user: {...}, session: {...} }
  */
-router.post("/login", async (req: Request, res: Response) => {
+router.post("/login", rateLimitMiddleware(config.rateLimits.login), async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body as LoginRequest;
 
@@ -96,10 +145,15 @@ router.post("/login", async (req: Request, res: Response) => {
 
     // Authenticate with Supabase
     const authResponse = await supabaseService.login({ email, password });
+    await auditService.record("auth.login", "success", { email }, authResponse.user.id);
 
     return res.status(200).json(authResponse);
   } catch (error: any) {
-    console.error("Login error:", error);
+    logger.warn("Login failed", { error });
+    await auditService.record("auth.login", "failure", {
+      email: req.body?.email,
+      error: error.message,
+    });
     return res.status(401).json({
       error: "Unauthorized",
       message: "Invalid email or password",
@@ -107,4 +161,344 @@ router.post("/login", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /auth/refresh
+ * Exchange a refresh token for a new session
+ * The refresh token is single-use; store the one returned
+ *
+ * Request: { refresh_token: string }
+ * Response: { user: {...}, session: {...} }
+ */
+router.post("/refresh", async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body as RefreshRequest;
+
+    if (!refresh_token) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "refresh_token is required",
+      });
+    }
+
+    const authResponse = await supabaseService.refreshSession(refresh_token);
+
+    return res.status(200).json(authResponse);
+  } catch (error: any) {
+    logger.warn("Refresh failed", { error });
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "Invalid or expired refresh token",
+    });
+  }
+});
+
+/**
+ * POST /auth/logout
+ * End the current session
+ * Its refresh token stops working and its access tokens are refused from now on
+ *
+ * Response: 204 No Content
+ */
+router.post("/logout", authMiddleware, async (req: Request, res: Response) => {
+  try {
+    await supabaseService.signOut(req.accessToken!, "local");
+    await sessionService.revoke(req.user!);
+    await auditService.record("auth.logout", "success", { sessionId: req.user!.sessionId });
+
+    return res.status(204).send();
+  } catch (error: any) {
+    logger.error("Logout error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /auth/logout-all
+ * End every session of the current user, on all devices
+ *
+ * Response: 204 No Content
+ */
+router.post("/logout-all", authMiddleware, async (req: Request, res: Response) => {
+  try {
+    await supabaseService.signOut(req.accessToken!, "global");
+    await sessionService.revokeAll(req.user!.userId);
+    await auditService.record("auth.logout_all", "success");
+
+    return res.status(204).send();
+  } catch (error: any) {
+    logger.error("Logout-all error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /auth/totp
+ * Get the current user's TOTP factor status
+ *
+ * Response: { enrolled: boolean, enabled: boolean, enabledAt: string | null, threshold: string }
+ */
+router.get("/totp", authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const factor = await databaseService.getTotpFactor(req.user!.userId);
+
+    return res.status(200).json({
+      enrolled: !!factor,
+      enabled: !!factor?.enabled,
+      enabledAt: factor?.enabled_at ?? null,
+      threshold: formatEther(
+        factor ? stepUpService.getThreshold(factor) : parseEther(config.stepUp.thresholdEth)
+      ),
+    });
+  } catch (error: any) {
+    logger.error("TOTP status error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /auth/totp/enroll
+ * Start TOTP enrollment; add the secret to an authenticator app, then confirm
+ * a code with /auth/totp/activate. Starting again replaces an unconfirmed secret.
+ *
+ * Response: { secret: string, otpauthUrl: string }
+ */
+router.post("/totp/enroll", authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const factor = await databaseService.getTotpFactor(req.user!.userId);
+    if (factor?.enabled) {
+      return res.status(409).json({
+        error: "Conflict",
+        message: "TOTP is already enabled. Disable it before enrolling again.",
+      });
+    }
+
+    const enrollment = await stepUpService.enroll(req.user!);
+    await auditService.record("totp.enroll", "success");
+
+    return res.status(201).json(enrollment);
+  } catch (error: any) {
+    logger.error("TOTP enroll error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /auth/totp/activate
+ * Confirm enrollment with a code from the authenticator app
+ *
+ * Request: { code: string }
+ * Response: { enabled: true }
+ */
+router.post("/totp/activate", authMiddleware, stepUpRateLimit, async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== "string") {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "code is required",
+      });
+    }
+
+    const factor = await databaseService.getTotpFactor(req.user!.userId);
+    if (!factor) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "No TOTP enrollment in progress. Call /auth/totp/enroll first.",
+      });
+    }
+    if (factor.enabled) {
+      return res.status(409).json({
+        error: "Conflict",
+        message: "TOTP is already enabled",
+      });
+    }
+
+    if (!(await stepUpService.activate(factor, code))) {
+      await auditService.record("totp.activate", "denied", { reason: "invalid_code" });
+      return res.status(403).json({
+        error: "Invalid Code",
+        message: "Invalid or already used TOTP code",
+      });
+    }
+
+    await auditService.record("totp.activate", "success");
+
+    return res.status(200).json({ enabled: true });
+  } catch (error: any) {
+    logger.error("TOTP activate error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * PUT /auth/totp/threshold
+ * Set the amount above which sends need step-up
+ *
+ * Request: { threshold: string (ETH) | null (use the default), code: string }
+ * Response: { threshold: string }
+ */
+router.put("/totp/threshold", authMiddleware, stepUpRateLimit, async (req: Request, res: Response) => {
+  try {
+    const { threshold, code } = req.body;
+    if (
+      threshold !== null &&
+      (typeof threshold !== "string" || !/^\d+(\.\d+)?$/.test(threshold))
+    ) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "threshold must be a decimal string or null",
+      });
+    }
+    if (!code || typeof code !== "string") {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "code is required",
+      });
+    }
+
+    const factor = await databaseService.getTotpFactor(req.user!.userId);
+    if (!factor?.enabled) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "TOTP is not enabled",
+      });
+    }
+
+    if (!(await stepUpService.verifyCode(factor, code))) {
+      await auditService.record("totp.threshold", "denied", { reason: "invalid_code" });
+      return res.status(403).json({
+        error: "Invalid Code",
+        message: "Invalid or already used TOTP code",
+      });
+    }
+
+    const updated = await databaseService.saveTotpFactor(req.user!.userId, {
+      step_up_threshold: threshold === null ? null : parseEther(threshold).toString(),
+    });
+
+    await auditService.record("totp.threshold", "success", {
+      threshold: updated.step_up_threshold ?? null,
+    });
+
+    return res.status(200).json({
+      threshold: formatEther(stepUpService.getThreshold(updated)),
+    });
+  } catch (error: any) {
+    logger.error("TOTP threshold error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * DELETE /auth/totp
+ * Turn off TOTP; needs a current code
+ *
+ * Request: { code: string }
+ * Response: 204 No Content
+ */
+router.delete("/totp", authMiddleware, stepUpRateLimit, async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body || {};
+    if (!code || typeof code !== "string") {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "code is required",
+      });
+    }
+
+    const factor = await databaseService.getTotpFactor(req.user!.userId);
+    if (!factor?.enabled) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "TOTP is not enabled",
+      });
+    }
+
+    if (!(await stepUpService.verifyCode(factor, code))) {
+      await auditService.record("totp.disable", "denied", { reason: "invalid_code" });
+      return res.status(403).json({
+        error: "Invalid Code",
+        message: "Invalid or already used TOTP code",
+      });
+    }
+
+    await databaseService.deleteTotpFactor(req.user!.userId);
+    await auditService.record("totp.disable", "success");
+
+    return res.status(204).send();
+  } catch (error: any) {
+    logger.error("TOTP disable error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /auth/step-up
+ * Exchange a TOTP code for a short-lived step-up token
+ * Send it in X-Step-Up-Token on sends that need step-up; it is valid for
+ * this session only
+ *
+ * Request: { code: string }
+ * Response: { stepUpToken: string, expiresAt: string }
+ */
+router.post("/step-up", authMiddleware, stepUpRateLimit, async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== "string") {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "code is required",
+      });
+    }
+
+    const factor = await databaseService.getTotpFactor(req.user!.userId);
+    if (!factor?.enabled) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "TOTP is not enabled",
+      });
+    }
+
+    if (!(await stepUpService.verifyCode(factor, code))) {
+      await auditService.record("auth.step_up", "denied", { reason: "invalid_code" });
+      return res.status(403).json({
+        error: "Invalid Code",
+        message: "Invalid or already used TOTP code",
+      });
+    }
+
+    const { token, expiresAt } = stepUpService.issueToken(req.user!);
+    await auditService.record("auth.step_up", "success", { expiresAt });
+
+    return res.status(200).json({ stepUpToken: token, expiresAt });
+  } catch (error: any) {
+    logger.error("Step-up error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,137 @@
+import { Router, Request, Response } from "express";
+import { streamAuthMiddleware } from "../middleware/auth";
+import { realtimeService } from "../services/realtime";
+import { config } from "../config";
+import { StreamEvent } from "../types";
+import { logger } from "../services/logger";
+
+const router = Router();
+
+// How long clients wait before reconnecting after the stream drops
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Write one Server-Sent Events frame
+ */
+const writeEvent = (res: Response, event: string, data: unknown, id?: string): void => {
+  if (id) res.write(`id: ${id}\n`);
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * GET /events
+ * Server-Sent Events stream of the user's wallet and transaction updates
+ * Authenticate with the Authorization header, or ?access_token= where the
+ * client can't set headers (browser EventSource)
+ *
+ * Events:
+ * - snapshot: { wallet, balance } right after connecting
+ * - wallet.status, balance.changed, transaction.confirmations
+ * - every webhook event type (wallet.ready, transaction.*, deposit.received)
+ * - session.expired: the access token expired; reconnect with a fresh one
+ * - session.revoked: the session was logged out (or all of them were); the
+ *   stream ends
+ */
+router.get("/", streamAuthMiddleware, async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "User ID not found in token",
+    });
+  }
+
+  if (realtimeService.connectionCount(userId) >= config.realtime.maxStreamsPerUser) {
+    return res.status(429).json({
+      error: "Too Many Requests",
+      message: `At most ${config.realtime.maxStreamsPerUser} event streams can be open`,
+    });
+  }
+
+  // Subscribe before the first await so the stream counts toward the limit
+  // straight away; events are queued until the snapshot has been sent
+  const user = req.user!;
+  let queued: StreamEvent[] | null = [];
+  let heartbeat: NodeJS.Timeout | undefined;
+  let expiry: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  const onEvent = (event: StreamEvent) => {
+    if (queued) {
+      queued.push(event);
+      return;
+    }
+
+    if (event.type !== "session.revoked") {
+      writeEvent(res, event.type, event, event.id);
+      return;
+    }
+
+    // Logout ends this session's streams, logout-all every older one
+    const revoked = event.data.sessionId
+      ? event.data.sessionId === user.sessionId
+      : user.issuedAt !== undefined &&
+        user.issuedAt * 1000 < new Date(event.data.revokedBefore).getTime();
+    if (revoked) {
+      writeEvent(res, event.type, event, event.id);
+      res.end();
+    }
+  };
+  const unsubscribe = realtimeService.subscribe(userId, onEvent);
+
+  res.on("close", () => {
+    closed = true;
+    unsubscribe();
+    clearInterval(heartbeat);
+    clearTimeout(expiry);
+  });
+
+  let snapshot: Record<string, any>;
+  try {
+    snapshot = await realtimeService.getSnapshot(userId);
+  } catch (error: any) {
+    logger.error("Event stream snapshot error", { error });
+    unsubscribe();
+    return res.status(502).json({
+      error: "Bad Gateway",
+      message: error.message,
+    });
+  }
+  if (closed) return;
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Stop nginx and similar proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+  writeEvent(res, "snapshot", snapshot);
+
+  const pending = queued;
+  queued = null;
+  pending.forEach(onEvent);
+
+  // Comment lines keep idle connections from being cut by proxies
+  heartbeat = setInterval(
+    () => res.write(": heartbeat\n\n"),
+    config.realtime.heartbeatMs
+  );
+
+  // The token was only checked on connect, so end the stream when it expires
+  const expiresAt = user.expiresAt;
+  if (expiresAt) {
+    expiry = setTimeout(() => {
+      writeEvent(res, "session.expired", {
+        expiresAt: new Date(expiresAt * 1000).toISOString(),
+      });
+      res.end();
+    }, Math.max(expiresAt * 1000 - Date.now(), 0));
+  }
+});
+
+export default router;
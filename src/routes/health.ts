@@ -0,0 +1,53 @@
+import { Router, Request, Response } from "express";
+import { healthService } from "../services/health";
+import { rpcService } from "../services/rpc";
+import { logger } from "../services/logger";
+
+const router = Router();
+
+/**
+ * GET /health
+ * Server status with the health of each RPC endpoint
+ * "degraded" when a chain has no healthy RPC endpoint; per-endpoint health
+ * comes from the background checks
+ */
+router.get("/", (req: Request, res: Response) => {
+  const providers = rpcService.getHealth();
+  res.status(200).json({
+    status: providers.every((chain) => chain.healthyEndpoints > 0) ? "ok" : "degraded",
+    timestamp: new Date().toISOString(),
+    providers,
+  });
+});
+
+/**
+ * GET /health/live
+ * Liveness: the process is up and serving requests
+ * Checks no dependencies, so an outage elsewhere doesn't get it restarted
+ */
+router.get("/live", (req: Request, res: Response) => {
+  res.status(200).json({ status: "ok", timestamp: new Date().toISOString() });
+});
+
+/**
+ * GET /health/ready
+ * Readiness: probes Supabase Auth, the user_wallets table, Para and the
+ * primary chain's RPC; the report is reused for HEALTH_CACHE_TTL_MS
+ *
+ * Response: 200 when every check passes, 503 otherwise;
+ *           { status, timestamp, checks: { supabase, database, para, rpc } }
+ */
+router.get("/ready", async (req: Request, res: Response) => {
+  try {
+    const report = await healthService.getReadiness();
+    return res.status(report.status === "ready" ? 200 : 503).json(report);
+  } catch (error: any) {
+    logger.error("Readiness check error", { error });
+    return res.status(503).json({
+      error: "Service Unavailable",
+      message: error.message,
+    });
+  }
+});
+
+export default router;
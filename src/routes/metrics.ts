@@ -0,0 +1,60 @@
+import { Router, Request, Response } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+import { config } from "../config";
+import { databaseService } from "../services/database";
+import { metricsService } from "../services/metrics";
+import { paraService } from "../services/para";
+import { logger } from "../services/logger";
+
+const router = Router();
+
+metricsService.registerGauge(
+  "transactions_pending",
+  "Transactions broadcast and not yet settled",
+  () => databaseService.countPendingTransactions()
+);
+metricsService.registerGauge(
+  "wallets_creating",
+  "Wallets Para is still creating",
+  () => databaseService.countCreatingWallets()
+);
+metricsService.registerGauge(
+  "para_circuit_open",
+  "1 while calls to Para are failing fast (circuit open or half open)",
+  () => (paraService.getCircuitState() === "closed" ? 0 : 1)
+);
+
+/**
+ * GET /metrics
+ * Prometheus metrics in the text exposition format
+ * With METRICS_TOKEN set, scrapers must send it as a bearer token
+ */
+router.get("/", async (req: Request, res: Response) => {
+  if (config.metrics.token) {
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    const provided = req.header("Authorization")?.replace(/^Bearer\s+/i, "") || "";
+    if (!timingSafeEqual(digest(provided), digest(config.metrics.token))) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "Missing or invalid metrics token",
+      });
+    }
+  }
+
+  try {
+    const body = await metricsService.render();
+
+    return res
+      .status(200)
+      .set("Content-Type", "text/plain; version=0.0.4; charset=utf-8")
+      .send(body);
+  } catch (error: any) {
+    logger.error("Metrics render error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+export default router;
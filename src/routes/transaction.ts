@@ -1,32 +1,270 @@
-import { Router, Request, Response } from "express";
-import { authMiddleware } from "../middleware/auth";
+import { Router, Request, Response, NextFunction } from "express";
+import { authMiddleware, rateLimitMiddleware } from "../middleware/auth";
+import { holdIdempotencyKey, idempotencyMiddleware } from "../middleware/idempotency";
+import { sendParaError } from "../middleware/paraErrors";
 import { databaseService } from "../services/database";
-import { paraService } from "../services/para";
-import { blockchainService } from "../services/blockchain";
-import { SendTransactionRequest } from "../types";
-import { getAddress, keccak256, toUtf8Bytes } from "ethers";
+import { ParaError, paraService } from "../services/para";
+import { BroadcastError, blockchainService } from "../services/blockchain";
+import { nonceManager } from "../services/nonce";
+import { policyService } from "../services/policy";
+import { stepUpService } from "../services/stepUp";
+import { webhookService } from "../services/webhooks";
+import { config } from "../config";
+import {
+  BroadcastOutcome,
+  SendTransactionRequest,
+  ReplaceTransactionRequest,
+  TransactionRecord,
+  TransactionHistoryRecord,
+  TransactionStatus,
+} from "../types";
+import { TransactionLike, getAddress, keccak256, parseEther, parseUnits } from "ethers";
+import { auditService } from "../services/audit";
+import { metricsService } from "../services/metrics";
+import { logger } from "../services/logger";
 
 const router = Router();
 
+const TRANSACTION_STATUSES: TransactionStatus[] = [
+  "pending",
+  "success",
+  "failed",
+  "replaced",
+  "dropped",
+];
+
+/**
+ * Validate the body shared by /send and /quote
+ * Returns an error message, or null if the request is well-formed
+ * The amount must be above zero and fit the asset's decimals (18 for native
+ * ETH, the token contract's otherwise).
+ */
+const validateSendRequest = async (request: SendTransactionRequest): Promise<string | null> => {
+  if (!request.to || !request.amount) {
+    return "Missing required fields: 'to' and 'amount'";
+  }
+
+  if (typeof request.amount !== "string" || !/^\d+(\.\d+)?$/.test(request.amount)) {
+    return "'amount' must be a positive decimal string";
+  }
+
+  try {
+    getAddress(request.to);
+  } catch {
+    return "Invalid Ethereum address for 'to' field";
+  }
+
+  if (request.token) {
+    try {
+      getAddress(request.token);
+    } catch {
+      return "Invalid Ethereum address for 'token' field";
+    }
+  }
+
+  const chainId = request.chainId ?? config.ethereum.chainId;
+  try {
+    blockchainService.getChain(chainId);
+  } catch (error: any) {
+    return error.message;
+  }
+
+  const decimals = request.token
+    ? (await blockchainService.getTokenMetadata(getAddress(request.token), chainId)).decimals
+    : 18;
+  const fraction = (request.amount.split(".")[1] ?? "").replace(/0+$/, "");
+  if (fraction.length > decimals) {
+    return `'amount' has more than ${decimals} decimal places`;
+  }
+  if (parseUnits(request.amount, decimals) === BigInt(0)) {
+    return "'amount' must be greater than zero";
+  }
+
+  return null;
+};
+
+/**
+ * Sign a built transaction with Para, broadcast it and record it in the ledger
+ * Call while holding the wallet lock. Throws only if signing fails; once
+ * signed, the request's Idempotency-Key is held and the outcome says how the
+ * broadcast went:
+ *
+ * - "broadcast": recorded as pending
+ * - "unknown" (timeout or network error): recorded as pending under the
+ *   signed hash, keeping its nonce reserved until the tracker settles it
+ * - "rejected": recorded as "failed", which frees its nonce
+ *
+ * Ledger writes after the broadcast are logged, not thrown: the transaction
+ * is out either way and the caller must still get its hash.
+ */
+const signAndBroadcast = async (
+  res: Response,
+  paraWalletId: string,
+  transaction: TransactionLike,
+  dataHash: string,
+  ledgerEntry: Omit<
+    TransactionRecord,
+    "id" | "tx_hash" | "status" | "created_at" | "updated_at"
+  >
+): Promise<{ txHash: string; outcome: BroadcastOutcome; error?: string }> => {
+  // Sign with Para
+  const signRequest = {
+    walletId: paraWalletId,
+    dataHash,
+    kind: ledgerEntry.kind,
+    nonce: ledgerEntry.nonce,
+    chainId: ledgerEntry.chain_id,
+  };
+  let signResponse;
+  try {
+    signResponse = await paraService.signRaw(paraWalletId, dataHash);
+  } catch (signError: any) {
+    await auditService.record("wallet.sign", "failure", {
+      ...signRequest,
+      error: signError.message,
+    });
+    throw signError;
+  }
+  await auditService.record("wallet.sign", "success", signRequest);
+
+  // A retry with the same key must not sign a second transaction
+  holdIdempotencyKey(res);
+
+  // Serialize signed transaction
+  const signedTx = blockchainService.serializeWithSignature(
+    transaction,
+    signResponse.signature
+  );
+  const txHash = keccak256(signedTx);
+
+  // Broadcast to the chain
+  try {
+    await blockchainService.broadcastTransaction(signedTx, ledgerEntry.chain_id);
+  } catch (broadcastError: any) {
+    if (!(broadcastError instanceof BroadcastError) || broadcastError.outcome === "rejected") {
+      metricsService.recordTransactionFailed(ledgerEntry.chain_id, "rejected");
+
+      // Keep a record of the rejected send so it shows up in history
+      await databaseService
+        .saveTransaction({
+          ...ledgerEntry,
+          tx_hash: txHash,
+          status: "failed",
+          error: broadcastError.message,
+        })
+        .then((record) => webhookService.emitTransaction("transaction.failed", record))
+        .catch((dbError) =>
+          logger.error("Failed to record rejected transaction", { error: dbError })
+        );
+      return { txHash, outcome: "rejected", error: broadcastError.message };
+    }
+
+    // A node may have it; the tracker settles it once it is mined or dropped
+    logger.warn("Broadcast outcome unknown", { txHash, error: broadcastError });
+    await databaseService
+      .saveTransaction({
+        ...ledgerEntry,
+        tx_hash: txHash,
+        status: "pending",
+        error: broadcastError.message,
+      })
+      .catch((dbError) =>
+        logger.error("Failed to record transaction", { txHash, ledgerEntry, error: dbError })
+      );
+    return { txHash, outcome: "unknown", error: broadcastError.message };
+  }
+
+  metricsService.recordTransactionSent(ledgerEntry.chain_id, ledgerEntry.kind);
+
+  // Record in ledger, then announce in the background; the sender already has
+  // the hash
+  await databaseService
+    .saveTransaction({
+      ...ledgerEntry,
+      tx_hash: txHash,
+      status: "pending",
+    })
+    .then((record) => {
+      webhookService.emitTransaction("transaction.broadcast", record);
+    })
+    .catch((dbError) =>
+      logger.error("Failed to record transaction", { txHash, ledgerEntry, error: dbError })
+    );
+
+  return { txHash, outcome: "broadcast" };
+};
+
+/**
+ * Shape a stored transaction row for API responses
+ * History rows may also be deposits (kind "deposit", direction "in")
+ */
+const toTransactionView = (record: TransactionRecord | TransactionHistoryRecord) => ({
+  transactionHash: record.tx_hash,
+  kind: record.kind,
+  direction: "direction" in record ? record.direction : "out",
+  status: record.status,
+  replacesTransactionHash: record.replaces_tx_hash ?? null,
+  replacedByTransactionHash: record.replaced_by_tx_hash ?? null,
+  from: record.from_address,
+  to: record.to_address,
+  token: record.token_address ?? null,
+  value: record.value,
+  nonce: record.nonce,
+  gasLimit: record.gas_limit,
+  maxFeePerGas: record.max_fee_per_gas,
+  maxPriorityFeePerGas: record.max_priority_fee_per_gas,
+  chainId: record.chain_id,
+  blockNumber: record.block_number ?? null,
+  confirmations: record.confirmations,
+  gasUsed: record.gas_used ?? null,
+  error: record.error ?? null,
+  createdAt: record.created_at,
+  updatedAt: record.updated_at,
+  confirmedAt: record.confirmed_at ?? null,
+});
+
 // Apply auth middleware to all routes
 router.use(authMiddleware);
 
+const sendRateLimit = rateLimitMiddleware(config.rateLimits.send);
+const stepUpRateLimit = rateLimitMiddleware(config.rateLimits.stepUp);
+
+/**
+ * Count a TOTP code sent with a request against the step-up budget, shared
+ * with /auth/step-up, so codes can't be guessed at the send rate
+ */
+const totpCodeRateLimit = (req: Request, res: Response, next: NextFunction) => {
+  if (req.header("X-TOTP-Code") === undefined) {
+    return next();
+  }
+  return stepUpRateLimit(req, res, next);
+};
+
 /**
  * POST /transaction/send
  * Send cryptocurrency from user's wallet
  * 
  * Flow:
  * 1. Get wallet address from database
- * 2. Build unsigned transaction (get nonce, fees)
- * 3. Hash transaction data
+ * 2. Build unsigned transaction (allocate nonce under a per-wallet lock, get fees)
+ * 3. Hash transaction data and check spending limits
  * 4. Call Para to sign the hash
  * 5. Serialize signed transaction
- * 6. Broadcast to Sepolia
+ * 6. Broadcast to the requested chain (Sepolia by default)
+ * 7. Record the transaction in the ledger
  * 
- * Request: { to: string, amount: string, gasLimit?: string, maxFeePerGas?: string, maxPriorityFeePerGas?: string }
- * Response: { transactionHash: string, status: string, from: string, to: string, value: string }
+ * Users with TOTP enabled must also step up for sends above their threshold,
+ * token sends and sends to new addresses; otherwise the send is refused with
+ * 401 before anything is signed.
+ *
+ * Headers: Idempotency-Key? (retries with the same key and body replay the first response)
+ *          X-TOTP-Code? or X-Step-Up-Token? (step-up)
+ * Request: { to: string, amount: string, token?: string, chainId?: number, gasLimit?: string, maxFeePerGas?: string, maxPriorityFeePerGas?: string }
+ * Response: { transactionHash: string, status: string, chainId: number, explorerUrl: string, from: string, to: string, token: string | null, value: string }
+ *           201 once broadcast, 202 if the broadcast's outcome is unknown,
+ *           502 with the transactionHash if the node rejected it
  */
-router.post("/send", async (req: Request, res: Response) => {
+router.post("/send", sendRateLimit, totpCodeRateLimit, idempotencyMiddleware, async (req: Request, res: Response) => {
   try {
     const userId = req.user?.userId;
     if (!userId) {
@@ -39,20 +277,56 @@ router.post("/send", async (req: Request, res: Response) => {
     const sendRequest = req.body as SendTransactionRequest;
 
     // Validate request
-    if (!sendRequest.to || !sendRequest.amount) {
+    const validationError = await validateSendRequest(sendRequest);
+    if (validationError) {
       return res.status(400).json({
         error: "Bad Request",
-        message: "Missing required fields: 'to' and 'amount'",
+        message: validationError,
       });
     }
 
-    // Validate addresses
-    try {
-      getAddress(sendRequest.to);
-    } catch {
-      return res.status(400).json({
-        error: "Bad Request",
-        message: "Invalid Ethereum address for 'to' field",
+    const chainId = sendRequest.chainId ?? config.ethereum.chainId;
+    const chain = blockchainService.getChain(chainId);
+
+    const recipientViolation = await policyService.checkRecipient(userId, sendRequest.to);
+    if (recipientViolation) {
+      await auditService.record("transaction.send", "denied", {
+        reason: recipientViolation,
+        to: sendRequest.to,
+        amount: sendRequest.amount,
+      });
+      return res.status(403).json({
+        error: "Recipient Not Allowed",
+        message: recipientViolation,
+      });
+    }
+
+    // Step-up: a stolen access token alone can't move large amounts or pay new addresses
+    const stepUpChallenge = await stepUpService.checkSend(
+      req.user!,
+      {
+        to: sendRequest.to,
+        token: sendRequest.token || null,
+        value: sendRequest.token ? BigInt(0) : parseEther(sendRequest.amount),
+      },
+      {
+        code: req.header("X-TOTP-Code"),
+        token: req.header("X-Step-Up-Token"),
+      }
+    );
+    if (stepUpChallenge) {
+      await auditService.record("transaction.send", "denied", {
+        reason: stepUpChallenge,
+        to: sendRequest.to,
+        amount: sendRequest.amount,
+      });
+      res.setHeader(
+        "WWW-Authenticate",
+        'Bearer error="insufficient_user_authentication", error_description="Step-up required"'
+      );
+      return res.status(401).json({
+        error: "Step-Up Required",
+        message: stepUpChallenge,
       });
     }
 
@@ -74,37 +348,115 @@ router.post("/send", async (req: Request, res: Response) => {
       });
     }
 
-    // Step 3: Build unsigned transaction
-    const { transaction, dataHash } = await blockchainService.buildUnsignedTransaction(
-      paraWallet.address,
-      sendRequest
-    );
+    // Steps 3-7 hold the wallet's signing lock so concurrent sends get distinct
+    // nonces and each limit check sees the sends before it
+    const walletAddress = paraWallet.address;
+    const outcome = await nonceManager.withWalletLock(walletAddress, chainId, async () => {
+      // Step 3: Build unsigned transaction with the next free nonce
+      const nonce = await nonceManager.allocate(walletAddress, chainId);
+      const { transaction, dataHash, transfer } = await blockchainService.buildUnsignedTransaction(
+        walletAddress,
+        { ...sendRequest, chainId },
+        nonce
+      );
 
-    // Step 4: Sign with Para
-    const signResponse = await paraService.signRaw(
-      userWallet.para_wallet_id,
-      dataHash
-    );
+      // Refuse before anything is signed if the send breaks a spending limit
+      const policyViolation = await policyService.checkSend(userId, {
+        chainId,
+        token: transfer.token,
+        value: transfer.value,
+      });
+      if (policyViolation) {
+        return { policyViolation };
+      }
 
-    // Step 5: Serialize signed transaction
-    const signedTx = blockchainService.serializeWithSignature(
-      transaction,
-      signResponse.signature
-    );
+      // Steps 4-7: Sign with Para, serialize, broadcast and record in ledger
+      const broadcast = await signAndBroadcast(
+        res,
+        userWallet.para_wallet_id,
+        transaction,
+        dataHash,
+        {
+          supabase_id: userId,
+          kind: "transfer",
+          from_address: transaction.from,
+          to_address: transfer.to,
+          token_address: transfer.token,
+          value: transfer.value.toString(),
+          nonce: transaction.nonce,
+          gas_limit: transaction.gasLimit.toString(),
+          max_fee_per_gas: transaction.maxFeePerGas.toString(),
+          max_priority_fee_per_gas: transaction.maxPriorityFeePerGas.toString(),
+          chain_id: transaction.chainId,
+          confirmations: 0,
+        }
+      );
+      return { broadcast };
+    });
+
+    if ("policyViolation" in outcome) {
+      await auditService.record("transaction.send", "denied", {
+        reason: outcome.policyViolation,
+        to: sendRequest.to,
+        amount: sendRequest.amount,
+      });
+      return res.status(403).json({
+        error: "Spending Limit Exceeded",
+        message: outcome.policyViolation,
+      });
+    }
 
-    // Step 6: Broadcast to Sepolia
-    const txHash = await blockchainService.broadcastTransaction(signedTx);
+    const { txHash, outcome: broadcastOutcome, error: broadcastError } = outcome.broadcast;
+    if (broadcastOutcome === "rejected") {
+      await auditService.record("transaction.send", "failure", {
+        transactionHash: txHash,
+        to: sendRequest.to,
+        amount: sendRequest.amount,
+        error: broadcastError,
+      });
+      return res.status(502).json({
+        error: "Broadcast Failed",
+        message: broadcastError,
+        transactionHash: txHash,
+        status: "failed",
+        chainId,
+      });
+    }
 
-    return res.status(201).json({
+    await auditService.record("transaction.send", "success", {
+      transactionHash: txHash,
+      to: sendRequest.to,
+      token: sendRequest.token || null,
+      amount: sendRequest.amount,
+      chainId,
+      broadcast: broadcastOutcome,
+    });
+
+    // 202 when the node didn't confirm it took the transaction
+    return res.status(broadcastOutcome === "broadcast" ? 201 : 202).json({
       transactionHash: txHash,
       status: "pending",
+      chainId,
+      explorerUrl: `${chain.explorerUrl}/tx/${txHash}`,
       from: paraWallet.address,
       to: sendRequest.to,
+      token: sendRequest.token || null,
       value: sendRequest.amount,
-      message: "Transaction broadcasted. Monitor the hash on Sepolia block explorer.",
+      message:
+        broadcastOutcome === "broadcast"
+          ? `Transaction broadcasted. Monitor the hash on ${chain.name} block explorer.`
+          : "Broadcast timed out; the transaction may still be mined. Its status updates once it is mined or dropped.",
     });
   } catch (error: any) {
-    console.error("Transaction send error:", error);
+    logger.error("Transaction send error", { error });
+    await auditService.record("transaction.send", "failure", {
+      to: req.body?.to,
+      amount: req.body?.amount,
+      error: error.message,
+    });
+    if (error instanceof ParaError) {
+      return sendParaError(res, error);
+    }
     return res.status(500).json({
       error: "Transaction Failed",
       message: error.message,
@@ -112,9 +464,378 @@ router.post("/send", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /transaction/quote
+ * Simulate a send without signing it
+ * Runs eth_estimateGas and eth_call for the same transaction /send would build,
+ * and reports the total cost, the balance left afterwards, and any problems
+ *
+ * Request: same as /send
+ * Response: { chainId, from, to, token, value, nonce, gasLimit, estimatedGas, maxFeePerGas,
+ *             maxPriorityFeePerGas, maxGasCost, totalCost, balance, balanceAfter,
+ *             tokenBalance, tokenBalanceAfter, willSucceed, issues: [{ code, message }] }
+ */
+router.post("/quote", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const quoteRequest = req.body as SendTransactionRequest;
+
+    const validationError = await validateSendRequest(quoteRequest);
+    if (validationError) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: validationError,
+      });
+    }
+
+    const userWallet = await databaseService.getUserWallet(userId);
+    if (!userWallet) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "Wallet not found for this user",
+      });
+    }
+
+    const paraWallet = await paraService.getWallet(userWallet.para_wallet_id);
+    if (paraWallet.status !== "ready" || !paraWallet.address) {
+      return res.status(400).json({
+        error: "Wallet Not Ready",
+        message: "Wallet is still being created. Please try again later.",
+      });
+    }
+
+    const quote = await blockchainService.quoteTransaction(
+      paraWallet.address,
+      quoteRequest
+    );
+
+    return res.status(200).json(quote);
+  } catch (error: any) {
+    logger.error("Transaction quote error", { error });
+    if (error instanceof ParaError) {
+      return sendParaError(res, error);
+    }
+    return res.status(500).json({
+      error: "Quote Failed",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /transaction
+ * Paginated transaction history for the authenticated user, newest first
+ * Includes incoming deposits (kind "deposit", direction "in")
+ *
+ * Query: status?, chainId?, since? (ISO date), until? (ISO date), limit? (1-100, default 20), offset?
+ * Response: { transactions: [...], pagination: { limit, offset, total } }
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const { status, since, until } = req.query as Record<string, string | undefined>;
+    const limit = req.query.limit ? Number(req.query.limit) : 20;
+    const offset = req.query.offset ? Number(req.query.offset) : 0;
+    const chainId = req.query.chainId ? Number(req.query.chainId) : undefined;
+
+    if (chainId !== undefined && !Number.isInteger(chainId)) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'chainId' must be an integer",
+      });
+    }
+
+    if (status && !TRANSACTION_STATUSES.includes(status as TransactionStatus)) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: `Invalid status. Use one of: ${TRANSACTION_STATUSES.join(", ")}`,
+      });
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'limit' must be an integer between 1 and 100",
+      });
+    }
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'offset' must be a non-negative integer",
+      });
+    }
+
+    for (const [name, value] of Object.entries({ since, until })) {
+      if (value && Number.isNaN(Date.parse(value))) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: `'${name}' must be an ISO 8601 date`,
+        });
+      }
+    }
+
+    const { transactions, total } = await databaseService.listTransactions(userId, {
+      status: status as TransactionStatus | undefined,
+      chainId,
+      since: since && new Date(since).toISOString(),
+      until: until && new Date(until).toISOString(),
+      limit,
+      offset,
+    });
+
+    return res.status(200).json({
+      transactions: transactions.map(toTransactionView),
+      pagination: { limit, offset, total },
+    });
+  } catch (error: any) {
+    logger.error("Transaction history error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * Handler for POST /transaction/:txHash/speedup and /cancel
+ * Re-signs the pending transaction's nonce with higher fees through Para.
+ * Speed-up resends the same call; cancel sends 0 ETH to the wallet itself.
+ * Both fees must rise by at least 10% over the transaction being replaced.
+ */
+const replaceTransaction =
+  (mode: "speedup" | "cancel") => async (req: Request, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return res.status(401).json({
+          error: "Unauthorized",
+          message: "User ID not found in token",
+        });
+      }
+
+      const { txHash } = req.params;
+      const { maxFeePerGas, maxPriorityFeePerGas } =
+        req.body as ReplaceTransactionRequest;
+
+      for (const [name, value] of Object.entries({ maxFeePerGas, maxPriorityFeePerGas })) {
+        if (value !== undefined && !/^\d+$/.test(String(value))) {
+          return res.status(400).json({
+            error: "Bad Request",
+            message: `'${name}' must be an integer amount of wei`,
+          });
+        }
+      }
+
+      const original = await databaseService.getTransactionByHash(txHash);
+      if (!original || original.supabase_id !== userId) {
+        return res.status(404).json({
+          error: "Not Found",
+          message: "Transaction not found",
+        });
+      }
+
+      if (original.status !== "pending") {
+        return res.status(409).json({
+          error: "Conflict",
+          message: `Transaction is already ${original.status}`,
+        });
+      }
+
+      if (original.replaced_by_tx_hash) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: `Transaction was already replaced by ${original.replaced_by_tx_hash}. Replace that one instead.`,
+        });
+      }
+
+      // Enforce the minimum bump on fees the client asked for explicitly
+      const minimum = blockchainService.getMinimumReplacementFees(original);
+      if (maxFeePerGas && BigInt(maxFeePerGas) < minimum.maxFeePerGas) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: `'maxFeePerGas' must be at least ${minimum.maxFeePerGas} (10% above the current transaction)`,
+        });
+      }
+      if (
+        maxPriorityFeePerGas &&
+        BigInt(maxPriorityFeePerGas) < minimum.maxPriorityFeePerGas
+      ) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: `'maxPriorityFeePerGas' must be at least ${minimum.maxPriorityFeePerGas} (10% above the current transaction)`,
+        });
+      }
+
+      const userWallet = await databaseService.getUserWallet(userId);
+      if (!userWallet) {
+        return res.status(404).json({
+          error: "Not Found",
+          message: "Wallet not found for this user",
+        });
+      }
+
+      const chain = blockchainService.getChain(original.chain_id);
+      const replacement = await nonceManager.withWalletLock(
+        original.from_address,
+        original.chain_id,
+        async () => {
+          // Too late once the original is mined
+          const receipt = await blockchainService.getTransactionReceipt(
+            original.tx_hash,
+            original.chain_id
+          );
+          if (receipt) {
+            return null;
+          }
+
+          const { transaction, dataHash } =
+            await blockchainService.buildReplacementTransaction(original, mode, {
+              maxFeePerGas: maxFeePerGas ? BigInt(maxFeePerGas) : minimum.maxFeePerGas,
+              maxPriorityFeePerGas: maxPriorityFeePerGas
+                ? BigInt(maxPriorityFeePerGas)
+                : minimum.maxPriorityFeePerGas,
+            });
+
+          const broadcast = await signAndBroadcast(
+            res,
+            userWallet.para_wallet_id,
+            transaction,
+            dataHash,
+            {
+              supabase_id: userId,
+              kind: mode,
+              replaces_tx_hash: original.tx_hash,
+              from_address: original.from_address,
+              to_address: mode === "cancel" ? original.from_address : original.to_address,
+              token_address: mode === "cancel" ? null : original.token_address ?? null,
+              value: mode === "cancel" ? "0" : original.value,
+              nonce: original.nonce,
+              gas_limit: transaction.gasLimit.toString(),
+              max_fee_per_gas: transaction.maxFeePerGas.toString(),
+              max_priority_fee_per_gas: transaction.maxPriorityFeePerGas.toString(),
+              chain_id: original.chain_id,
+              confirmations: 0,
+            }
+          );
+
+          if (broadcast.outcome !== "rejected") {
+            await databaseService
+              .linkReplacement(original.tx_hash, broadcast.txHash)
+              .catch((dbError) =>
+                logger.error("Failed to link replacement transaction", {
+                  txHash: original.tx_hash,
+                  replacementTxHash: broadcast.txHash,
+                  error: dbError,
+                })
+              );
+          }
+          return { broadcast, transaction };
+        }
+      );
+
+      if (!replacement) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: "Transaction has already been mined",
+        });
+      }
+
+      const { broadcast, transaction } = replacement;
+      const hash = broadcast.txHash;
+      if (broadcast.outcome === "rejected") {
+        await auditService.record(`transaction.${mode}`, "failure", {
+          transactionHash: hash,
+          replacesTransactionHash: original.tx_hash,
+          error: broadcast.error,
+        });
+        return res.status(502).json({
+          error: "Broadcast Failed",
+          message: broadcast.error,
+          transactionHash: hash,
+          replacesTransactionHash: original.tx_hash,
+          status: "failed",
+          chainId: original.chain_id,
+        });
+      }
+
+      await auditService.record(`transaction.${mode}`, "success", {
+        transactionHash: hash,
+        replacesTransactionHash: original.tx_hash,
+        maxFeePerGas: transaction.maxFeePerGas.toString(),
+        maxPriorityFeePerGas: transaction.maxPriorityFeePerGas.toString(),
+        broadcast: broadcast.outcome,
+      });
+
+      return res.status(broadcast.outcome === "broadcast" ? 201 : 202).json({
+        transactionHash: hash,
+        replacesTransactionHash: original.tx_hash,
+        kind: mode,
+        status: "pending",
+        chainId: original.chain_id,
+        explorerUrl: `${chain.explorerUrl}/tx/${hash}`,
+        nonce: original.nonce,
+        maxFeePerGas: transaction.maxFeePerGas.toString(),
+        maxPriorityFeePerGas: transaction.maxPriorityFeePerGas.toString(),
+        message:
+          broadcast.outcome === "unknown"
+            ? "Broadcast timed out; the replacement may still be mined. Its status updates once it is mined or dropped."
+            : mode === "cancel"
+              ? "Cancellation broadcasted. The original transaction will be marked replaced once it is mined."
+              : "Replacement broadcasted with higher fees.",
+      });
+    } catch (error: any) {
+      logger.error("Transaction replacement error", { mode, error });
+      await auditService.record(`transaction.${mode}`, "failure", {
+        transactionHash: req.params.txHash,
+        error: error.message,
+      });
+      if (error instanceof ParaError) {
+        return sendParaError(res, error);
+      }
+      return res.status(500).json({
+        error: "Transaction Failed",
+        message: error.message,
+      });
+    }
+  };
+
+/**
+ * POST /transaction/:txHash/speedup
+ * Resend a pending transaction with higher fees
+ *
+ * Request: { maxFeePerGas?: string, maxPriorityFeePerGas?: string } (wei; default: minimum bump or network fees)
+ * Response: { transactionHash, replacesTransactionHash, kind, status, nonce, maxFeePerGas, maxPriorityFeePerGas }
+ */
+router.post("/:txHash/speedup", idempotencyMiddleware, replaceTransaction("speedup"));
+
+/**
+ * POST /transaction/:txHash/cancel
+ * Replace a pending transaction with a 0-value transfer to the sender
+ *
+ * Request/Response: same as /speedup
+ */
+router.post("/:txHash/cancel", idempotencyMiddleware, replaceTransaction("cancel"));
+
 /**
  * GET /transaction/:txHash
- * Check transaction status on Sepolia
+ * Check transaction status
+ * Transactions the confirmation tracker has settled are served from the ledger;
+ * anything else is looked up on chain (?chainId=, defaults to the ledger's chain or Sepolia)
  *
  * Response: { status, blockNumber, from, to, value, gas }
  */
@@ -130,9 +851,18 @@ router.get("/:txHash", async (req: Request, res: Response) => {
       });
     }
 
+    // Serve a final status recorded by the tracker
+    const record = await databaseService.getTransactionByHash(txHash);
+    if (record && record.supabase_id === req.user?.userId && record.status !== "pending") {
+      return res.status(200).json(toTransactionView(record));
+    }
+
     // Query blockchain for transaction
     try {
-      const receipt = await blockchainService.waitForTransaction(txHash, 0);
+      const chainId = req.query.chainId
+        ? Number(req.query.chainId)
+        : record?.chain_id ?? config.ethereum.chainId;
+      const receipt = await blockchainService.waitForTransaction(txHash, 0, chainId);
 
       if (!receipt) {
         return res.status(404).json({
@@ -159,7 +889,7 @@ router.get("/:txHash", async (req: Request, res: Response) => {
       });
     }
   } catch (error: any) {
-    console.error("Transaction status error:", error);
+    logger.error("Transaction status error", { error });
     return res.status(500).json({
       error: "Internal Server Error",
       message: error.message,
@@ -1,20 +1,109 @@
 import { Router, Request, Response } from "express";
 import { authMiddleware } from "../middleware/auth";
+import { sendParaError } from "../middleware/paraErrors";
 import { databaseService } from "../services/database";
-import { paraService } from "../services/para";
+import { ParaError, paraService } from "../services/para";
 import { blockchainService } from "../services/blockchain";
+import { policyService } from "../services/policy";
+import { provisioningService } from "../services/provisioning";
+import { formatEther, formatUnits, getAddress } from "ethers";
+import { config } from "../config";
+import {
+  AddressBookEntry,
+  ChainBalance,
+  ChainConfig,
+  ParaWallet,
+  UserWallet,
+} from "../types";
+import { auditService } from "../services/audit";
+import { logger } from "../services/logger";
 
 const router = Router();
 
 // Apply auth middleware to all routes
 router.use(authMiddleware);
 
+const MAX_LABEL_LENGTH = 100;
+// Ids that can't be rows are not found, rather than a Postgres cast error
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Shape an address book row for API responses
+ */
+const toAddressView = (entry: AddressBookEntry) => ({
+  id: entry.id,
+  label: entry.label,
+  address: entry.address,
+  usable: new Date(entry.usable_at).getTime() <= Date.now(),
+  usableAt: entry.usable_at,
+  createdAt: entry.created_at,
+});
+
+/**
+ * Store the address of a wallet seen ready for the first time (emits wallet.ready)
+ * Runs in the background so the view isn't held up
+ */
+const recordIfReady = (userWallet: UserWallet, paraWallet: ParaWallet): void => {
+  if (paraWallet.status !== "ready" || !paraWallet.address || userWallet.wallet_address) {
+    return;
+  }
+
+  provisioningService
+    .recordWalletReady(userWallet.supabase_id, paraWallet.address)
+    .catch((error) => logger.error("Failed to record ready wallet", { error }));
+};
+
+/**
+ * Fetch native and token balances of an address on one chain
+ * A failing RPC or token contract is reported instead of failing the whole view
+ */
+const getChainBalances = async (
+  address: string,
+  chain: ChainConfig
+): Promise<ChainBalance> => {
+  const view: ChainBalance = {
+    chainId: chain.chainId,
+    name: chain.name,
+    nativeSymbol: chain.nativeSymbol,
+    explorerUrl: `${chain.explorerUrl}/address/${address}`,
+    balance: null,
+    tokens: [],
+  };
+
+  try {
+    const balanceWei = await blockchainService.getBalance(address, chain.chainId);
+    const balanceEth = await blockchainService.getBalanceInEth(address, chain.chainId);
+    view.balance = { wei: balanceWei, eth: balanceEth };
+  } catch (error: any) {
+    logger.error("Balance fetch error", { chainId: chain.chainId, error });
+    view.error = error.message;
+    return view;
+  }
+
+  const tokenResults = await Promise.allSettled(
+    chain.tokens.map((token) =>
+      blockchainService.getTokenBalance(token, address, chain.chainId)
+    )
+  );
+  view.tokens = tokenResults.flatMap((result) => {
+    if (result.status === "rejected") {
+      logger.error("Token balance fetch error", { error: result.reason });
+      return [];
+    }
+    return [result.value];
+  });
+
+  return view;
+};
+
 /**
  * GET /wallet
  * Retrieve wallet details for authenticated user
- * Includes address, status, and current ETH balance
+ * Includes address, status, and native and token balances on every configured chain.
+ * The Para EVM wallet has the same address on each chain.
  *
- * Response: { id, type, status, address, balanceWei, balanceEth, createdAt }
+ * Query: chainId? (limit balances to one chain; defaults to all, with Sepolia on top)
+ * Response: { id, type, status, address, balance, tokens, chains, createdAt }
  */
 router.get("/", async (req: Request, res: Response) => {
   try {
@@ -26,35 +115,50 @@ router.get("/", async (req: Request, res: Response) => {
       });
     }
 
+    let chains = config.chains;
+    if (req.query.chainId) {
+      try {
+        chains = [blockchainService.getChain(Number(req.query.chainId))];
+      } catch (chainError: any) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: chainError.message,
+        });
+      }
+    }
+
     // Step 1: Get wallet ID from database
     const userWallet = await databaseService.getUserWallet(userId);
     if (!userWallet) {
       return res.status(404).json({
         error: "Not Found",
-        message: "Wallet not found for this user",
+        message: "Wallet not found for this user. Call POST /api/wallet/provision to create one.",
       });
     }
 
     // Step 2: Fetch wallet details from Para
     const paraWallet = await paraService.getWallet(userWallet.para_wallet_id);
+    recordIfReady(userWallet, paraWallet);
 
-    let balance = null;
-    // Step 3: Fetch balance if wallet is ready
+    let chainBalances: ChainBalance[] = [];
+    // Step 3: Fetch balances on each chain if wallet is ready
     if (paraWallet.status === "ready" && paraWallet.address) {
-      const balanceWei = await blockchainService.getBalance(paraWallet.address);
-      const balanceEth = await blockchainService.getBalanceInEth(
-        paraWallet.address
+      const address = paraWallet.address;
+      chainBalances = await Promise.all(
+        chains.map((chain) => getChainBalances(address, chain))
       );
-      balance = { wei: balanceWei, eth: balanceEth };
     }
 
+    // Top-level balance and tokens describe the first (requested or primary) chain
     return res.status(200).json({
       id: paraWallet.id,
       type: paraWallet.type,
       status: paraWallet.status,
       address: paraWallet.address || null,
       publicKey: paraWallet.publicKey || null,
-      balance,
+      balance: chainBalances[0]?.balance ?? null,
+      tokens: chainBalances[0]?.tokens ?? [],
+      chains: chainBalances,
       createdAt: paraWallet.createdAt,
       message:
         paraWallet.status === "creating"
@@ -62,7 +166,10 @@ router.get("/", async (req: Request, res: Response) => {
           : "Wallet is ready for transactions!",
     });
   } catch (error: any) {
-    console.error("Wallet fetch error:", error);
+    logger.error("Wallet fetch error", { error });
+    if (error instanceof ParaError) {
+      return sendParaError(res, error);
+    }
     return res.status(500).json({
       error: "Internal Server Error",
       message: error.message,
@@ -90,18 +197,457 @@ router.get("/status", async (req: Request, res: Response) => {
     if (!userWallet) {
       return res.status(404).json({
         error: "Not Found",
-        message: "Wallet not found for this user",
+        message: "Wallet not found for this user. Call POST /api/wallet/provision to create one.",
       });
     }
 
     const paraWallet = await paraService.getWallet(userWallet.para_wallet_id);
+    recordIfReady(userWallet, paraWallet);
 
     return res.status(200).json({
       status: paraWallet.status,
       address: paraWallet.address || null,
     });
   } catch (error: any) {
-    console.error("Status check error:", error);
+    logger.error("Status check error", { error });
+    if (error instanceof ParaError) {
+      return sendParaError(res, error);
+    }
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /wallet/provision
+ * Create the wallet of a user who has none, e.g. when signup could not finish
+ * Safe to repeat; a wallet Para created on an earlier attempt is reused
+ *
+ * Response: { id, status, address }
+ */
+router.post("/provision", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const userWallet = await databaseService.getUserWallet(userId);
+    if (userWallet) {
+      return res.status(409).json({
+        error: "Conflict",
+        message: "Wallet already provisioned for this user",
+      });
+    }
+
+    let paraWallet;
+    try {
+      paraWallet = await provisioningService.provisionWallet(userId);
+    } catch (provisioningError: any) {
+      logger.error("Wallet provisioning failed", { error: provisioningError });
+      await auditService.record("wallet.provision", "failure", {
+        error: provisioningError.message,
+      });
+      if (provisioningError instanceof ParaError) {
+        return sendParaError(res, provisioningError);
+      }
+      return res.status(500).json({
+        error: "Wallet Creation Failed",
+        message: provisioningError.message,
+      });
+    }
+
+    await auditService.record("wallet.provision", "success", { walletId: paraWallet.id });
+
+    return res.status(201).json({
+      id: paraWallet.id,
+      status: paraWallet.status,
+      address: paraWallet.address || null,
+      message:
+        paraWallet.status === "creating"
+          ? "Wallet is being created. Poll the /wallet endpoint to check status."
+          : "Wallet is ready!",
+    });
+  } catch (error: any) {
+    logger.error("Wallet provision error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /wallet/limits
+ * Spending limits for the authenticated user and how much allowance remains
+ * Amounts cover one chain's native asset, or one ERC-20 token, over rolling
+ * 24-hour and 7-day windows
+ *
+ * Query: chainId? (defaults to Sepolia), token? (ERC-20 contract address)
+ * Response: { chainId, token, limits, usage, remaining } with amounts as
+ *           { wei, eth }, or { units, amount } for a token
+ */
+router.get("/limits", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    let chain: ChainConfig;
+    let token: string | null = null;
+    try {
+      chain = blockchainService.getChain(
+        req.query.chainId ? Number(req.query.chainId) : config.ethereum.chainId
+      );
+      if (req.query.token) {
+        token = getAddress(String(req.query.token));
+      }
+    } catch (queryError: any) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: queryError.message,
+      });
+    }
+
+    const allowance = await policyService.getAllowance(userId, { chainId: chain.chainId, token });
+    if (!allowance) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "No spending limit is configured for this token, so it can't be sent",
+      });
+    }
+
+    const { limits, usage, remaining } = allowance;
+    let amount = (wei: bigint): object => ({ wei: wei.toString(), eth: formatEther(wei) });
+    if (token) {
+      const { decimals } = await blockchainService.getTokenMetadata(token, chain.chainId);
+      amount = (units: bigint) => ({
+        units: units.toString(),
+        amount: formatUnits(units, decimals),
+      });
+    }
+
+    return res.status(200).json({
+      chainId: chain.chainId,
+      token,
+      limits: {
+        maxPerTransaction: amount(limits.maxPerTransaction),
+        daily: amount(limits.dailyLimit),
+        weekly: amount(limits.weeklyLimit),
+        dailyTxCount: limits.dailyTxCount,
+      },
+      usage: {
+        daily: amount(usage.daily),
+        weekly: amount(usage.weekly),
+        dailyTxCount: usage.dailyTxCount,
+      },
+      remaining: {
+        perTransaction: amount(remaining.perTransaction),
+        daily: amount(remaining.daily),
+        weekly: amount(remaining.weekly),
+        dailyTxCount: remaining.dailyTxCount,
+      },
+    });
+  } catch (error: any) {
+    logger.error("Limits fetch error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /wallet/addresses
+ * List saved recipient addresses
+ *
+ * Response: { addresses: [{ id, label, address, usable, usableAt, createdAt }] }
+ */
+router.get("/addresses", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const addresses = await databaseService.listAddresses(userId);
+
+    return res.status(200).json({ addresses: addresses.map(toAddressView) });
+  } catch (error: any) {
+    logger.error("Address list error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /wallet/addresses
+ * Save a recipient address
+ * The address can be sent to in allowlist-only mode once its cooling-off period ends
+ *
+ * Request: { label: string, address: string }
+ * Response: { id, label, address, usable, usableAt, createdAt }
+ */
+router.post("/addresses", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const { label, address } = req.body as { label?: unknown; address?: unknown };
+
+    if (!label || !address) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "Missing required fields: 'label' and 'address'",
+      });
+    }
+
+    if (typeof label !== "string" || typeof address !== "string") {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'label' and 'address' must be strings",
+      });
+    }
+
+    if (label.length > MAX_LABEL_LENGTH) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: `'label' must be at most ${MAX_LABEL_LENGTH} characters`,
+      });
+    }
+
+    let checksumAddress: string;
+    try {
+      checksumAddress = getAddress(address);
+    } catch {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "Invalid Ethereum address for 'address' field",
+      });
+    }
+
+    const entry = await databaseService.saveAddress({
+      supabase_id: userId,
+      label,
+      address: checksumAddress,
+      usable_at: new Date(Date.now() + config.addressBook.coolingOffMs).toISOString(),
+    });
+
+    if (!entry) {
+      return res.status(409).json({
+        error: "Conflict",
+        message: "This address is already in your address book",
+      });
+    }
+
+    await auditService.record("address_book.add", "success", {
+      addressId: entry.id,
+      address: entry.address,
+      label: entry.label,
+      usableAt: entry.usable_at,
+    });
+
+    return res.status(201).json(toAddressView(entry));
+  } catch (error: any) {
+    logger.error("Address save error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * PATCH /wallet/addresses/:id
+ * Rename a saved address
+ * The address itself can't be changed; delete it and add a new one instead
+ *
+ * Request: { label: string }
+ * Response: { id, label, address, usable, usableAt, createdAt }
+ */
+router.patch("/addresses/:id", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const { label } = req.body as { label?: unknown };
+
+    if (typeof label !== "string" || !label || label.length > MAX_LABEL_LENGTH) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: `'label' is required and must be a string of at most ${MAX_LABEL_LENGTH} characters`,
+      });
+    }
+
+    const entry = UUID_PATTERN.test(req.params.id)
+      ? await databaseService.updateAddressLabel(userId, req.params.id, label)
+      : null;
+    if (!entry) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "Address not found",
+      });
+    }
+
+    return res.status(200).json(toAddressView(entry));
+  } catch (error: any) {
+    logger.error("Address update error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * DELETE /wallet/addresses/:id
+ * Remove a saved address
+ */
+router.delete("/addresses/:id", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const deleted =
+      UUID_PATTERN.test(req.params.id) &&
+      (await databaseService.deleteAddress(userId, req.params.id));
+    if (!deleted) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "Address not found",
+      });
+    }
+
+    await auditService.record("address_book.remove", "success", { addressId: req.params.id });
+
+    return res.status(204).send();
+  } catch (error: any) {
+    logger.error("Address delete error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /wallet/allowlist
+ * Whether sends are restricted to saved addresses
+ *
+ * Response: { enabled, disableScheduledAt }
+ */
+router.get("/allowlist", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const settings = await databaseService.getSecuritySettings(userId);
+    const enabled = policyService.isAllowlistActive(settings);
+
+    return res.status(200).json({
+      enabled,
+      disableScheduledAt: enabled ? settings?.allowlist_disable_at ?? null : null,
+    });
+  } catch (error: any) {
+    logger.error("Allowlist fetch error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * PUT /wallet/allowlist
+ * Turn allowlist-only mode on or off
+ * Turning it on is immediate. Turning it off is scheduled after the cooling-off
+ * period, so a hijacked session can't lift the restriction and drain the wallet.
+ *
+ * Request: { enabled: boolean }
+ * Response: { enabled, disableScheduledAt }
+ */
+router.put("/allowlist", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const { enabled } = req.body as { enabled?: boolean };
+    if (typeof enabled !== "boolean") {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'enabled' must be a boolean",
+      });
+    }
+
+    const current = await databaseService.getSecuritySettings(userId);
+    const active = policyService.isAllowlistActive(current);
+
+    let settings = current;
+    if (enabled) {
+      settings = await databaseService.saveSecuritySettings(userId, {
+        allowlist_only: true,
+        allowlist_disable_at: null,
+      });
+    } else if (active && !current?.allowlist_disable_at) {
+      settings = await databaseService.saveSecuritySettings(userId, {
+        allowlist_disable_at: new Date(
+          Date.now() + config.addressBook.coolingOffMs
+        ).toISOString(),
+      });
+    }
+
+    const nowActive = policyService.isAllowlistActive(settings);
+    await auditService.record("allowlist.update", "success", {
+      requested: enabled,
+      enabled: nowActive,
+      disableScheduledAt: nowActive ? settings?.allowlist_disable_at ?? null : null,
+    });
+
+    return res.status(200).json({
+      enabled: nowActive,
+      disableScheduledAt: nowActive ? settings?.allowlist_disable_at ?? null : null,
+    });
+  } catch (error: any) {
+    logger.error("Allowlist update error", { error });
     return res.status(500).json({
       error: "Internal Server Error",
       message: error.message,
@@ -0,0 +1,341 @@
+import { Router, Request, Response } from "express";
+import { authMiddleware } from "../middleware/auth";
+import { databaseService } from "../services/database";
+import { webhookService } from "../services/webhooks";
+import { config } from "../config";
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventType,
+} from "../types";
+import { auditService } from "../services/audit";
+import { logger } from "../services/logger";
+
+const router = Router();
+
+// Apply auth middleware to all routes
+router.use(authMiddleware);
+
+const MAX_ENDPOINTS_PER_USER = 10;
+// Ids that can't be rows are not found, rather than a Postgres cast error
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  "wallet.ready",
+  "transaction.broadcast",
+  "transaction.confirmed",
+  "transaction.failed",
+  "transaction.replaced",
+  "transaction.dropped",
+  "deposit.received",
+];
+
+/**
+ * Validate an endpoint URL
+ * Its host must resolve to public addresses only.
+ * Returns an error message, or null if the URL is acceptable
+ */
+const validateEndpointUrl = async (url: unknown): Promise<string | null> => {
+  if (typeof url !== "string") {
+    return "'url' is required";
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "'url' must be an absolute URL";
+  }
+
+  // Plain HTTP is only allowed outside production, e.g. for local receivers
+  const allowHttp = config.nodeEnv !== "production";
+  if (parsed.protocol !== "https:" && !(allowHttp && parsed.protocol === "http:")) {
+    return "'url' must use https";
+  }
+
+  return webhookService.checkEndpointAddress(url);
+};
+
+/**
+ * Shape a webhook endpoint for API responses; the secret is only shown on creation
+ */
+const toEndpointView = (endpoint: WebhookEndpoint) => ({
+  id: endpoint.id,
+  url: endpoint.url,
+  events: endpoint.events,
+  active: endpoint.active,
+  createdAt: endpoint.created_at,
+});
+
+/**
+ * Shape a webhook delivery and its attempt log for API responses
+ */
+const toDeliveryView = (delivery: WebhookDelivery, attempts: WebhookAttempt[]) => ({
+  id: delivery.id,
+  eventId: delivery.event_id,
+  eventType: delivery.event_type,
+  status: delivery.status,
+  attempts: attempts.map((attempt) => ({
+    attempt: attempt.attempt,
+    statusCode: attempt.status_code ?? null,
+    error: attempt.error ?? null,
+    durationMs: attempt.duration_ms,
+    createdAt: attempt.created_at,
+  })),
+  nextAttemptAt: delivery.status === "pending" ? delivery.next_attempt_at : null,
+  replayOf: delivery.replay_of ?? null,
+  payload: delivery.payload,
+  createdAt: delivery.created_at,
+  deliveredAt: delivery.delivered_at ?? null,
+});
+
+/**
+ * GET /webhooks
+ * List the user's webhook endpoints
+ *
+ * Response: { endpoints: [{ id, url, events, active, createdAt }] }
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const endpoints = await databaseService.listWebhookEndpoints(userId);
+
+    return res.status(200).json({ endpoints: endpoints.map(toEndpointView) });
+  } catch (error: any) {
+    logger.error("Webhook list error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /webhooks
+ * Register a webhook endpoint
+ * The signing secret is returned only in this response; store it to verify
+ * X-Webhook-Signature on deliveries
+ *
+ * Request: { url: string, events?: string[] (default: every event) }
+ * Response: { id, url, events, active, createdAt, secret }
+ */
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const { url, events = [] } = req.body;
+
+    const urlError = await validateEndpointUrl(url);
+    if (urlError) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: urlError,
+      });
+    }
+
+    if (
+      !Array.isArray(events) ||
+      events.some((event) => !WEBHOOK_EVENT_TYPES.includes(event))
+    ) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: `'events' must be a list of: ${WEBHOOK_EVENT_TYPES.join(", ")}`,
+      });
+    }
+
+    const existing = await databaseService.listWebhookEndpoints(userId);
+    if (existing.length >= MAX_ENDPOINTS_PER_USER) {
+      return res.status(409).json({
+        error: "Conflict",
+        message: `At most ${MAX_ENDPOINTS_PER_USER} webhook endpoints can be registered`,
+      });
+    }
+
+    const endpoint = await databaseService.saveWebhookEndpoint({
+      supabase_id: userId,
+      url,
+      secret: webhookService.generateSecret(),
+      events: [...new Set<WebhookEventType>(events)],
+    });
+
+    await auditService.record("webhook.create", "success", {
+      endpointId: endpoint.id,
+      url: endpoint.url,
+      events: endpoint.events,
+    });
+
+    return res.status(201).json({
+      ...toEndpointView(endpoint),
+      secret: endpoint.secret,
+    });
+  } catch (error: any) {
+    logger.error("Webhook create error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * DELETE /webhooks/:id
+ * Remove a webhook endpoint; its pending deliveries are dropped
+ *
+ * Response: 204 No Content
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const deleted =
+      UUID_PATTERN.test(req.params.id) &&
+      (await databaseService.deleteWebhookEndpoint(userId, req.params.id));
+    if (!deleted) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "Webhook endpoint not found",
+      });
+    }
+
+    await auditService.record("webhook.delete", "success", { endpointId: req.params.id });
+
+    return res.status(204).send();
+  } catch (error: any) {
+    logger.error("Webhook delete error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /webhooks/:id/deliveries
+ * Delivery log of an endpoint, newest first, with every attempt
+ *
+ * Query: limit? (1-100, default 20), offset?
+ * Response: { deliveries: [...], pagination: { limit, offset, total } }
+ */
+router.get("/:id/deliveries", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const limit = req.query.limit ? Number(req.query.limit) : 20;
+    const offset = req.query.offset ? Number(req.query.offset) : 0;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'limit' must be an integer between 1 and 100",
+      });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({
+        error: "Bad Request",
+        message: "'offset' must be a non-negative integer",
+      });
+    }
+
+    const endpoint = UUID_PATTERN.test(req.params.id)
+      ? await databaseService.getWebhookEndpoint(userId, req.params.id)
+      : null;
+    if (!endpoint) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "Webhook endpoint not found",
+      });
+    }
+
+    const { deliveries, total } = await databaseService.listWebhookDeliveries(
+      endpoint.id,
+      limit,
+      offset
+    );
+    const attempts = await databaseService.listWebhookAttempts(
+      deliveries.map((delivery) => delivery.id)
+    );
+
+    return res.status(200).json({
+      deliveries: deliveries.map((delivery) =>
+        toDeliveryView(
+          delivery,
+          attempts.filter((attempt) => attempt.delivery_id === delivery.id)
+        )
+      ),
+      pagination: { limit, offset, total },
+    });
+  } catch (error: any) {
+    logger.error("Webhook delivery list error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /webhooks/deliveries/:deliveryId/replay
+ * Send a past delivery's event again, e.g. after fixing a receiver
+ * The replay is a new delivery with its own retries; the event keeps its ID
+ *
+ * Response: (202) { id, eventId, eventType, status, ... }
+ */
+router.post("/deliveries/:deliveryId/replay", async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: "Unauthorized",
+        message: "User ID not found in token",
+      });
+    }
+
+    const delivery = UUID_PATTERN.test(req.params.deliveryId)
+      ? await databaseService.getWebhookDelivery(userId, req.params.deliveryId)
+      : null;
+    if (!delivery) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "Webhook delivery not found",
+      });
+    }
+
+    const replay = await webhookService.replay(delivery);
+
+    return res.status(202).json(toDeliveryView(replay, []));
+  } catch (error: any) {
+    logger.error("Webhook replay error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: error.message,
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,36 @@
+import { AuditAction, AuditOutcome } from "../types";
+import { databaseService } from "./database";
+import { logger, requestContext } from "./logger";
+
+export const auditService = {
+  /**
+   * Append a security-relevant action to the audit log
+   * Request ID, client IP and user agent come from the request being served;
+   * the user defaults to the authenticated one.
+   * Never throws: a failed write is logged, and the action goes ahead.
+   */
+  async record(
+    action: AuditAction,
+    outcome: AuditOutcome,
+    details: Record<string, any> = {},
+    supabaseId?: string | null
+  ): Promise<void> {
+    const context = requestContext.get();
+    const userId = supabaseId ?? context?.userId ?? null;
+
+    try {
+      await databaseService.saveAuditEntry({
+        supabase_id: userId,
+        action,
+        outcome,
+        request_id: context?.requestId ?? null,
+        ip: context?.ip ?? null,
+        user_agent: context?.userAgent ?? null,
+        details,
+      });
+    } catch (error: any) {
+      // Still leave a trace of the action in the logs
+      logger.error("Failed to write audit entry", { action, outcome, userId, details, error });
+    }
+  },
+};
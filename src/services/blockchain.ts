@@ -1,24 +1,129 @@
 import {
-  JsonRpcProvider,
+  Block,
+  Contract,
+  Interface,
   Transaction,
+  TransactionLike,
+  TransactionReceipt,
+  TransactionResponse,
   parseEther,
-  serializeTransaction,
+  parseUnits,
+  formatUnits,
   getAddress,
-  toBeHex,
+  dataSlice,
+  zeroPadValue,
 } from "ethers";
 import { config } from "../config";
-import { SendTransactionRequest, SendTransactionResponse } from "../types";
+import {
+  BroadcastOutcome,
+  ChainConfig,
+  IncomingTransfer,
+  QuoteIssue,
+  SendTransactionRequest,
+  TokenBalance,
+  TransactionQuote,
+  TransactionRecord,
+} from "../types";
+import { EndpointPool, isTransientError, rpcService } from "./rpc";
+
+const erc20Interface = new Interface([
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+const TRANSFER_TOPIC = erc20Interface.getEvent("Transfer")!.topicHash;
+
+// Recipients per eth_getLogs call; nodes cap the size of topic filters
+const LOG_FILTER_ADDRESS_BATCH = 100;
+
+// Token metadata never changes, so cache it per chain and contract
+const tokenMetadataCache = new Map<string, { symbol: string; decimals: number }>();
+
+// Headroom added to estimated gas for contract calls (20%)
+const GAS_ESTIMATE_BUFFER_PERCENT = BigInt(120);
+
+// Nodes reject a same-nonce replacement unless both fees rise by at least 10%
+const MIN_FEE_BUMP_PERCENT = BigInt(110);
 
-const provider = new JsonRpcProvider(config.ethereum.rpcUrl);
+/**
+ * A failed broadcast
+ * "rejected" when a node refused the transaction; "unknown" when every
+ * attempt timed out or lost its connection, so a node may still have it.
+ */
+export class BroadcastError extends Error {
+  readonly outcome: Exclude<BroadcastOutcome, "broadcast">;
+
+  constructor(outcome: Exclude<BroadcastOutcome, "broadcast">, message: string) {
+    super(message);
+    this.name = "BroadcastError";
+    this.outcome = outcome;
+  }
+}
+
+const bumpFee = (fee: bigint): bigint =>
+  (fee * MIN_FEE_BUMP_PERCENT + BigInt(99)) / BigInt(100);
+
+/**
+ * Turn an estimateGas/eth_call failure into a quote issue
+ * Nodes report insufficient funds from both calls; anything else is a revert
+ */
+const describeSimulationError = (
+  error: any,
+  fallbackCode: QuoteIssue["code"]
+): QuoteIssue => {
+  if (error.code === "INSUFFICIENT_FUNDS") {
+    return {
+      code: "INSUFFICIENT_FUNDS",
+      message: "Insufficient funds for amount plus gas",
+    };
+  }
+  if (error.code === "CALL_EXCEPTION") {
+    return {
+      code: "EXECUTION_REVERTED",
+      message: `Transaction would revert: ${error.reason || error.shortMessage || "no reason given"}`,
+    };
+  }
+  return {
+    code: fallbackCode,
+    message: error.shortMessage || error.message,
+  };
+};
 
 export const blockchainService = {
   /**
-   * Get ETH balance of a wallet address
+   * Look up a configured chain
+   * Defaults to the primary chain (config.ethereum)
    */
-  async getBalance(address: string): Promise<string> {
+  getChain(chainId: number = config.ethereum.chainId): ChainConfig {
+    const chain = config.chains.find((c) => c.chainId === chainId);
+    if (!chain) {
+      throw new Error(`Unsupported chain: ${chainId}`);
+    }
+    return chain;
+  },
+
+  /**
+   * Get the RPC endpoints of a configured chain
+   */
+  getRpc(chainId: number = config.ethereum.chainId): EndpointPool {
+    return rpcService.forChain(this.getChain(chainId));
+  },
+
+  /**
+   * Get native balance (ETH on most chains) of a wallet address
+   */
+  async getBalance(
+    address: string,
+    chainId: number = config.ethereum.chainId
+  ): Promise<string> {
     try {
       const checksumAddress = getAddress(address);
-      const balanceWei = await provider.getBalance(checksumAddress);
+      const balanceWei = await this.getRpc(chainId).quorum("getBalance", (provider, blockTag) =>
+        provider.getBalance(checksumAddress, blockTag)
+      );
       return balanceWei.toString(); // Return in wei
     } catch (error: any) {
       throw new Error(`Failed to fetch balance: ${error.message}`);
@@ -28,32 +133,110 @@ export const blockchainService = {
   /**
    * Get balance in ETH format
    */
-  async getBalanceInEth(address: string): Promise<string> {
-    const balanceWei = await this.getBalance(address);
+  async getBalanceInEth(
+    address: string,
+    chainId: number = config.ethereum.chainId
+  ): Promise<string> {
+    const balanceWei = await this.getBalance(address, chainId);
     return (BigInt(balanceWei) / BigInt(10) ** BigInt(18)).toString();
   },
 
+  /**
+   * Get symbol and decimals of an ERC-20 token
+   */
+  async getTokenMetadata(
+    tokenAddress: string,
+    chainId: number = config.ethereum.chainId
+  ): Promise<{ symbol: string; decimals: number }> {
+    const checksumToken = getAddress(tokenAddress);
+    const cacheKey = `${chainId}:${checksumToken}`;
+    const cached = tokenMetadataCache.get(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const [symbol, decimals] = await this.getRpc(chainId).call(
+        "tokenMetadata",
+        (provider) => {
+          const token = new Contract(checksumToken, erc20Interface, provider);
+          return Promise.all([token.symbol(), token.decimals()]);
+        }
+      );
+
+      const metadata = { symbol, decimals: Number(decimals) };
+      tokenMetadataCache.set(cacheKey, metadata);
+      return metadata;
+    } catch (error: any) {
+      throw new Error(
+        `Failed to fetch token metadata for ${checksumToken}: ${error.message}`
+      );
+    }
+  },
+
+  /**
+   * Get ERC-20 token balance of a wallet address
+   */
+  async getTokenBalance(
+    tokenAddress: string,
+    address: string,
+    chainId: number = config.ethereum.chainId
+  ): Promise<TokenBalance> {
+    const checksumToken = getAddress(tokenAddress);
+    const { symbol, decimals } = await this.getTokenMetadata(checksumToken, chainId);
+
+    try {
+      const balance: bigint = await this.getRpc(chainId).quorum(
+        "balanceOf",
+        (provider, blockTag) =>
+          new Contract(checksumToken, erc20Interface, provider).balanceOf(
+            getAddress(address),
+            { blockTag }
+          )
+      );
+
+      return {
+        token: checksumToken,
+        symbol,
+        decimals,
+        balance: balance.toString(),
+        formatted: formatUnits(balance, decimals),
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to fetch token balance: ${error.message}`);
+    }
+  },
+
   /**
    * Get current nonce (transaction count) for an address
+   * Pass "pending" to include transactions in the node's mempool
    */
-  async getNonce(address: string): Promise<number> {
+  async getNonce(
+    address: string,
+    blockTag: "latest" | "pending" = "latest",
+    chainId: number = config.ethereum.chainId
+  ): Promise<number> {
     try {
       const checksumAddress = getAddress(address);
-      return await provider.getTransactionCount(checksumAddress);
+      return await this.getRpc(chainId).call("getTransactionCount", (provider) =>
+        provider.getTransactionCount(checksumAddress, blockTag)
+      );
     } catch (error: any) {
       throw new Error(`Failed to fetch nonce: ${error.message}`);
     }
   },
 
   /**
-   * Get current gas prices from Sepolia
+   * Get current gas prices for a chain
+   * Shared between callers for RPC_CACHE_TTL_MS
    */
-  async getGasPrices(): Promise<{
+  async getGasPrices(chainId: number = config.ethereum.chainId): Promise<{
     maxFeePerGas: string;
     maxPriorityFeePerGas: string;
   }> {
     try {
-      const feeData = await provider.getFeeData();
+      const rpc = this.getRpc(chainId);
+      const feeData = await rpc.cached("feeData", () =>
+        rpc.call("getFeeData", (provider) => provider.getFeeData())
+      );
 
       if (!feeData.maxFeePerGas || !feeData.maxPriorityFeePerGas) {
         throw new Error("Could not fetch fee data from provider");
@@ -68,26 +251,86 @@ export const blockchainService = {
     }
   },
 
+  /**
+   * Work out the call a send request makes
+   * Native ETH goes straight to the recipient; with request.token set, the call
+   * is an ERC-20 transfer on the contract, with amount in token units. The
+   * returned transfer describes the recipient and amount as the user sees them.
+   */
+  async encodeTransfer(
+    request: SendTransactionRequest,
+    chainId: number = config.ethereum.chainId
+  ): Promise<{
+    target: string;
+    value: bigint;
+    data: string;
+    transfer: { to: string; value: bigint; token: string | null };
+  }> {
+    const checksumTo = getAddress(request.to);
+
+    if (!request.token) {
+      const value = parseEther(request.amount);
+      return {
+        target: checksumTo,
+        value,
+        data: "0x",
+        transfer: { to: checksumTo, value, token: null },
+      };
+    }
+
+    const checksumToken = getAddress(request.token);
+    const { decimals } = await this.getTokenMetadata(checksumToken, chainId);
+    const tokenAmount = parseUnits(request.amount, decimals);
+
+    return {
+      target: checksumToken,
+      value: BigInt(0),
+      data: erc20Interface.encodeFunctionData("transfer", [checksumTo, tokenAmount]),
+      transfer: { to: checksumTo, value: tokenAmount, token: checksumToken },
+    };
+  },
+
   /**
    * Build an unsigned EIP-1559 transaction
    * Returns the transaction object and serialized data hash for signing
+   * Pass a nonce from nonceManager when sends may run concurrently
+   * Targets request.chainId, or the primary chain when omitted
+   *
+   * Token transfers have their gas estimated unless gasLimit is given.
    */
   async buildUnsignedTransaction(
     fromAddress: string,
-    request: SendTransactionRequest
+    request: SendTransactionRequest,
+    nonce?: number
   ): Promise<{
     transaction: any;
     dataHash: string;
+    transfer: { to: string; value: bigint; token: string | null };
   }> {
     try {
+      const chainId = request.chainId ?? config.ethereum.chainId;
+      const rpc = this.getRpc(chainId);
       const checksumFrom = getAddress(fromAddress);
-      const checksumTo = getAddress(request.to);
 
-      const nonce = await this.getNonce(checksumFrom);
-      const gasPrices = await this.getGasPrices();
+      const txNonce =
+        nonce ?? (await this.getNonce(checksumFrom, "pending", chainId));
+      const gasPrices = await this.getGasPrices(chainId);
+
+      const { target, value, data, transfer } = await this.encodeTransfer(
+        request,
+        chainId
+      );
 
       // Use provided gas values or defaults
-      const gasLimit = request.gasLimit ? BigInt(request.gasLimit) : BigInt(21000);
+      const gasLimit = request.gasLimit
+        ? BigInt(request.gasLimit)
+        : request.token
+          ? ((await rpc.call("estimateGas", (provider) =>
+              provider.estimateGas({ from: checksumFrom, to: target, data })
+            )) *
+              GAS_ESTIMATE_BUFFER_PERCENT) /
+            BigInt(100)
+          : BigInt(21000);
       const maxFeePerGas = request.maxFeePerGas
         ? BigInt(request.maxFeePerGas)
         : BigInt(gasPrices.maxFeePerGas);
@@ -98,23 +341,25 @@ export const blockchainService = {
       // Build EIP-1559 transaction (type 2)
       const transaction = {
         type: 2,
-        to: checksumTo,
+        to: target,
         from: checksumFrom,
-        value: parseEther(request.amount),
-        data: "0x",
+        value,
+        data,
         gasLimit,
-        nonce,
+        nonce: txNonce,
         maxFeePerGas,
         maxPriorityFeePerGas,
-        chainId: config.ethereum.chainId,
+        chainId,
       };
 
-      // Serialize without signature to get the hash for signing
-      const serialized = serializeTransaction(transaction);
+      // Hash the unsigned payload; this is the digest Para signs
+      const { from, ...unsignedFields } = transaction;
+      const dataHash = Transaction.from(unsignedFields).unsignedHash;
 
       return {
         transaction,
-        dataHash: serialized,
+        dataHash,
+        transfer,
       };
     } catch (error: any) {
       throw new Error(`Failed to build transaction: ${error.message}`);
@@ -122,14 +367,230 @@ export const blockchainService = {
   },
 
   /**
-   * Broadcast a signed transaction to Sepolia
+   * Lowest fees a node will accept to replace a pending transaction
+   */
+  getMinimumReplacementFees(original: TransactionRecord): {
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+  } {
+    return {
+      maxFeePerGas: bumpFee(BigInt(original.max_fee_per_gas)),
+      maxPriorityFeePerGas: bumpFee(BigInt(original.max_priority_fee_per_gas)),
+    };
+  },
+
+  /**
+   * Build an unsigned transaction that replaces a pending one at the same nonce
+   *
+   * - speedup: the same call as the original, re-priced
+   * - cancel: a 0-value transfer to the sender, which consumes the nonce
+   *
+   * Fees are raised to the network's current fees when those are higher than
+   * the ones given, and never below the minimum replacement bump.
    */
-  async broadcastTransaction(signedTransaction: string): Promise<string> {
+  async buildReplacementTransaction(
+    original: TransactionRecord,
+    mode: "speedup" | "cancel",
+    fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  ): Promise<{ transaction: any; dataHash: string }> {
     try {
-      const txResponse = await provider.broadcastTransaction(signedTransaction);
-      return txResponse.hash;
+      const chainId = original.chain_id;
+      const checksumFrom = getAddress(original.from_address);
+      const minimum = this.getMinimumReplacementFees(original);
+      const network = await this.getGasPrices(chainId);
+
+      const max = (...values: bigint[]) => values.reduce((a, b) => (a > b ? a : b));
+      const maxPriorityFeePerGas = max(
+        fees.maxPriorityFeePerGas,
+        minimum.maxPriorityFeePerGas
+      );
+      const maxFeePerGas = max(
+        fees.maxFeePerGas,
+        minimum.maxFeePerGas,
+        BigInt(network.maxFeePerGas),
+        maxPriorityFeePerGas
+      );
+
+      let call: { to: string; value: bigint; data: string; gasLimit: bigint };
+      if (mode === "cancel") {
+        call = { to: checksumFrom, value: BigInt(0), data: "0x", gasLimit: BigInt(21000) };
+      } else {
+        // Recreate the original call from the ledger row
+        call = original.token_address
+          ? {
+              to: getAddress(original.token_address),
+              value: BigInt(0),
+              data: erc20Interface.encodeFunctionData("transfer", [
+                getAddress(original.to_address),
+                BigInt(original.value),
+              ]),
+              gasLimit: BigInt(original.gas_limit),
+            }
+          : {
+              to: getAddress(original.to_address),
+              value: BigInt(original.value),
+              data: "0x",
+              gasLimit: BigInt(original.gas_limit),
+            };
+      }
+
+      const transaction = {
+        type: 2,
+        ...call,
+        from: checksumFrom,
+        nonce: original.nonce,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        chainId,
+      };
+
+      const { from, ...unsignedFields } = transaction;
+      const dataHash = Transaction.from(unsignedFields).unsignedHash;
+
+      return { transaction, dataHash };
     } catch (error: any) {
-      throw new Error(
+      throw new Error(`Failed to build replacement transaction: ${error.message}`);
+    }
+  },
+
+  /**
+   * Price and dry-run a send without signing it
+   * Builds the same call as buildUnsignedTransaction, then runs eth_estimateGas
+   * and eth_call against the latest state. Problems (insufficient funds, a
+   * reverting call) are reported as issues rather than thrown.
+   */
+  async quoteTransaction(
+    fromAddress: string,
+    request: SendTransactionRequest
+  ): Promise<TransactionQuote> {
+    try {
+      const chainId = request.chainId ?? config.ethereum.chainId;
+      const rpc = this.getRpc(chainId);
+      const checksumFrom = getAddress(fromAddress);
+      const issues: QuoteIssue[] = [];
+
+      const { target, value, data, transfer } = await this.encodeTransfer(
+        request,
+        chainId
+      );
+      const [nonce, gasPrices, balance] = await Promise.all([
+        this.getNonce(checksumFrom, "pending", chainId),
+        this.getGasPrices(chainId),
+        this.getBalance(checksumFrom, chainId).then(BigInt),
+      ]);
+      const call = { from: checksumFrom, to: target, value, data };
+
+      let estimatedGas: bigint | null = null;
+      try {
+        estimatedGas = await rpc.call("estimateGas", (provider) => provider.estimateGas(call));
+      } catch (error: any) {
+        issues.push(describeSimulationError(error, "GAS_ESTIMATION_FAILED"));
+      }
+
+      try {
+        await rpc.call("call", (provider) => provider.call(call));
+      } catch (error: any) {
+        const issue = describeSimulationError(error, "EXECUTION_REVERTED");
+        if (!issues.some((existing) => existing.code === issue.code)) {
+          issues.push(issue);
+        }
+      }
+
+      // Same defaults as buildUnsignedTransaction
+      const gasLimit = request.gasLimit
+        ? BigInt(request.gasLimit)
+        : !request.token
+          ? BigInt(21000)
+          : estimatedGas !== null
+            ? (estimatedGas * GAS_ESTIMATE_BUFFER_PERCENT) / BigInt(100)
+            : null;
+      const maxFeePerGas = request.maxFeePerGas
+        ? BigInt(request.maxFeePerGas)
+        : BigInt(gasPrices.maxFeePerGas);
+      const maxPriorityFeePerGas = request.maxPriorityFeePerGas
+        ? BigInt(request.maxPriorityFeePerGas)
+        : BigInt(gasPrices.maxPriorityFeePerGas);
+
+      if (gasLimit !== null && estimatedGas !== null && gasLimit < estimatedGas) {
+        issues.push({
+          code: "GAS_LIMIT_TOO_LOW",
+          message: `Gas limit ${gasLimit} is below the estimated ${estimatedGas}`,
+        });
+      }
+
+      // Worst case: every unit of gas at maxFeePerGas
+      const maxGasCost = gasLimit !== null ? gasLimit * maxFeePerGas : null;
+      const totalCost = maxGasCost !== null ? value + maxGasCost : null;
+      const balanceAfter = totalCost !== null ? balance - totalCost : null;
+
+      if (balanceAfter !== null && balanceAfter < BigInt(0)) {
+        issues.push({
+          code: "INSUFFICIENT_FUNDS",
+          message: `Balance ${balance} wei does not cover the amount plus max gas cost of ${totalCost} wei`,
+        });
+      }
+
+      let tokenBalance: TokenBalance | null = null;
+      if (transfer.token) {
+        tokenBalance = await this.getTokenBalance(transfer.token, checksumFrom, chainId);
+        if (BigInt(tokenBalance.balance) < transfer.value) {
+          issues.push({
+            code: "INSUFFICIENT_TOKEN_BALANCE",
+            message: `Token balance ${tokenBalance.balance} is below the transfer amount ${transfer.value}`,
+          });
+        }
+      }
+
+      return {
+        chainId,
+        from: checksumFrom,
+        to: transfer.to,
+        token: transfer.token,
+        value: transfer.value.toString(),
+        nonce,
+        gasLimit: gasLimit?.toString() ?? null,
+        estimatedGas: estimatedGas?.toString() ?? null,
+        maxFeePerGas: maxFeePerGas.toString(),
+        maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+        maxGasCost: maxGasCost?.toString() ?? null,
+        totalCost: totalCost?.toString() ?? null,
+        balance: balance.toString(),
+        balanceAfter: balanceAfter?.toString() ?? null,
+        tokenBalance: tokenBalance?.balance ?? null,
+        tokenBalanceAfter: tokenBalance
+          ? (BigInt(tokenBalance.balance) - transfer.value).toString()
+          : null,
+        willSucceed: issues.length === 0,
+        issues,
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to quote transaction: ${error.message}`);
+    }
+  },
+
+  /**
+   * Broadcast a signed transaction to a chain
+   * A retry can reach a node that already has the transaction (an earlier
+   * attempt timed out after getting through); that counts as broadcast.
+   * Throws a BroadcastError saying whether the transaction may still be out
+   * there.
+   */
+  async broadcastTransaction(
+    signedTransaction: string,
+    chainId: number = config.ethereum.chainId
+  ): Promise<string> {
+    try {
+      await this.getRpc(chainId).call("broadcastTransaction", async (provider) => {
+        try {
+          await provider.broadcastTransaction(signedTransaction);
+        } catch (error: any) {
+          if (!/already known|known transaction/i.test(error.message)) throw error;
+        }
+      });
+      return Transaction.from(signedTransaction).hash!;
+    } catch (error: any) {
+      throw new BroadcastError(
+        isTransientError(error) ? "unknown" : "rejected",
         `Failed to broadcast transaction: ${error.response?.data?.message || error.message}`
       );
     }
@@ -140,19 +601,20 @@ export const blockchainService = {
    * Used after Para returns a signature
    */
   serializeWithSignature(
-    transaction: any,
+    transaction: TransactionLike,
     signature: string
   ): string {
     // Ensure signature is properly formatted
     const cleanSig = signature.startsWith("0x") ? signature : `0x${signature}`;
 
-    // Add signature fields to transaction
-    const signedTx = {
-      ...transaction,
+    // Add signature fields to transaction ("from" is recovered from the signature)
+    const { from, ...unsignedFields } = transaction;
+    const signedTx = Transaction.from({
+      ...unsignedFields,
       signature: cleanSig,
-    };
+    });
 
-    return serializeTransaction(signedTx);
+    return signedTx.serialized;
   },
 
   /**
@@ -160,10 +622,13 @@ export const blockchainService = {
    */
   async waitForTransaction(
     txHash: string,
-    confirmations: number = 1
+    confirmations: number = 1,
+    chainId: number = config.ethereum.chainId
   ): Promise<any> {
     try {
-      const receipt = await provider.waitForTransaction(txHash, confirmations);
+      const receipt = await this.getRpc(chainId).call("waitForTransaction", (provider) =>
+        provider.waitForTransaction(txHash, confirmations)
+      );
       return receipt;
     } catch (error: any) {
       throw new Error(
@@ -171,4 +636,179 @@ export const blockchainService = {
       );
     }
   },
+
+  /**
+   * Get a transaction receipt without waiting
+   * Returns null while the transaction is unmined
+   */
+  async getTransactionReceipt(
+    txHash: string,
+    chainId: number = config.ethereum.chainId
+  ): Promise<TransactionReceipt | null> {
+    try {
+      return await this.getRpc(chainId).call("getTransactionReceipt", (provider) =>
+        provider.getTransactionReceipt(txHash)
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to fetch transaction receipt: ${error.message}`);
+    }
+  },
+
+  /**
+   * Get a transaction from the node (mempool or chain)
+   * Returns null if the node does not know the hash
+   */
+  async getTransaction(
+    txHash: string,
+    chainId: number = config.ethereum.chainId
+  ): Promise<TransactionResponse | null> {
+    try {
+      return await this.getRpc(chainId).call("getTransaction", (provider) =>
+        provider.getTransaction(txHash)
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to fetch transaction: ${error.message}`);
+    }
+  },
+
+  /**
+   * Get the number of transactions mined from an address as of the latest block
+   * Any nonce below this value has been consumed on-chain
+   */
+  async getConfirmedNonce(
+    address: string,
+    chainId: number = config.ethereum.chainId
+  ): Promise<number> {
+    return this.getNonce(address, "latest", chainId);
+  },
+
+  /**
+   * Get the latest block number
+   * Shared between callers for RPC_CACHE_TTL_MS
+   */
+  async getBlockNumber(chainId: number = config.ethereum.chainId): Promise<number> {
+    try {
+      const rpc = this.getRpc(chainId);
+      return await rpc.cached("blockNumber", () =>
+        rpc.call("getBlockNumber", (provider) => provider.getBlockNumber())
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to fetch block number: ${error.message}`);
+    }
+  },
+
+  /**
+   * Get a block, optionally with its transactions
+   * Returns null if the node does not have the block yet
+   */
+  async getBlock(
+    blockNumber: number,
+    chainId: number = config.ethereum.chainId,
+    includeTransactions: boolean = false
+  ): Promise<Block | null> {
+    try {
+      return await this.getRpc(chainId).call("getBlock", (provider) =>
+        provider.getBlock(blockNumber, includeTransactions)
+      );
+    } catch (error: any) {
+      throw new Error(`Failed to fetch block ${blockNumber}: ${error.message}`);
+    }
+  },
+
+  /**
+   * Find successful native-asset transfers to any of the given addresses in a
+   * range of blocks
+   * Only top-level transactions are seen; ETH sent by contracts (internal
+   * transfers) shows up in balances but not here.
+   */
+  async getNativeTransfers(
+    fromBlock: number,
+    toBlock: number,
+    recipients: string[],
+    chainId: number = config.ethereum.chainId
+  ): Promise<IncomingTransfer[]> {
+    const watched = new Set(recipients.map((address) => getAddress(address)));
+    const transfers: IncomingTransfer[] = [];
+
+    for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+      const block = await this.getBlock(blockNumber, chainId, true);
+      if (!block) {
+        throw new Error(`Block ${blockNumber} is not available yet`);
+      }
+
+      for (const tx of block.prefetchedTransactions) {
+        if (!tx.to || tx.value === BigInt(0) || !watched.has(getAddress(tx.to))) {
+          continue;
+        }
+
+        // A reverted transaction moves no value
+        const receipt = await this.getTransactionReceipt(tx.hash, chainId);
+        if (receipt?.status !== 1) continue;
+
+        transfers.push({
+          txHash: tx.hash,
+          logIndex: -1,
+          from: getAddress(tx.from),
+          to: getAddress(tx.to),
+          token: null,
+          value: tx.value,
+          blockNumber,
+          blockHash: block.hash!,
+        });
+      }
+    }
+
+    return transfers;
+  },
+
+  /**
+   * Find ERC-20 Transfer events to any of the given addresses in a range of blocks
+   * Any token contract counts. ERC-721 transfers share the event signature
+   * but index the token ID, so they are skipped.
+   */
+  async getTokenTransfers(
+    fromBlock: number,
+    toBlock: number,
+    recipients: string[],
+    chainId: number = config.ethereum.chainId
+  ): Promise<IncomingTransfer[]> {
+    const transfers: IncomingTransfer[] = [];
+
+    for (let i = 0; i < recipients.length; i += LOG_FILTER_ADDRESS_BATCH) {
+      const batch = recipients
+        .slice(i, i + LOG_FILTER_ADDRESS_BATCH)
+        .map((address) => zeroPadValue(getAddress(address), 32));
+
+      let logs;
+      try {
+        logs = await this.getRpc(chainId).call("getLogs", (provider) =>
+          provider.getLogs({
+            fromBlock,
+            toBlock,
+            topics: [TRANSFER_TOPIC, null, batch],
+          })
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to fetch transfer logs: ${error.message}`);
+      }
+
+      for (const log of logs) {
+        // ERC-20: from and to indexed, amount in 32 bytes of data
+        if (log.removed || log.topics.length !== 3 || log.data.length !== 66) continue;
+
+        transfers.push({
+          txHash: log.transactionHash,
+          logIndex: log.index,
+          from: getAddress(dataSlice(log.topics[1], 12)),
+          to: getAddress(dataSlice(log.topics[2], 12)),
+          token: getAddress(log.address),
+          value: BigInt(log.data),
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+        });
+      }
+    }
+
+    return transfers;
+  },
 };
@@ -0,0 +1,220 @@
+import "../testing/unitEnv";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { Block } from "ethers";
+import { config } from "../config";
+import { DepositRecord, IncomingTransfer } from "../types";
+import { databaseService } from "./database";
+import { blockchainService } from "./blockchain";
+import { webhookService } from "./webhooks";
+import { depositScanner } from "./depositScanner";
+
+const CHAIN_ID = config.ethereum.chainId;
+const USER_ID = "0b6c1b9e-5d0c-4c1e-9f37-6a3f4d1e2c11";
+const WALLET = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const SENDER = "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238";
+// TX_CONFIRMATIONS is left at its default of 3
+const CONFIRMATIONS = config.tracker.confirmations;
+
+const hashOf = (blockNumber: number, fork: string = "a"): string =>
+  `0x${fork.repeat(2)}${blockNumber.toString(16).padStart(62, "0")}`;
+
+const depositIn = (blockNumber: number, overrides: Partial<DepositRecord> = {}): DepositRecord => ({
+  id: `deposit-${blockNumber}`,
+  supabase_id: USER_ID,
+  tx_hash: hashOf(blockNumber, "f"),
+  log_index: -1,
+  from_address: SENDER,
+  to_address: WALLET,
+  token_address: null,
+  value: "1000",
+  chain_id: CHAIN_ID,
+  block_number: blockNumber,
+  block_hash: hashOf(blockNumber),
+  confirmations: 1,
+  status: "pending",
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  ...overrides,
+});
+
+describe("depositScanner", () => {
+  // The chain and stored state the scanner sees
+  let latest: number;
+  let cursor: number | null;
+  let transfers: IncomingTransfer[];
+  let pending: DepositRecord[];
+  let canonicalFork: Map<number, string | null>;
+
+  let savedCursors: number[];
+  let scannedRanges: [number, number][];
+  let updates: { id: string; status?: string }[];
+  let dispatched: string[];
+
+  beforeEach(() => {
+    latest = 100;
+    cursor = null;
+    transfers = [];
+    pending = [];
+    canonicalFork = new Map();
+    savedCursors = [];
+    scannedRanges = [];
+    updates = [];
+    dispatched = [];
+
+    mock.method(blockchainService, "getBlockNumber", async () => latest);
+    mock.method(blockchainService, "getNativeTransfers", async (from: number, to: number) => {
+      scannedRanges.push([from, to]);
+      return transfers;
+    });
+    mock.method(blockchainService, "getTokenTransfers", async () => []);
+    mock.method(blockchainService, "getBlock", async (blockNumber: number) => {
+      const fork = canonicalFork.has(blockNumber) ? canonicalFork.get(blockNumber) : "a";
+      return !fork ? null : ({ hash: hashOf(blockNumber, fork) } as Block);
+    });
+
+    mock.method(databaseService, "getScannerCursor", async () => cursor);
+    mock.method(databaseService, "saveScannerCursor", async (_chainId: number, lastBlock: number) => {
+      savedCursors.push(lastBlock);
+      cursor = lastBlock;
+    });
+    mock.method(databaseService, "listWalletAddresses", async () => [
+      { supabase_id: USER_ID, wallet_address: WALLET.toLowerCase() },
+    ]);
+    mock.method(databaseService, "saveDeposits", async (deposits: DepositRecord[]) => deposits);
+    mock.method(databaseService, "listPendingDeposits", async () => pending);
+    mock.method(databaseService, "updateDeposit", async (id: string, fields: Partial<DepositRecord>) => {
+      updates.push({ id, status: fields.status });
+      return null;
+    });
+
+    mock.method(webhookService, "dispatch", async (_userId: string, event: { id: string }) => {
+      dispatched.push(event.id);
+    });
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  describe("scan", () => {
+    test("starts a chain's first scan at the newest confirmed block", async () => {
+      await depositScanner.scan(CHAIN_ID);
+
+      const confirmedTip = latest - CONFIRMATIONS + 1;
+      assert.deepEqual(scannedRanges, [[confirmedTip, confirmedTip]]);
+      assert.deepEqual(savedCursors, [confirmedTip]);
+    });
+
+    test("reads only blocks with the required confirmations", async () => {
+      cursor = 90;
+      await depositScanner.scan(CHAIN_ID);
+
+      assert.deepEqual(scannedRanges, [[91, latest - CONFIRMATIONS + 1]]);
+    });
+
+    test("waits while the next block is unconfirmed", async () => {
+      cursor = latest - CONFIRMATIONS + 1;
+      await depositScanner.scan(CHAIN_ID);
+
+      assert.deepEqual(scannedRanges, []);
+      assert.deepEqual(savedCursors, []);
+    });
+
+    test("records transfers to user wallets as pending deposits", async () => {
+      cursor = 96;
+      transfers = [
+        {
+          txHash: hashOf(97, "f"),
+          logIndex: -1,
+          from: SENDER,
+          to: WALLET,
+          token: null,
+          value: 1000n,
+          blockNumber: 97,
+          blockHash: hashOf(97),
+        },
+      ];
+      const saveDeposits = mock.method(databaseService, "saveDeposits", async (deposits: any[]) => deposits);
+
+      await depositScanner.scan(CHAIN_ID);
+
+      const [saved] = saveDeposits.mock.calls[0].arguments[0];
+      assert.equal(saved.supabase_id, USER_ID);
+      assert.equal(saved.block_hash, hashOf(97));
+      assert.equal(saved.confirmations, latest - 97 + 1);
+      assert.equal(saved.status, "pending");
+    });
+  });
+
+  describe("updateConfirmations", () => {
+    test("announces a confirmed deposit before marking it success", async () => {
+      pending = [depositIn(95)];
+      const order: string[] = [];
+      mock.method(webhookService, "dispatch", async () => {
+        order.push("dispatch");
+      });
+      mock.method(databaseService, "updateDeposit", async (_id: string, fields: Partial<DepositRecord>) => {
+        order.push(fields.status!);
+        return null;
+      });
+
+      await depositScanner.updateConfirmations(CHAIN_ID);
+
+      assert.deepEqual(order, ["dispatch", "success"]);
+    });
+
+    test("keeps a deposit pending if it could not be announced", async () => {
+      pending = [depositIn(95)];
+      mock.method(webhookService, "dispatch", async () => {
+        throw new Error("Failed to queue webhook event: connection refused");
+      });
+
+      await assert.rejects(depositScanner.updateConfirmations(CHAIN_ID), /Failed to queue/);
+      assert.deepEqual(updates, []);
+    });
+
+    test("only counts confirmations of a deposit not yet confirmed", async () => {
+      pending = [depositIn(latest - 1)];
+
+      await depositScanner.updateConfirmations(CHAIN_ID);
+
+      assert.deepEqual(dispatched, []);
+      assert.deepEqual(updates, [{ id: "deposit-99", status: undefined }]);
+    });
+
+    test("drops a deposit whose block was reorged out and rescans from it", async () => {
+      cursor = 98;
+      pending = [depositIn(95), depositIn(97)];
+      canonicalFork.set(97, "b");
+
+      await depositScanner.updateConfirmations(CHAIN_ID);
+
+      assert.deepEqual(dispatched, ["deposit-95"]);
+      assert.deepEqual(updates, [
+        { id: "deposit-95", status: "success" },
+        { id: "deposit-97", status: "dropped" },
+      ]);
+      assert.deepEqual(savedCursors, [96]);
+    });
+
+    test("leaves the cursor alone if the reorged block is yet to be scanned", async () => {
+      cursor = 90;
+      pending = [depositIn(95)];
+      canonicalFork.set(95, "b");
+
+      await depositScanner.updateConfirmations(CHAIN_ID);
+
+      assert.deepEqual(updates, [{ id: "deposit-95", status: "dropped" }]);
+      assert.deepEqual(savedCursors, []);
+    });
+
+    test("leaves a deposit untouched while the node lacks its block", async () => {
+      pending = [depositIn(95)];
+      canonicalFork.set(95, null);
+
+      await depositScanner.updateConfirmations(CHAIN_ID);
+
+      assert.deepEqual(dispatched, []);
+      assert.deepEqual(updates, []);
+    });
+  });
+});
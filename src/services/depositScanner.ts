@@ -0,0 +1,203 @@
+import { getAddress } from "ethers";
+import { config } from "../config";
+import { DepositRecord } from "../types";
+import { databaseService } from "./database";
+import { blockchainService } from "./blockchain";
+import { webhookService } from "./webhooks";
+import { logger } from "./logger";
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export const depositScanner = {
+  /**
+   * Start scanning new blocks for deposits in the background
+   * Safe to call more than once; only one loop runs
+   */
+  start(): void {
+    if (timer || !config.deposits.enabled) return;
+
+    timer = setInterval(() => {
+      this.tick().catch((error) =>
+        logger.error("Deposit scanner error", { error })
+      );
+    }, config.deposits.pollIntervalMs);
+  },
+
+  /**
+   * Stop the background loop
+   */
+  stop(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  },
+
+  /**
+   * Scan new blocks and update pending deposits on every watched chain
+   * Skips the run if the previous one is still in progress
+   */
+  async tick(): Promise<void> {
+    if (running) return;
+    running = true;
+
+    try {
+      for (const chainId of config.deposits.chainIds) {
+        try {
+          await this.scan(chainId);
+          await this.updateConfirmations(chainId);
+        } catch (error: any) {
+          logger.error("Deposit scan failed", { chainId, error });
+        }
+      }
+    } finally {
+      running = false;
+    }
+  },
+
+  /**
+   * Record transfers to user wallets in the blocks after the last scanned one
+   * Only blocks with the required confirmations are read: a block is scanned
+   * once, so a transfer reorged into a block scanned earlier would be missed.
+   * Covers at most maxBlocksPerTick blocks per call, so a backlog after
+   * downtime is worked off over several ticks. The first scan of a chain
+   * starts at the newest confirmed block; earlier deposits only show in
+   * balances.
+   */
+  async scan(chainId: number): Promise<void> {
+    const latest = await blockchainService.getBlockNumber(chainId);
+    // The tip itself has one confirmation
+    const confirmedTip = latest - Math.max(config.tracker.confirmations, 1) + 1;
+    const cursor = await databaseService.getScannerCursor(chainId);
+    const fromBlock = cursor === null ? confirmedTip : cursor + 1;
+    if (fromBlock > confirmedTip) return;
+
+    const toBlock = Math.min(confirmedTip, fromBlock + config.deposits.maxBlocksPerTick - 1);
+
+    const wallets = await databaseService.listWalletAddresses();
+    const owners = new Map(
+      wallets.map((wallet) => [getAddress(wallet.wallet_address), wallet.supabase_id])
+    );
+
+    if (owners.size > 0) {
+      const recipients = [...owners.keys()];
+      const transfers = [
+        ...(await blockchainService.getNativeTransfers(fromBlock, toBlock, recipients, chainId)),
+        ...(await blockchainService.getTokenTransfers(fromBlock, toBlock, recipients, chainId)),
+      ];
+
+      if (transfers.length > 0) {
+        const saved = await databaseService.saveDeposits(
+          transfers.map((transfer) => ({
+            supabase_id: owners.get(transfer.to)!,
+            tx_hash: transfer.txHash,
+            log_index: transfer.logIndex,
+            from_address: transfer.from,
+            to_address: transfer.to,
+            token_address: transfer.token,
+            value: transfer.value.toString(),
+            chain_id: chainId,
+            block_number: transfer.blockNumber,
+            block_hash: transfer.blockHash,
+            confirmations: latest - transfer.blockNumber + 1,
+            status: "pending",
+          }))
+        );
+        logger.info("Found deposits", {
+          count: saved.length,
+          chainId,
+          fromBlock,
+          toBlock,
+        });
+      }
+    }
+
+    await databaseService.saveScannerCursor(chainId, toBlock);
+  },
+
+  /**
+   * Count confirmations of pending deposits and settle them
+   * Deposits are found already confirmed, so most settle on the tick that
+   * found them; the block hash is checked again here in any case.
+   *
+   * - Enough confirmations: deposit.received is emitted, then success
+   * - Block no longer on the canonical chain (reorg): dropped, and the
+   *   scanner goes back to that block; if the transfer is mined again the
+   *   deposit returns to pending in its new block
+   * - Otherwise the confirmation count is updated
+   */
+  async updateConfirmations(chainId: number): Promise<void> {
+    const pending = await databaseService.listPendingDeposits(chainId);
+    if (pending.length === 0) return;
+
+    const latest = await blockchainService.getBlockNumber(chainId);
+    const canonicalHashes = new Map<number, string | null>();
+    let reorgedFrom: number | null = null;
+
+    for (const deposit of pending) {
+      const blockNumber = Number(deposit.block_number);
+      if (!canonicalHashes.has(blockNumber)) {
+        const block = await blockchainService.getBlock(blockNumber, chainId);
+        canonicalHashes.set(blockNumber, block?.hash ?? null);
+      }
+
+      // A node that is behind may not have the block; try again next tick
+      const canonicalHash = canonicalHashes.get(blockNumber);
+      if (!canonicalHash) continue;
+
+      if (canonicalHash !== deposit.block_hash) {
+        await databaseService.updateDeposit(deposit.id, { status: "dropped" });
+        reorgedFrom = Math.min(reorgedFrom ?? blockNumber, blockNumber);
+        continue;
+      }
+
+      const confirmations = latest - blockNumber + 1;
+      if (confirmations >= config.tracker.confirmations) {
+        // Announced before it is marked success: if queueing the event fails,
+        // the deposit stays pending and is announced again next tick
+        await this.announce({ ...deposit, confirmations });
+        await databaseService.updateDeposit(deposit.id, {
+          status: "success",
+          confirmations,
+          confirmed_at: new Date().toISOString(),
+        });
+      } else if (confirmations !== deposit.confirmations) {
+        await databaseService.updateDeposit(deposit.id, { confirmations });
+      }
+    }
+
+    if (reorgedFrom !== null) {
+      const cursor = await databaseService.getScannerCursor(chainId);
+      if (cursor !== null && cursor >= reorgedFrom) {
+        logger.warn("Deposit block reorged out, rescanning", { chainId, fromBlock: reorgedFrom });
+        await databaseService.saveScannerCursor(chainId, reorgedFrom - 1);
+      }
+    }
+  },
+
+  /**
+   * Emit deposit.received for a confirmed deposit
+   * The event ID is the deposit's, so an announcement repeated after a
+   * failure can be told apart from a new deposit. Throws if the event could
+   * not be queued.
+   */
+  announce(deposit: DepositRecord): Promise<void> {
+    return webhookService.dispatch(deposit.supabase_id, {
+      id: deposit.id,
+      type: "deposit.received",
+      createdAt: new Date().toISOString(),
+      data: {
+        transactionHash: deposit.tx_hash,
+        logIndex: deposit.log_index,
+        from: deposit.from_address,
+        to: deposit.to_address,
+        token: deposit.token_address ?? null,
+        value: deposit.value,
+        chainId: deposit.chain_id,
+        blockNumber: Number(deposit.block_number),
+        confirmations: deposit.confirmations,
+      },
+    });
+  },
+};
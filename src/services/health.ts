@@ -0,0 +1,123 @@
+import { config } from "../config";
+import { DependencyCheck, ReadinessReport } from "../types";
+import { databaseService } from "./database";
+import { supabaseService } from "./supabase";
+import { paraService } from "./para";
+import { blockchainService } from "./blockchain";
+import { logger } from "./logger";
+
+// Readiness of the last check, to log changes rather than every probe
+let lastStatus: ReadinessReport["status"] | null = null;
+
+// The latest report (or the check in progress), served for HEALTH_CACHE_TTL_MS
+let cachedReport: { expiresAt: number; report: Promise<ReadinessReport> } | null = null;
+
+/**
+ * Run one dependency check, timing it and bounding it by
+ * HEALTH_PROBE_TIMEOUT_MS
+ * A check may return details to show next to its status.
+ */
+const probe = async (
+  check: () => Promise<Record<string, unknown> | void>
+): Promise<DependencyCheck> => {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${config.health.probeTimeoutMs}ms`)),
+        config.health.probeTimeoutMs
+      );
+    });
+    const details = await Promise.race([check(), timeout]);
+    return { status: "ok", latencyMs: Date.now() - startedAt, ...details };
+  } catch (error: any) {
+    return { status: "error", latencyMs: Date.now() - startedAt, error: error.message };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Check the primary chain's RPC reports the configured chain ID and a recent
+ * latest block
+ */
+const checkRpc = async () => {
+  const chainId = config.ethereum.chainId;
+  const rpc = blockchainService.getRpc(chainId);
+  const [reportedChainId, block] = await Promise.all([
+    rpc.call("chainId", async (provider) => Number(await provider.send("eth_chainId", []))),
+    rpc.call("getBlock", (provider) => provider.getBlock("latest")),
+  ]);
+
+  if (reportedChainId !== chainId) {
+    throw new Error(`RPC reports chain ${reportedChainId}, expected ${chainId}`);
+  }
+  if (!block) {
+    throw new Error("RPC returned no latest block");
+  }
+
+  const blockAgeSeconds = Math.max(0, Math.floor(Date.now() / 1000) - block.timestamp);
+  const { maxBlockAgeSeconds } = config.health;
+  if (maxBlockAgeSeconds > 0 && blockAgeSeconds > maxBlockAgeSeconds) {
+    throw new Error(
+      `Latest block ${block.number} is ${blockAgeSeconds}s old (limit ${maxBlockAgeSeconds}s)`
+    );
+  }
+
+  return { chainId, blockNumber: block.number, blockAgeSeconds };
+};
+
+export const healthService = {
+  /**
+   * Readiness, probing dependencies at most once per HEALTH_CACHE_TTL_MS
+   * Callers in between share the last report, so a busy or hostile caller
+   * can't turn /health/ready into load on Para, the database or the RPC.
+   */
+  getReadiness(): Promise<ReadinessReport> {
+    if (cachedReport && cachedReport.expiresAt > Date.now()) {
+      return cachedReport.report;
+    }
+
+    const report = this.checkReadiness();
+    cachedReport = { expiresAt: Date.now() + config.health.cacheTtlMs, report };
+    report.catch(() => {
+      if (cachedReport?.report === report) cachedReport = null;
+    });
+    return report;
+  },
+
+  /**
+   * Probe every dependency a request may need, in parallel
+   * Ready only if all of them answer.
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    const [supabase, database, para, rpc] = await Promise.all([
+      probe(() => supabaseService.checkHealth()),
+      probe(() => databaseService.probe()),
+      probe(() => paraService.checkHealth()),
+      probe(checkRpc),
+    ]);
+    const checks = { supabase, database, para, rpc };
+    const status = Object.values(checks).every((check) => check.status === "ok")
+      ? "ready"
+      : "not_ready";
+
+    if (status !== lastStatus) {
+      const failing = Object.fromEntries(
+        Object.entries(checks)
+          .filter(([, check]) => check.status === "error")
+          .map(([name, check]) => [name, check.error])
+      );
+      if (status === "ready") {
+        logger.info("Service is ready");
+      } else {
+        logger.warn("Service is not ready", { failing });
+      }
+      lastStatus = status;
+    }
+
+    return { status, timestamp: new Date().toISOString(), checks };
+  },
+};
@@ -0,0 +1,138 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { config } from "../config";
+import { LogLevel, RequestContext } from "../types";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Field names (lowercased, without - and _) whose values never reach the logs
+const SENSITIVE_KEYS = [
+  "password",
+  "secret",
+  "token",
+  "authorization",
+  "cookie",
+  "apikey",
+  "privatekey",
+  "totpcode",
+  "otpauth",
+  "signature",
+];
+
+const MAX_DEPTH = 6;
+
+const contextStorage = new AsyncLocalStorage<RequestContext>();
+
+const isSensitiveKey = (key: string): boolean => {
+  const normalized = key.toLowerCase().replace(/[-_]/g, "");
+  return SENSITIVE_KEYS.some((sensitive) => normalized.includes(sensitive));
+};
+
+/**
+ * Mask credentials that end up inside free text, e.g. error messages
+ */
+const redactString = (value: string): string =>
+  value
+    .replace(/Bearer\s+[^\s"',]+/gi, "Bearer [REDACTED]")
+    .replace(/eyJ[\w-]+\.[\w-]+\.[\w-]*/g, "[REDACTED]");
+
+/**
+ * Make a value safe to log: credentials masked, errors reduced to what is
+ * useful (an axios error carries its request config, API key included)
+ */
+const sanitize = (value: unknown, depth: number = 0): unknown => {
+  if (value === null || value === undefined) return value;
+  if (typeof value === "string") return redactString(value);
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[Truncated]";
+
+  if (value instanceof Error) {
+    const error = value as any;
+    return {
+      name: error.name,
+      message: redactString(error.message),
+      ...(error.code !== undefined && { code: error.code }),
+      ...(error.response?.status !== undefined && { status: error.response.status }),
+      ...(config.nodeEnv !== "production" && error.stack && { stack: redactString(error.stack) }),
+    };
+  }
+
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((item) => sanitize(item, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      isSensitiveKey(key) ? "[REDACTED]" : sanitize(item, depth + 1),
+    ])
+  );
+};
+
+const write = (level: LogLevel, message: string, fields: Record<string, unknown> = {}): void => {
+  if (LEVELS[level] < LEVELS[config.logging.level]) return;
+
+  const context = contextStorage.getStore();
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: redactString(message),
+    ...(context && { requestId: context.requestId }),
+    ...(context?.userId && { userId: context.userId }),
+    ...(sanitize(fields) as Record<string, unknown>),
+  });
+
+  if (LEVELS[level] >= LEVELS.warn) {
+    process.stderr.write(`${line}\n`);
+  } else {
+    process.stdout.write(`${line}\n`);
+  }
+};
+
+/**
+ * JSON-lines logger
+ * Each line carries the request ID (and user) of the request being served;
+ * tokens, passwords, secrets and API keys are masked.
+ */
+export const logger = {
+  debug(message: string, fields?: Record<string, unknown>): void {
+    write("debug", message, fields);
+  },
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    write("info", message, fields);
+  },
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    write("warn", message, fields);
+  },
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    write("error", message, fields);
+  },
+};
+
+/**
+ * Per-request context, available to everything the request calls
+ */
+export const requestContext = {
+  /**
+   * Run a function with a context; async work it starts inherits it
+   */
+  run<T>(context: RequestContext, fn: () => T): T {
+    return contextStorage.run(context, fn);
+  },
+
+  /**
+   * Context of the request being served, if any
+   */
+  get(): RequestContext | undefined {
+    return contextStorage.getStore();
+  },
+
+  /**
+   * ID of the request being served, if any
+   */
+  getRequestId(): string | undefined {
+    return contextStorage.getStore()?.requestId;
+  },
+};
@@ -0,0 +1,306 @@
+import { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { FetchGetUrlFunc } from "ethers";
+
+type Labels = Record<string, string | number>;
+
+// Latency buckets in seconds, shared by inbound and outbound histograms
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const escapeLabel = (value: string | number): string =>
+  String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+};
+
+const seriesKey = (labels: Labels): string => JSON.stringify(labels);
+
+/**
+ * Counter: a total that only goes up
+ */
+const createCounter = (name: string, help: string) => {
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  return {
+    inc(labels: Labels, value: number = 1): void {
+      const key = seriesKey(labels);
+      const current = series.get(key);
+      if (current) {
+        current.value += value;
+      } else {
+        series.set(key, { labels, value });
+      }
+    },
+
+    render(): string[] {
+      return [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} counter`,
+        ...[...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+      ];
+    },
+  };
+};
+
+/**
+ * Histogram: observations counted into cumulative latency buckets
+ */
+const createHistogram = (name: string, help: string, buckets: number[] = LATENCY_BUCKETS) => {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  return {
+    observe(labels: Labels, value: number): void {
+      const key = seriesKey(labels);
+      let current = series.get(key);
+      if (!current) {
+        current = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, current);
+      }
+      buckets.forEach((bound, index) => {
+        if (value <= bound) current!.counts[index]++;
+      });
+      current.sum += value;
+      current.count++;
+    },
+
+    render(): string[] {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+      for (const { labels, counts, sum, count } of series.values()) {
+        buckets.forEach((bound, index) => {
+          lines.push(`${name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[index]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      }
+      return lines;
+    },
+  };
+};
+
+const httpRequests = createCounter("http_requests_total", "HTTP requests served");
+const httpDuration = createHistogram(
+  "http_request_duration_seconds",
+  "Time to serve HTTP requests"
+);
+const dependencyDuration = createHistogram(
+  "dependency_request_duration_seconds",
+  "Latency of calls to Para, Supabase and RPC providers"
+);
+const dependencyErrors = createCounter(
+  "dependency_errors_total",
+  "Failed calls to Para, Supabase and RPC providers (network errors and 429/5xx responses)"
+);
+const transactionsSent = createCounter(
+  "transactions_sent_total",
+  "Transactions signed and accepted by the network"
+);
+const transactionsFailed = createCounter(
+  "transactions_failed_total",
+  "Transactions rejected at broadcast or reverted on-chain"
+);
+
+// Gauges are read when /metrics is scraped
+const gauges: { name: string; help: string; collect: () => Promise<number> | number }[] = [];
+
+// Start times of in-flight axios requests
+const axiosStartTimes = new WeakMap<InternalAxiosRequestConfig, bigint>();
+
+const secondsSince = (startedAt: bigint): number =>
+  Number(process.hrtime.bigint() - startedAt) / 1e9;
+
+// Only 429 and 5xx count as dependency errors; other 4xx are answers about our input
+const isDependencyError = (status?: number): boolean =>
+  status === undefined || status === 429 || status >= 500;
+
+/**
+ * Stable operation name for an HTTP call: method and path, with IDs replaced
+ * so each operation is one time series
+ */
+const operationName = (method: string | undefined, url: string): string => {
+  const path = url.replace(/^https?:\/\/[^/]+/, "").split("?")[0];
+  const normalized = path
+    .split("/")
+    .map((segment) => (/^(?=.*\d)[\w-]{9,}$/.test(segment) ? ":id" : segment))
+    .join("/");
+  return `${(method || "GET").toUpperCase()} ${normalized}`;
+};
+
+export const metricsService = {
+  /**
+   * Record one served HTTP request; route is the matched route pattern
+   */
+  recordHttpRequest(method: string, route: string, status: number, seconds: number): void {
+    httpRequests.inc({ method, route, status });
+    httpDuration.observe({ method, route }, seconds);
+  },
+
+  /**
+   * Record one outbound call to a dependency
+   */
+  recordDependencyCall(
+    dependency: string,
+    operation: string,
+    seconds: number,
+    failed: boolean
+  ): void {
+    dependencyDuration.observe({ dependency, operation }, seconds);
+    if (failed) {
+      dependencyErrors.inc({ dependency, operation });
+    }
+  },
+
+  /**
+   * Count a transaction accepted by the network
+   */
+  recordTransactionSent(chainId: number, kind: string): void {
+    transactionsSent.inc({ chain_id: chainId, kind });
+  },
+
+  /**
+   * Count a transaction that failed; reason is "rejected" or "reverted"
+   */
+  recordTransactionFailed(chainId: number, reason: "rejected" | "reverted"): void {
+    transactionsFailed.inc({ chain_id: chainId, reason });
+  },
+
+  /**
+   * Add a gauge whose value is read on each scrape
+   */
+  registerGauge(name: string, help: string, collect: () => Promise<number> | number): void {
+    gauges.push({ name, help, collect });
+  },
+
+  /**
+   * Time every request an axios client makes
+   */
+  instrumentAxios(client: AxiosInstance, dependency: string): void {
+    client.interceptors.request.use((request) => {
+      axiosStartTimes.set(request, process.hrtime.bigint());
+      return request;
+    });
+
+    const record = (request: InternalAxiosRequestConfig | undefined, status?: number) => {
+      const startedAt = request && axiosStartTimes.get(request);
+      if (!request || startedAt === undefined) return;
+      this.recordDependencyCall(
+        dependency,
+        operationName(request.method, request.url || ""),
+        secondsSince(startedAt),
+        isDependencyError(status)
+      );
+    };
+
+    client.interceptors.response.use(
+      (response) => {
+        record(response.config, response.status);
+        return response;
+      },
+      (error) => {
+        record(error.config, error.response?.status);
+        return Promise.reject(error);
+      }
+    );
+  },
+
+  /**
+   * A fetch that times every call, for clients that accept a custom fetch
+   * (Supabase)
+   */
+  instrumentFetch(dependency: string): typeof fetch {
+    return async (input, init) => {
+      const url = input instanceof Request ? input.url : input.toString();
+      const method = init?.method || (input instanceof Request ? input.method : "GET");
+      const operation = operationName(method, url);
+      const startedAt = process.hrtime.bigint();
+
+      try {
+        const response = await fetch(input, init);
+        this.recordDependencyCall(
+          dependency,
+          operation,
+          secondsSince(startedAt),
+          isDependencyError(response.status)
+        );
+        return response;
+      } catch (error) {
+        this.recordDependencyCall(dependency, operation, secondsSince(startedAt), true);
+        throw error;
+      }
+    };
+  },
+
+  /**
+   * Wrap an ethers getUrlFunc so every JSON-RPC request is timed, per method
+   * Batched requests are recorded under "batch".
+   */
+  instrumentGetUrl(dependency: string, getUrl: FetchGetUrlFunc): FetchGetUrlFunc {
+    return async (request, signal) => {
+      let operation = "unknown";
+      try {
+        const payload = JSON.parse(Buffer.from(request.body || []).toString());
+        operation = Array.isArray(payload) ? "batch" : payload.method;
+      } catch {
+        // Not JSON; keep "unknown"
+      }
+
+      const startedAt = process.hrtime.bigint();
+      try {
+        const response = await getUrl(request, signal);
+        this.recordDependencyCall(
+          dependency,
+          operation,
+          secondsSince(startedAt),
+          isDependencyError(response.statusCode)
+        );
+        return response;
+      } catch (error) {
+        this.recordDependencyCall(dependency, operation, secondsSince(startedAt), true);
+        throw error;
+      }
+    };
+  },
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   * A gauge that can't be read is left out of this scrape.
+   */
+  async render(): Promise<string> {
+    const memory = process.memoryUsage();
+    const lines = [
+      "# HELP process_resident_memory_bytes Resident memory size",
+      "# TYPE process_resident_memory_bytes gauge",
+      `process_resident_memory_bytes ${memory.rss}`,
+      "# HELP nodejs_heap_used_bytes V8 heap in use",
+      "# TYPE nodejs_heap_used_bytes gauge",
+      `nodejs_heap_used_bytes ${memory.heapUsed}`,
+      "# HELP process_uptime_seconds Time since the process started",
+      "# TYPE process_uptime_seconds gauge",
+      `process_uptime_seconds ${process.uptime()}`,
+    ];
+
+    const values = await Promise.allSettled(gauges.map((gauge) => gauge.collect()));
+    gauges.forEach((gauge, index) => {
+      const result = values[index];
+      if (result.status === "fulfilled") {
+        lines.push(`# HELP ${gauge.name} ${gauge.help}`);
+        lines.push(`# TYPE ${gauge.name} gauge`);
+        lines.push(`${gauge.name} ${result.value}`);
+      }
+    });
+
+    for (const metric of [
+      httpRequests,
+      httpDuration,
+      dependencyDuration,
+      dependencyErrors,
+      transactionsSent,
+      transactionsFailed,
+    ]) {
+      lines.push(...metric.render());
+    }
+
+    return `${lines.join("\n")}\n`;
+  },
+};
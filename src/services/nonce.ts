@@ -0,0 +1,73 @@
+import { getAddress } from "ethers";
+import { config } from "../config";
+import { databaseService } from "./database";
+import { blockchainService } from "./blockchain";
+
+// Tail of the signing queue for each chain and wallet address
+const walletLocks = new Map<string, Promise<void>>();
+
+export const nonceManager = {
+  /**
+   * Run fn while holding the signing lock for a wallet on a chain
+   * Sends from the same wallet are serialized so each one sees the nonces
+   * allocated before it; different wallets and chains run in parallel.
+   */
+  async withWalletLock<T>(
+    address: string,
+    chainId: number,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const key = `${chainId}:${getAddress(address)}`;
+    const previous = walletLocks.get(key) || Promise.resolve();
+
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    const tail = previous.then(() => current);
+    walletLocks.set(key, tail);
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+      // Drop the entry once nobody is queued behind us
+      if (walletLocks.get(key) === tail) {
+        walletLocks.delete(key);
+      }
+    }
+  },
+
+  /**
+   * Allocate the next nonce for a wallet
+   * Call while holding the wallet lock.
+   *
+   * Starts from the node's pending transaction count and skips nonces held by
+   * transactions still pending in the ledger (covers nodes that lag behind our
+   * own broadcasts). If the ledger holds a pending nonce but an earlier one is
+   * missing, e.g. a broadcast failed after signing, the gap is filled first so
+   * the later transactions can be mined.
+   */
+  async allocate(
+    address: string,
+    chainId: number = config.ethereum.chainId
+  ): Promise<number> {
+    const checksumAddress = getAddress(address);
+    const chainNonce = await blockchainService.getNonce(
+      checksumAddress,
+      "pending",
+      chainId
+    );
+    const pendingNonces = new Set(
+      (await databaseService.listPendingNonces(checksumAddress, chainId)).filter(
+        (nonce) => nonce >= chainNonce
+      )
+    );
+
+    let nonce = chainNonce;
+    while (pendingNonces.has(nonce)) {
+      nonce++;
+    }
+
+    return nonce;
+  },
+};
@@ -0,0 +1,98 @@
+import "../testing/unitEnv";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { createFakePara } from "../testing/fakePara";
+import type { ParaError, paraService as ParaService } from "./para";
+
+const RESET_MS = 200;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("paraService circuit breaker", () => {
+  const para = createFakePara({ apiKey: process.env.PARA_API_KEY!, readyAfterMs: 0 });
+  let paraService: typeof ParaService;
+
+  /**
+   * The error a call fails with
+   */
+  const failure = async (call: Promise<unknown>): Promise<ParaError> => {
+    try {
+      await call;
+    } catch (error) {
+      return error as ParaError;
+    }
+    assert.fail("Expected the call to fail");
+  };
+
+  before(async () => {
+    Object.assign(process.env, {
+      PARA_BASE_URL: await para.start(),
+      PARA_CIRCUIT_FAILURE_THRESHOLD: "2",
+      PARA_CIRCUIT_RESET_MS: String(RESET_MS),
+      PARA_MAX_RETRIES: "0",
+    });
+    // Imported only now: config reads the environment once, at import
+    ({ paraService } = await import("./para"));
+  });
+
+  after(() => para.stop());
+
+  test("client errors don't count against Para", async () => {
+    for (let i = 0; i < 3; i++) {
+      const error = await failure(paraService.getWallet(randomUUID()));
+      assert.equal(error.code, "PARA_NOT_FOUND");
+    }
+    assert.equal(paraService.getCircuitState(), "closed");
+  });
+
+  test("opens after the threshold of consecutive unavailable errors", async () => {
+    para.failNext(503, 2);
+
+    assert.equal((await failure(paraService.getWallet(randomUUID()))).code, "PARA_UNAVAILABLE");
+    assert.equal(paraService.getCircuitState(), "closed");
+    assert.equal((await failure(paraService.getWallet(randomUUID()))).code, "PARA_UNAVAILABLE");
+    assert.equal(paraService.getCircuitState(), "open");
+  });
+
+  test("fails calls fast while open, saying when to come back", async () => {
+    const error = await failure(paraService.createWallet(randomUUID()));
+
+    assert.equal(error.code, "PARA_UNAVAILABLE");
+    assert.match(error.message, /circuit open/);
+    assert.ok(error.retryAfterMs! > 0 && error.retryAfterMs! <= RESET_MS);
+  });
+
+  test("reopens when the trial call after the reset fails", async () => {
+    await sleep(RESET_MS);
+    para.failNext(503);
+
+    const error = await failure(paraService.getWallet(randomUUID()));
+    assert.doesNotMatch(error.message, /circuit/);
+    assert.equal(paraService.getCircuitState(), "open");
+  });
+
+  test("closes when the trial call after the reset succeeds", async () => {
+    await sleep(RESET_MS);
+
+    const wallet = await paraService.createWallet(randomUUID());
+    assert.ok(para.getWallet(wallet.id));
+    assert.equal(paraService.getCircuitState(), "closed");
+  });
+
+  test("lets only one trial call through while half open", async () => {
+    para.failNext(503, 2);
+    await failure(paraService.getWallet(randomUUID()));
+    await failure(paraService.getWallet(randomUUID()));
+    await sleep(RESET_MS);
+
+    const [trial, other] = await Promise.allSettled([
+      paraService.createWallet(randomUUID()),
+      paraService.createWallet(randomUUID()),
+    ]);
+    assert.equal(trial.status, "fulfilled");
+    assert.equal(other.status, "rejected");
+    assert.match((other as PromiseRejectedResult).reason.message, /circuit half open/);
+    assert.equal(paraService.getCircuitState(), "closed");
+  });
+});
@@ -1,37 +1,268 @@
-import axios from "axios";
+import axios, { AxiosResponse } from "axios";
 import { config } from "../config";
-import { ParaWallet, ParaSignResponse } from "../types";
+import { ParaCircuitState, ParaErrorCode, ParaWallet, ParaSignResponse } from "../types";
+import { logger, requestContext } from "./logger";
+import { metricsService } from "./metrics";
+
+// Longest Retry-After on a 429 that is worth waiting out within one request
+const MAX_RETRY_AFTER_MS = 5000;
+
+// Statuses with which Para refuses a signing request, e.g. a wallet not ready
+const SIGNING_REJECTED_STATUSES = [400, 403, 409, 422];
+
+// Wallet ID no wallet has, looked up by the health check
+const NIL_WALLET_ID = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * A failed Para call, classified by code
+ * retryAfterMs is set when Para (with a 429) or the open circuit says when
+ * to come back.
+ */
+export class ParaError extends Error {
+  readonly code: ParaErrorCode;
+  readonly retryAfterMs: number | null;
+
+  constructor(code: ParaErrorCode, message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = "ParaError";
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header (seconds or an HTTP date)
+ */
+const parseRetryAfter = (value?: string): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Turn an axios error from a Para call into a ParaError
+ */
+const toParaError = (error: any, action: string, signing: boolean): ParaError => {
+  const status: number | undefined = error.response?.status;
+  const message = `${action}: ${error.response?.data?.message || error.message}`;
+
+  if (status === undefined || status >= 500) {
+    return new ParaError("PARA_UNAVAILABLE", message);
+  }
+  if (status === 429) {
+    return new ParaError(
+      "PARA_RATE_LIMITED",
+      message,
+      parseRetryAfter(error.response.headers?.["retry-after"])
+    );
+  }
+  if (status === 404) {
+    return new ParaError("PARA_NOT_FOUND", message);
+  }
+  if (signing && SIGNING_REJECTED_STATUSES.includes(status)) {
+    return new ParaError("PARA_SIGNING_REJECTED", message);
+  }
+  if (status === 409) {
+    return new ParaError("PARA_CONFLICT", message);
+  }
+  return new ParaError("PARA_REQUEST_FAILED", message);
+};
+
+// Circuit breaker over every Para call. It opens after
+// PARA_CIRCUIT_FAILURE_THRESHOLD consecutive unavailable errors and fails
+// calls fast for PARA_CIRCUIT_RESET_MS; then one trial call is let through
+// (half open), and its outcome closes or reopens the circuit.
+const circuit = {
+  state: "closed" as ParaCircuitState,
+  consecutiveFailures: 0,
+  openedAt: 0,
+  trialInFlight: false,
+};
+
+/**
+ * Check the circuit before a call
+ * Returns whether the call is the half-open trial; throws while open.
+ */
+const enterCircuit = (): boolean => {
+  if (circuit.state === "open") {
+    const remainingMs = circuit.openedAt + config.para.circuitResetMs - Date.now();
+    if (remainingMs > 0) {
+      throw new ParaError("PARA_UNAVAILABLE", "Para is unavailable (circuit open)", remainingMs);
+    }
+    circuit.state = "half_open";
+  }
+
+  if (circuit.state === "half_open") {
+    if (circuit.trialInFlight) {
+      throw new ParaError(
+        "PARA_UNAVAILABLE",
+        "Para is unavailable (circuit half open)",
+        config.para.circuitResetMs
+      );
+    }
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Record a call's outcome on the circuit
+ * Only unavailable errors count against Para; any response that isn't a 5xx
+ * shows it is up.
+ */
+const leaveCircuit = (trial: boolean, failed: boolean): void => {
+  if (trial) circuit.trialInFlight = false;
+
+  if (!failed) {
+    if (circuit.state !== "closed") {
+      logger.info("Para circuit closed");
+    }
+    circuit.state = "closed";
+    circuit.consecutiveFailures = 0;
+    return;
+  }
+
+  circuit.consecutiveFailures++;
+  if (
+    trial ||
+    (circuit.state === "closed" &&
+      circuit.consecutiveFailures >= config.para.circuitFailureThreshold)
+  ) {
+    circuit.state = "open";
+    circuit.openedAt = Date.now();
+    logger.warn("Para circuit opened", {
+      consecutiveFailures: circuit.consecutiveFailures,
+      resetMs: config.para.circuitResetMs,
+    });
+  }
+};
 
 const paraClient = axios.create({
   baseURL: config.para.baseUrl,
+  timeout: config.para.timeoutMs,
   headers: {
     "X-API-Key": config.para.apiKey,
     "Content-Type": "application/json",
   },
 });
 
+metricsService.instrumentAxios(paraClient, "paraClient");
+
+// Pass the request ID on so Para-side logs can be matched with ours
+paraClient.interceptors.request.use((request) => {
+  const requestId = requestContext.getRequestId();
+  if (requestId) {
+    request.headers.set("X-Request-Id", requestId);
+  }
+  return request;
+});
+
+/**
+ * Make a Para call through the circuit breaker
+ * With retry set, unavailable and rate-limited failures are retried up to
+ * PARA_MAX_RETRIES times with backoff and jitter, waiting at least as long as
+ * a short Retry-After asks. Only set it for calls that are safe to repeat.
+ */
+const callPara = async <T>(
+  action: string,
+  send: () => Promise<AxiosResponse<T>>,
+  { retry = false, signing = false } = {}
+): Promise<AxiosResponse<T>> => {
+  const { maxRetries, retryBaseDelayMs } = config.para;
+
+  for (let attempt = 1; ; attempt++) {
+    const trial = enterCircuit();
+    let error: ParaError;
+    try {
+      const response = await send();
+      leaveCircuit(trial, false);
+      return response;
+    } catch (axiosError: any) {
+      error = toParaError(axiosError, action, signing);
+      leaveCircuit(trial, error.code === "PARA_UNAVAILABLE");
+    }
+
+    const retryable =
+      error.code === "PARA_UNAVAILABLE" ||
+      (error.code === "PARA_RATE_LIMITED" && (error.retryAfterMs ?? 0) <= MAX_RETRY_AFTER_MS);
+    if (!retry || !retryable || attempt > maxRetries) {
+      throw error;
+    }
+
+    const delayMs = Math.max(
+      retryBaseDelayMs * 2 ** (attempt - 1) * (1 + Math.random() / 2),
+      error.retryAfterMs ?? 0
+    );
+    logger.warn("Para call failed, retrying", { action, attempt, maxRetries, error });
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+};
+
 export const paraService = {
   /**
    * Create a new wallet for a user
-   * Uses CUSTOM_ID type with Supabase user ID to avoid collisions
+   * Uses CUSTOM_ID type with Supabase user ID to avoid collisions.
+   * If the user already has a wallet (409, e.g. an earlier attempt created it
+   * but its response was lost), that wallet is returned instead.
    */
   async createWallet(supabaseUserId: string): Promise<ParaWallet> {
-    try {
-      const response = await paraClient.post<ParaWallet>("/v1/wallets", {
-        type: "EVM",
-        userIdentifier: supabaseUserId,
-        userIdentifierType: "CUSTOM_ID",
-      });
+    // Retrying is safe: a repeat that finds the wallet created gets the 409
+    const response = await callPara(
+      "Para wallet creation failed",
+      () =>
+        paraClient.post<ParaWallet & { walletId?: string }>(
+          "/v1/wallets",
+          {
+            type: "EVM",
+            userIdentifier: supabaseUserId,
+            userIdentifierType: "CUSTOM_ID",
+          },
+          { validateStatus: (status) => (status >= 200 && status < 300) || status === 409 }
+        ),
+      { retry: true }
+    );
 
-      return response.data;
-    } catch (error: any) {
-      if (error.response?.status === 409) {
-        throw new Error(
-          `Wallet already exists for user ${supabaseUserId}. One wallet per (type, scheme, userIdentifier) is allowed.`
-        );
+    if (response.status === 409) {
+      // Use the existing wallet if the conflict response names it
+      const existingWalletId = response.data?.walletId;
+      if (existingWalletId) {
+        logger.info("Recovered existing Para wallet", {
+          walletId: existingWalletId,
+          userId: supabaseUserId,
+        });
+        return this.getWallet(existingWalletId);
       }
-      throw new Error(`Para wallet creation failed: ${error.message}`);
+      throw new ParaError(
+        "PARA_CONFLICT",
+        `Wallet already exists for user ${supabaseUserId}. One wallet per (type, scheme, userIdentifier) is allowed.`
+      );
     }
+
+    return response.data;
+  },
+
+  /**
+   * Find the EVM wallet created for a user, by its CUSTOM_ID userIdentifier
+   * Returns null if Para has none
+   */
+  async findWallet(supabaseUserId: string): Promise<ParaWallet | null> {
+    const response = await callPara(
+      `Failed to look up the wallet of user ${supabaseUserId}`,
+      () =>
+        paraClient.get<{ wallets: ParaWallet[] }>("/v1/wallets", {
+          params: {
+            type: "EVM",
+            userIdentifier: supabaseUserId,
+            userIdentifierType: "CUSTOM_ID",
+          },
+        }),
+      { retry: true }
+    );
+    return response.data.wallets?.[0] ?? null;
   },
 
   /**
@@ -39,14 +270,12 @@ export const paraService = {
    * Call this after creation to check status and get address once ready
    */
   async getWallet(walletId: string): Promise<ParaWallet> {
-    try {
-      const response = await paraClient.get<ParaWallet>(`/v1/wallets/${walletId}`);
-      return response.data;
-    } catch (error: any) {
-      throw new Error(
-        `Failed to fetch wallet ${walletId}: ${error.response?.data?.message || error.message}`
-      );
-    }
+    const response = await callPara(
+      `Failed to fetch wallet ${walletId}`,
+      () => paraClient.get<ParaWallet>(`/v1/wallets/${walletId}`),
+      { retry: true }
+    );
+    return response.data;
   },
 
   /**
@@ -83,24 +312,44 @@ export const paraService = {
    * Sign a raw transaction hash
    * Para holds one key share in secure enclave, user holds the other via WebAuthn
    * Returns signature only; private key never assembled in single place (non-custodial)
+   * Not retried; a failed send can be repeated by its caller
    */
   async signRaw(walletId: string, dataHash: string): Promise<ParaSignResponse> {
-    try {
-      // Ensure data is hex-prefixed
-      const hexData = dataHash.startsWith("0x") ? dataHash : `0x${dataHash}`;
+    // Ensure data is hex-prefixed
+    const hexData = dataHash.startsWith("0x") ? dataHash : `0x${dataHash}`;
 
-      const response = await paraClient.post<ParaSignResponse>(
-        `/v1/wallets/${walletId}/sign-raw`,
-        {
+    const response = await callPara(
+      "Failed to sign transaction",
+      () =>
+        paraClient.post<ParaSignResponse>(`/v1/wallets/${walletId}/sign-raw`, {
           data: hexData,
-        }
-      );
+        }),
+      { signing: true }
+    );
+    return response.data;
+  },
 
-      return response.data;
-    } catch (error: any) {
-      throw new Error(
-        `Failed to sign transaction: ${error.response?.data?.message || error.message}`
+  /**
+   * Check Para answers authenticated requests
+   * Looks up a wallet ID that can't exist: a 404 means Para is up and accepted
+   * the API key. Not retried; fails at once while the circuit is open.
+   */
+  async checkHealth(): Promise<void> {
+    try {
+      await callPara("Para health check failed", () =>
+        paraClient.get(`/v1/wallets/${NIL_WALLET_ID}`)
       );
+    } catch (error: any) {
+      if (!(error instanceof ParaError) || error.code !== "PARA_NOT_FOUND") {
+        throw error;
+      }
     }
   },
+
+  /**
+   * State of the circuit breaker in front of Para
+   */
+  getCircuitState(): ParaCircuitState {
+    return circuit.state;
+  },
 };
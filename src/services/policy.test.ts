@@ -0,0 +1,217 @@
+import "../testing/unitEnv";
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { parseEther, parseUnits } from "ethers";
+import { config } from "../config";
+import {
+  AddressBookEntry,
+  SecuritySettings,
+  SpendingLimitsRecord,
+  TokenSpendingLimitsRecord,
+} from "../types";
+import { databaseService } from "./database";
+import { blockchainService } from "./blockchain";
+import { policyService } from "./policy";
+
+const USER_ID = "0b6c1b9e-5d0c-4c1e-9f37-6a3f4d1e2c11";
+const CHAIN_ID = config.ethereum.chainId;
+const TOKEN = "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238";
+const RECIPIENT = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Stub the stored state the policy reads
+ */
+const given = ({
+  limits = null,
+  tokenLimits = null,
+  transfers = [],
+}: {
+  limits?: Partial<SpendingLimitsRecord> | null;
+  tokenLimits?: Partial<TokenSpendingLimitsRecord> | null;
+  transfers?: { value: bigint; ageMs: number; token?: string; chainId?: number }[];
+} = {}) => {
+  mock.method(databaseService, "getSpendingLimits", async () => limits);
+  mock.method(databaseService, "getTokenSpendingLimits", async () => tokenLimits);
+  mock.method(databaseService, "listTransfersSince", async () =>
+    transfers.map((transfer) => ({
+      value: transfer.value.toString(),
+      token_address: transfer.token ?? null,
+      chain_id: transfer.chainId ?? CHAIN_ID,
+      created_at: new Date(Date.now() - transfer.ageMs).toISOString(),
+    }))
+  );
+  mock.method(blockchainService, "getTokenMetadata", async () => ({ symbol: "USDC", decimals: 6 }));
+};
+
+describe("policyService", () => {
+  afterEach(() => {
+    mock.restoreAll();
+    config.limits.tokens = [];
+  });
+
+  describe("checkSend", () => {
+    const native = { chainId: CHAIN_ID, token: null };
+
+    test("allows a send within the default limits", async () => {
+      given();
+      assert.equal(await policyService.checkSend(USER_ID, { ...native, value: parseEther("0.5") }), null);
+    });
+
+    test("refuses a send above the per-transaction limit", async () => {
+      given();
+      const value = parseEther(config.limits.maxPerTransactionEth) + BigInt(1);
+      assert.match(
+        (await policyService.checkSend(USER_ID, { ...native, value }))!,
+        /per-transaction limit/
+      );
+    });
+
+    test("uses the user's overrides over the defaults", async () => {
+      given({ limits: { max_per_transaction: parseEther("0.1").toString() } });
+      assert.match(
+        (await policyService.checkSend(USER_ID, { ...native, value: parseEther("0.5") }))!,
+        /per-transaction limit of 100000000000000000 wei/
+      );
+    });
+
+    test("counts the last day's sends against the daily limit", async () => {
+      given({
+        limits: { daily_limit: parseEther("1").toString() },
+        transfers: [
+          { value: parseEther("0.7"), ageMs: HOUR_MS },
+          // Outside the day; counts toward the week only
+          { value: parseEther("0.9"), ageMs: 2 * 24 * HOUR_MS },
+        ],
+      });
+
+      assert.equal(await policyService.checkSend(USER_ID, { ...native, value: parseEther("0.3") }), null);
+      assert.match(
+        (await policyService.checkSend(USER_ID, { ...native, value: parseEther("0.4") }))!,
+        /remaining daily allowance of 300000000000000000 wei/
+      );
+    });
+
+    test("counts the last week's sends against the weekly limit", async () => {
+      given({
+        limits: { weekly_limit: parseEther("2").toString() },
+        transfers: [{ value: parseEther("1.5"), ageMs: 3 * 24 * HOUR_MS }],
+      });
+
+      assert.match(
+        (await policyService.checkSend(USER_ID, { ...native, value: parseEther("0.6") }))!,
+        /remaining weekly allowance of 500000000000000000 wei/
+      );
+    });
+
+    test("doesn't count other assets' sends against the native limits", async () => {
+      given({
+        limits: { daily_limit: parseEther("1").toString() },
+        transfers: [
+          { value: parseEther("0.9"), ageMs: HOUR_MS, token: TOKEN },
+          { value: parseEther("0.9"), ageMs: HOUR_MS, chainId: CHAIN_ID + 1 },
+        ],
+      });
+
+      assert.equal(await policyService.checkSend(USER_ID, { ...native, value: parseEther("0.9") }), null);
+    });
+
+    test("refuses a send once the daily transaction count is reached", async () => {
+      given({
+        limits: { daily_tx_count: 2 },
+        transfers: [
+          { value: BigInt(1), ageMs: HOUR_MS, token: TOKEN },
+          { value: BigInt(1), ageMs: HOUR_MS, chainId: CHAIN_ID + 1 },
+        ],
+      });
+
+      assert.match(
+        (await policyService.checkSend(USER_ID, { ...native, value: BigInt(1) }))!,
+        /Daily limit of 2 transactions reached/
+      );
+    });
+
+    test("refuses tokens without a limit", async () => {
+      given();
+      assert.match(
+        (await policyService.checkSend(USER_ID, { chainId: CHAIN_ID, token: TOKEN, value: BigInt(1) }))!,
+        /has no spending limit/
+      );
+    });
+
+    test("caps tokens by their LIMIT_TOKENS entry, in token units", async () => {
+      config.limits.tokens = [
+        { chainId: CHAIN_ID, token: TOKEN.toLowerCase(), maxPerTransaction: "100", daily: "500", weekly: "1000" },
+      ];
+      given();
+      const token = { chainId: CHAIN_ID, token: TOKEN };
+
+      assert.equal(await policyService.checkSend(USER_ID, { ...token, value: parseUnits("100", 6) }), null);
+      assert.match(
+        (await policyService.checkSend(USER_ID, { ...token, value: parseUnits("100.000001", 6) }))!,
+        /per-transaction limit of 100000000 token units/
+      );
+    });
+
+    test("prefers the user's token overrides, falling back per cap", async () => {
+      config.limits.tokens = [
+        { chainId: CHAIN_ID, token: TOKEN.toLowerCase(), maxPerTransaction: "100", daily: "500", weekly: "1000" },
+      ];
+      given({ tokenLimits: { max_per_transaction: parseUnits("10", 6).toString(), daily_limit: null } });
+
+      const limits = await policyService.getLimits(USER_ID, { chainId: CHAIN_ID, token: TOKEN });
+      assert.equal(limits?.maxPerTransaction, parseUnits("10", 6));
+      assert.equal(limits?.dailyLimit, parseUnits("500", 6));
+      assert.equal(limits?.weeklyLimit, parseUnits("1000", 6));
+    });
+  });
+
+  describe("checkRecipient", () => {
+    const settings = (fields: Partial<SecuritySettings>): SecuritySettings => ({
+      supabase_id: USER_ID,
+      allowlist_only: true,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      ...fields,
+    });
+    const entry = (usableInMs: number): AddressBookEntry => ({
+      id: "8d3c1c0e-2a7b-4b7f-9a55-7f4c8a1e2d10",
+      supabase_id: USER_ID,
+      label: "Savings",
+      address: RECIPIENT,
+      usable_at: new Date(Date.now() + usableInMs).toISOString(),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+
+    test("allows any recipient with the allowlist off", async () => {
+      mock.method(databaseService, "getSecuritySettings", async () => null);
+      assert.equal(await policyService.checkRecipient(USER_ID, RECIPIENT), null);
+    });
+
+    test("refuses recipients outside the address book", async () => {
+      mock.method(databaseService, "getSecuritySettings", async () => settings({}));
+      mock.method(databaseService, "getAddressByValue", async () => null);
+      assert.match((await policyService.checkRecipient(USER_ID, RECIPIENT))!, /not in your address book/);
+    });
+
+    test("refuses a saved address until its cooling-off period ends", async () => {
+      mock.method(databaseService, "getSecuritySettings", async () => settings({}));
+      mock.method(databaseService, "getAddressByValue", async () => entry(HOUR_MS));
+      assert.match((await policyService.checkRecipient(USER_ID, RECIPIENT))!, /cooling-off period/);
+    });
+
+    test("allows a saved address after its cooling-off period", async () => {
+      mock.method(databaseService, "getSecuritySettings", async () => settings({}));
+      mock.method(databaseService, "getAddressByValue", async () => entry(-HOUR_MS));
+      assert.equal(await policyService.checkRecipient(USER_ID, RECIPIENT), null);
+    });
+
+    test("keeps the allowlist on until a switch-off's cooling-off period ends", async () => {
+      const pending = settings({ allowlist_disable_at: new Date(Date.now() + HOUR_MS).toISOString() });
+      const done = settings({ allowlist_disable_at: new Date(Date.now() - HOUR_MS).toISOString() });
+      assert.equal(policyService.isAllowlistActive(pending), true);
+      assert.equal(policyService.isAllowlistActive(done), false);
+    });
+  });
+});
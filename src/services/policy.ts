@@ -0,0 +1,222 @@
+import { getAddress, parseEther, parseUnits } from "ethers";
+import { config } from "../config";
+import {
+  SecuritySettings,
+  SpendingAsset,
+  SpendingLimits,
+  SpendingUsage,
+  TokenLimitConfig,
+} from "../types";
+import { databaseService } from "./database";
+import { blockchainService } from "./blockchain";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export const policyService = {
+  /**
+   * Get a user's effective limits on one asset
+   * Native assets: the user's overrides, else the configured defaults, applied
+   * to each chain separately. Tokens: the user's overrides for the token on
+   * that chain, else its LIMIT_TOKENS entry; null if a cap is set by neither.
+   */
+  async getLimits(supabaseId: string, asset: SpendingAsset): Promise<SpendingLimits | null> {
+    if (asset.token) {
+      const token = asset.token;
+      const [overrides, dailyTxCount] = await Promise.all([
+        databaseService.getTokenSpendingLimits(supabaseId, asset.chainId, token),
+        this.getDailyTxCountLimit(supabaseId),
+      ]);
+      const defaults = this.getTokenDefaults(asset.chainId, token);
+
+      // Overrides are base units; defaults are token units
+      const cap = async (override: string | null | undefined, fallback: string | undefined) => {
+        if (override != null) return BigInt(override);
+        if (fallback === undefined) return null;
+        const { decimals } = await blockchainService.getTokenMetadata(token, asset.chainId);
+        return parseUnits(fallback, decimals);
+      };
+      const [maxPerTransaction, dailyLimit, weeklyLimit] = await Promise.all([
+        cap(overrides?.max_per_transaction, defaults?.maxPerTransaction),
+        cap(overrides?.daily_limit, defaults?.daily),
+        cap(overrides?.weekly_limit, defaults?.weekly),
+      ]);
+      if (maxPerTransaction === null || dailyLimit === null || weeklyLimit === null) {
+        return null;
+      }
+
+      return { maxPerTransaction, dailyLimit, weeklyLimit, dailyTxCount };
+    }
+
+    const overrides = await databaseService.getSpendingLimits(supabaseId);
+
+    return {
+      maxPerTransaction: overrides?.max_per_transaction
+        ? BigInt(overrides.max_per_transaction)
+        : parseEther(config.limits.maxPerTransactionEth),
+      dailyLimit: overrides?.daily_limit
+        ? BigInt(overrides.daily_limit)
+        : parseEther(config.limits.dailyEth),
+      weeklyLimit: overrides?.weekly_limit
+        ? BigInt(overrides.weekly_limit)
+        : parseEther(config.limits.weeklyEth),
+      dailyTxCount: overrides?.daily_tx_count ?? config.limits.dailyTxCount,
+    };
+  },
+
+  /**
+   * The LIMIT_TOKENS entry for a token on a chain, if any
+   */
+  getTokenDefaults(chainId: number, token: string): TokenLimitConfig | undefined {
+    return config.limits.tokens.find(
+      (limit) => limit.chainId === chainId && limit.token === token.toLowerCase()
+    );
+  },
+
+  /**
+   * The daily transaction count limit, which covers every chain and asset
+   */
+  async getDailyTxCountLimit(supabaseId: string): Promise<number> {
+    const overrides = await databaseService.getSpendingLimits(supabaseId);
+    return overrides?.daily_tx_count ?? config.limits.dailyTxCount;
+  },
+
+  /**
+   * Total a user's spending of one asset over the rolling day and week
+   * The transaction count covers transfers of every asset on every chain
+   */
+  async getUsage(supabaseId: string, asset: SpendingAsset): Promise<SpendingUsage> {
+    const now = Date.now();
+    const transfers = await databaseService.listTransfersSince(
+      supabaseId,
+      new Date(now - WEEK_MS).toISOString()
+    );
+
+    const usage: SpendingUsage = {
+      daily: BigInt(0),
+      weekly: BigInt(0),
+      dailyTxCount: 0,
+    };
+
+    for (const transfer of transfers) {
+      const inLastDay = new Date(transfer.created_at).getTime() > now - DAY_MS;
+      const sameAsset =
+        transfer.chain_id === asset.chainId &&
+        (transfer.token_address?.toLowerCase() ?? null) === (asset.token?.toLowerCase() ?? null);
+      const value = sameAsset ? BigInt(transfer.value) : BigInt(0);
+
+      usage.weekly += value;
+      if (inLastDay) {
+        usage.daily += value;
+        usage.dailyTxCount++;
+      }
+    }
+
+    return usage;
+  },
+
+  /**
+   * Limits, usage and what is left of each, for one asset
+   * Null for a token that no override or default caps.
+   */
+  async getAllowance(
+    supabaseId: string,
+    asset: SpendingAsset
+  ): Promise<{
+    limits: SpendingLimits;
+    usage: SpendingUsage;
+    remaining: SpendingUsage & { perTransaction: bigint };
+  } | null> {
+    const [limits, usage] = await Promise.all([
+      this.getLimits(supabaseId, asset),
+      this.getUsage(supabaseId, asset),
+    ]);
+    if (!limits) {
+      return null;
+    }
+
+    const floorZero = (value: bigint) => (value > BigInt(0) ? value : BigInt(0));
+    const daily = floorZero(limits.dailyLimit - usage.daily);
+    const weekly = floorZero(limits.weeklyLimit - usage.weekly);
+    const perTransaction = [limits.maxPerTransaction, daily, weekly].reduce((a, b) =>
+      a < b ? a : b
+    );
+
+    return {
+      limits,
+      usage,
+      remaining: {
+        perTransaction,
+        daily,
+        weekly,
+        dailyTxCount: Math.max(limits.dailyTxCount - usage.dailyTxCount, 0),
+      },
+    };
+  },
+
+  /**
+   * Check a send against the user's limits on its chain and asset
+   * Returns a reason if the send must be refused, or null if it is allowed.
+   * Token sends are refused unless the user's overrides or LIMIT_TOKENS cap
+   * the token.
+   * Call while holding the wallet lock so concurrent sends see each other.
+   */
+  async checkSend(
+    supabaseId: string,
+    send: SpendingAsset & { value: bigint }
+  ): Promise<string | null> {
+    const allowance = await this.getAllowance(supabaseId, send);
+    if (!allowance) {
+      return `Token ${send.token} has no spending limit on chain ${send.chainId}, so it can't be sent`;
+    }
+
+    const { limits, remaining } = allowance;
+    const unit = send.token ? "token units" : "wei";
+
+    if (remaining.dailyTxCount <= 0) {
+      return `Daily limit of ${limits.dailyTxCount} transactions reached`;
+    }
+    if (send.value > limits.maxPerTransaction) {
+      return `Amount exceeds the per-transaction limit of ${limits.maxPerTransaction} ${unit}`;
+    }
+    if (send.value > remaining.daily) {
+      return `Amount exceeds the remaining daily allowance of ${remaining.daily} ${unit}`;
+    }
+    if (send.value > remaining.weekly) {
+      return `Amount exceeds the remaining weekly allowance of ${remaining.weekly} ${unit}`;
+    }
+
+    return null;
+  },
+
+  /**
+   * Whether allowlist-only mode is in force
+   * A requested switch-off only takes effect once its cooling-off period ends
+   */
+  isAllowlistActive(settings: SecuritySettings | null): boolean {
+    if (!settings?.allowlist_only) return false;
+    if (!settings.allowlist_disable_at) return true;
+    return new Date(settings.allowlist_disable_at).getTime() > Date.now();
+  },
+
+  /**
+   * Check a recipient against the user's allowlist
+   * Returns a reason if the send must be refused, or null if it is allowed
+   */
+  async checkRecipient(supabaseId: string, to: string): Promise<string | null> {
+    const settings = await databaseService.getSecuritySettings(supabaseId);
+    if (!this.isAllowlistActive(settings)) {
+      return null;
+    }
+
+    const entry = await databaseService.getAddressByValue(supabaseId, getAddress(to));
+    if (!entry) {
+      return "Allowlist-only mode is on and this address is not in your address book";
+    }
+    if (new Date(entry.usable_at).getTime() > Date.now()) {
+      return `This address can be used from ${entry.usable_at}, after its cooling-off period`;
+    }
+
+    return null;
+  },
+};
@@ -0,0 +1,162 @@
+import { config } from "../config";
+import { ParaWallet } from "../types";
+import { databaseService } from "./database";
+import { ParaError, paraService } from "./para";
+import { webhookService } from "./webhooks";
+import { logger } from "./logger";
+
+// How long to watch a new wallet for MPC key generation to finish
+const READY_POLL_ATTEMPTS = 60;
+const READY_POLL_DELAY_MS = 5000;
+
+/**
+ * An error with a prefixed message; a ParaError keeps its code
+ */
+const prefixError = (error: any, prefix: string): Error =>
+  error instanceof ParaError
+    ? new ParaError(error.code, `${prefix}: ${error.message}`, error.retryAfterMs)
+    : new Error(`${prefix}: ${error.message}`);
+
+/**
+ * Run a database step, retrying failures with exponential backoff and jitter
+ * Para calls are not wrapped: callPara already retries the failures worth
+ * repeating.
+ */
+const withRetry = async <T>(step: string, fn: () => Promise<T>): Promise<T> => {
+  const { maxAttempts, retryBaseDelayMs } = config.provisioning;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      if (attempt >= maxAttempts) {
+        throw prefixError(error, `${step} failed after ${attempt} attempts`);
+      }
+
+      const delayMs = retryBaseDelayMs * 2 ** (attempt - 1) * (1 + Math.random() / 2);
+      logger.warn("Provisioning step failed, retrying", { step, attempt, maxAttempts, error });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+};
+
+/**
+ * Create the user's Para wallet
+ * Para answers 409 if the user already has one; when the response doesn't
+ * name that wallet, the one a concurrent run has stored for the user is used,
+ * or else the one Para lists for the user's identifier.
+ */
+const createParaWallet = async (supabaseId: string): Promise<ParaWallet> => {
+  try {
+    return await paraService.createWallet(supabaseId);
+  } catch (error: any) {
+    if (!(error instanceof ParaError) || error.code !== "PARA_CONFLICT") {
+      throw error;
+    }
+
+    const [job, stored] = await Promise.all([
+      databaseService.getProvisioningJob(supabaseId),
+      databaseService.getUserWallet(supabaseId),
+    ]);
+    const walletId = stored?.para_wallet_id ?? job?.para_wallet_id;
+    if (walletId) {
+      logger.info("Recovered existing Para wallet", { walletId, userId: supabaseId });
+      return paraService.getWallet(walletId);
+    }
+
+    const found = await paraService.findWallet(supabaseId);
+    if (!found) {
+      throw error;
+    }
+
+    logger.info("Recovered existing Para wallet", { walletId: found.id, userId: supabaseId });
+    return found;
+  }
+};
+
+export const provisioningService = {
+  /**
+   * Create a Para wallet for a user and store the mapping
+   * Progress is tracked in provisioning_jobs. Para calls retry on their own
+   * and the database step is retried with backoff; the whole run can be
+   * repeated: a wallet Para already created is reused, and a mapping already
+   * stored is left as is.
+   */
+  async provisionWallet(supabaseId: string): Promise<ParaWallet> {
+    const job = await databaseService.getProvisioningJob(supabaseId);
+    await databaseService.saveProvisioningJob(supabaseId, {
+      status: "creating_wallet",
+      attempts: (job?.attempts ?? 0) + 1,
+      last_error: null,
+    });
+
+    try {
+      // Step 1: Create the Para wallet, or pick up the one an earlier run created
+      const knownWalletId = job?.para_wallet_id;
+      const paraWallet = knownWalletId
+        ? await paraService.getWallet(knownWalletId)
+        : await createParaWallet(supabaseId);
+
+      await databaseService.saveProvisioningJob(supabaseId, {
+        status: "saving_wallet",
+        para_wallet_id: paraWallet.id,
+      });
+
+      // Step 2: Store the mapping, unless a concurrent run already did.
+      // The address is stored once the wallet is ready, by recordWalletReady.
+      await withRetry("Wallet mapping save", async () => {
+        const existing = await databaseService.getUserWallet(supabaseId);
+        return existing || databaseService.saveUserWallet(supabaseId, paraWallet.id);
+      });
+
+      await databaseService.saveProvisioningJob(supabaseId, {
+        status: "completed",
+        completed_at: new Date().toISOString(),
+      });
+
+      if (paraWallet.status === "ready" && paraWallet.address) {
+        this.recordWalletReady(supabaseId, paraWallet.address).catch((error) =>
+          logger.error("Failed to record ready wallet", { error })
+        );
+      } else {
+        this.watchUntilReady(supabaseId, paraWallet.id);
+      }
+
+      return paraWallet;
+    } catch (error: any) {
+      await databaseService
+        .saveProvisioningJob(supabaseId, { status: "failed", last_error: error.message })
+        .catch((dbError) =>
+          logger.error("Failed to record provisioning failure", { error: dbError })
+        );
+      throw prefixError(error, "Wallet provisioning failed");
+    }
+  },
+
+  /**
+   * Store the address of a wallet that has become ready and emit wallet.ready
+   * Does nothing if the address was already stored, so the event goes out once
+   */
+  async recordWalletReady(supabaseId: string, address: string): Promise<void> {
+    const updated = await databaseService.updateWalletAddress(supabaseId, address);
+    if (updated) {
+      await webhookService.emit(supabaseId, "wallet.ready", {
+        walletId: updated.para_wallet_id,
+        address,
+      });
+    }
+  },
+
+  /**
+   * Poll a new wallet in the background until it is ready, then record it
+   * Wallet views also record readiness when they see it, covering restarts
+   */
+  watchUntilReady(supabaseId: string, walletId: string): void {
+    paraService
+      .pollWalletReady(walletId, READY_POLL_ATTEMPTS, READY_POLL_DELAY_MS)
+      .then((wallet) => this.recordWalletReady(supabaseId, wallet.address!))
+      .catch((error) =>
+        logger.error("Stopped watching wallet", { walletId, error })
+      );
+  },
+};
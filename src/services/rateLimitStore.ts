@@ -0,0 +1,59 @@
+/**
+ * Storage for rate limit counters
+ * The in-memory store suits a single instance; run several instances behind a
+ * load balancer with a shared store (e.g. Redis INCR + PEXPIRE) instead.
+ */
+export interface RateLimitStore {
+  /**
+   * Count a hit against key in a fixed window starting at the key's first hit
+   * Returns the hit count in the current window and when the window resets
+   */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+// How often expired windows are swept from memory
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }, SWEEP_INTERVAL_MS);
+  // Don't keep the process alive just to sweep
+  sweep.unref();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      let window = windows.get(key);
+
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      window.count++;
+      return { count: window.count, resetAt: window.resetAt };
+    },
+  };
+};
+
+// Store used by rateLimitMiddleware unless a budget names its own
+let defaultStore: RateLimitStore = createMemoryRateLimitStore();
+
+export const rateLimitStore = {
+  get(): RateLimitStore {
+    return defaultStore;
+  },
+
+  /**
+   * Replace the default store, e.g. with a shared one at startup
+   */
+  set(store: RateLimitStore): void {
+    defaultStore = store;
+  },
+};
@@ -0,0 +1,163 @@
+import { randomUUID } from "crypto";
+import { formatEther } from "ethers";
+import { config } from "../config";
+import { StreamEvent, StreamEventType } from "../types";
+import { databaseService } from "./database";
+import { paraService } from "./para";
+import { blockchainService } from "./blockchain";
+import { logger } from "./logger";
+
+type Listener = (event: StreamEvent) => void;
+
+// Open streams by user. Events only reach streams on this instance; with
+// several instances behind a load balancer, fan out through a shared channel
+// (e.g. Redis pub/sub or Postgres LISTEN/NOTIFY) into publish().
+const listeners = new Map<string, Set<Listener>>();
+
+// Wallet watchers by user, running while the user has a stream open
+const watchers = new Map<
+  string,
+  { timer: NodeJS.Timeout; walletStatus?: string; balanceWei?: string }
+>();
+
+/**
+ * Check a connected user's wallet status and primary-chain balance, and
+ * publish whatever changed since the last check
+ * The first check only records the starting point; streams get that from
+ * getSnapshot() when they open.
+ */
+const pollWallet = async (supabaseId: string): Promise<void> => {
+  const watcher = watchers.get(supabaseId);
+  if (!watcher) return;
+
+  const userWallet = await databaseService.getUserWallet(supabaseId);
+  if (!userWallet) return;
+
+  let address = userWallet.wallet_address;
+  if (!address || watcher.walletStatus !== "ready") {
+    const paraWallet = await paraService.getWallet(userWallet.para_wallet_id);
+    if (watcher.walletStatus !== undefined && paraWallet.status !== watcher.walletStatus) {
+      realtimeService.publish(supabaseId, "wallet.status", {
+        walletId: paraWallet.id,
+        status: paraWallet.status,
+        address: paraWallet.address || null,
+      });
+    }
+    watcher.walletStatus = paraWallet.status;
+    address = paraWallet.address;
+  }
+
+  if (!address || watcher.walletStatus !== "ready") return;
+
+  const balanceWei = await blockchainService.getBalance(address);
+  if (watcher.balanceWei !== undefined && balanceWei !== watcher.balanceWei) {
+    realtimeService.publish(supabaseId, "balance.changed", {
+      chainId: config.ethereum.chainId,
+      address,
+      wei: balanceWei,
+      eth: formatEther(balanceWei),
+      previousWei: watcher.balanceWei,
+    });
+  }
+  watcher.balanceWei = balanceWei;
+};
+
+const startWatcher = (supabaseId: string): void => {
+  const poll = () =>
+    pollWallet(supabaseId).catch((error) =>
+      logger.error("Wallet watch failed", { userId: supabaseId, error })
+    );
+
+  watchers.set(supabaseId, { timer: setInterval(poll, config.realtime.pollIntervalMs) });
+  poll();
+};
+
+const stopWatcher = (supabaseId: string): void => {
+  const watcher = watchers.get(supabaseId);
+  if (watcher) {
+    clearInterval(watcher.timer);
+    watchers.delete(supabaseId);
+  }
+};
+
+export const realtimeService = {
+  /**
+   * Listen to a user's events
+   * Wallet status and balance are watched while the user has a listener.
+   * Returns a function that removes the listener.
+   */
+  subscribe(supabaseId: string, listener: Listener): () => void {
+    let userListeners = listeners.get(supabaseId);
+    if (!userListeners) {
+      userListeners = new Set();
+      listeners.set(supabaseId, userListeners);
+      startWatcher(supabaseId);
+    }
+    userListeners.add(listener);
+
+    return () => {
+      userListeners!.delete(listener);
+      if (userListeners!.size === 0 && listeners.get(supabaseId) === userListeners) {
+        listeners.delete(supabaseId);
+        stopWatcher(supabaseId);
+      }
+    };
+  },
+
+  /**
+   * Number of open streams of a user on this instance
+   */
+  connectionCount(supabaseId: string): number {
+    return listeners.get(supabaseId)?.size ?? 0;
+  },
+
+  /**
+   * Send an event to a user's open streams
+   * The ID defaults to a new one; webhook events pass their own so both
+   * channels agree.
+   */
+  publish(
+    supabaseId: string,
+    type: StreamEventType,
+    data: Record<string, any>,
+    id: string = randomUUID()
+  ): void {
+    const userListeners = listeners.get(supabaseId);
+    if (!userListeners) return;
+
+    const event: StreamEvent = { id, type, createdAt: new Date().toISOString(), data };
+    for (const listener of userListeners) {
+      try {
+        listener(event);
+      } catch (error: any) {
+        logger.error("Stream listener error", { error });
+      }
+    }
+  },
+
+  /**
+   * Current wallet status and primary-chain balance, sent when a stream opens
+   */
+  async getSnapshot(supabaseId: string): Promise<Record<string, any>> {
+    const userWallet = await databaseService.getUserWallet(supabaseId);
+    if (!userWallet) {
+      return { wallet: null, balance: null };
+    }
+
+    const paraWallet = await paraService.getWallet(userWallet.para_wallet_id);
+    let balance = null;
+    if (paraWallet.status === "ready" && paraWallet.address) {
+      const wei = await blockchainService.getBalance(paraWallet.address);
+      balance = { chainId: config.ethereum.chainId, wei, eth: formatEther(wei) };
+    }
+
+    return {
+      wallet: {
+        id: paraWallet.id,
+        status: paraWallet.status,
+        address: paraWallet.address || null,
+      },
+      balance,
+    };
+  },
+};
@@ -0,0 +1,200 @@
+import "../testing/unitEnv";
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { createServer, Server } from "http";
+import { JsonRpcProvider } from "ethers";
+import { config } from "../config";
+import { ChainConfig } from "../types";
+import { EndpointPool, rpcService } from "./rpc";
+
+const ADDRESS = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+
+// Sent as is: ethers briefly shares the result of identical getBalance calls,
+// failures included, so repeats wouldn't reach the nodes
+const getBalance = async (provider: JsonRpcProvider): Promise<bigint> =>
+  BigInt(await provider.send("eth_getBalance", [ADDRESS, "latest"]));
+
+interface FakeNode {
+  url: string;
+  // eth_getBalance answers, and the block tags they were asked at
+  balance: bigint;
+  blockNumber: number;
+  balanceBlockTags: string[];
+  requests: number;
+  // HTTP status to fail every request with, e.g. 503
+  failWith: number | null;
+  server: Server;
+}
+
+/**
+ * A JSON-RPC node answering eth_blockNumber and eth_getBalance
+ */
+const startNode = async (balance: bigint, blockNumber: number = 100): Promise<FakeNode> => {
+  const node = {
+    balance,
+    blockNumber,
+    balanceBlockTags: [],
+    requests: 0,
+    failWith: null,
+  } as unknown as FakeNode;
+
+  node.server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      node.requests++;
+      if (node.failWith) {
+        res.writeHead(node.failWith).end();
+        return;
+      }
+
+      const body = JSON.parse(raw);
+      const answer = ({ id, method, params }: { id: number; method: string; params: any[] }) => {
+        if (method === "eth_blockNumber") {
+          return { jsonrpc: "2.0", id, result: `0x${node.blockNumber.toString(16)}` };
+        }
+        if (method === "eth_getBalance") {
+          node.balanceBlockTags.push(params[1]);
+          return { jsonrpc: "2.0", id, result: `0x${node.balance.toString(16)}` };
+        }
+        return { jsonrpc: "2.0", id, error: { code: -32601, message: "method not found" } };
+      };
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(Array.isArray(body) ? body.map(answer) : answer(body)));
+    });
+  });
+
+  await new Promise<void>((resolve) => node.server.listen(0, "127.0.0.1", resolve));
+  node.url = `http://127.0.0.1:${(node.server.address() as AddressInfo).port}`;
+  return node;
+};
+
+describe("rpcService endpoint pool", () => {
+  const nodes: FakeNode[] = [];
+  const pools: EndpointPool[] = [];
+  let nextChainId = 900001;
+
+  /**
+   * A pool over fresh fake nodes, on a chain of its own
+   */
+  const poolOf = async (...balances: bigint[]) => {
+    const started = await Promise.all(balances.map((balance) => startNode(balance)));
+    nodes.push(...started);
+
+    const chain: ChainConfig = {
+      key: "TEST",
+      chainId: nextChainId++,
+      name: "Test",
+      nativeSymbol: "ETH",
+      rpcUrls: started.map((node) => node.url),
+      explorerUrl: "",
+      tokens: [],
+    };
+    const pool = rpcService.forChain(chain);
+    pools.push(pool);
+    return { pool, nodes: started };
+  };
+
+  after(async () => {
+    pools.forEach((pool) => pool.destroy());
+    await Promise.all(
+      nodes.map((node) => new Promise((resolve) => node.server.close(resolve)))
+    );
+  });
+
+  describe("call", () => {
+    test("fails over to the next endpoint on a transient error", async () => {
+      const { pool, nodes: [first, second] } = await poolOf(BigInt(1), BigInt(2));
+      first.failWith = 503;
+
+      const balance = await pool.call("getBalance", getBalance);
+
+      assert.equal(balance, BigInt(2));
+      assert.equal(first.requests, 1);
+      assert.equal(pool.health().endpoints[0].consecutiveFailures, 1);
+    });
+
+    test("takes an endpoint out of rotation after RPC_FAILURE_THRESHOLD failures", async () => {
+      const { pool, nodes: [first] } = await poolOf(BigInt(1), BigInt(2));
+      first.failWith = 503;
+
+      for (let i = 0; i < config.rpc.failureThreshold; i++) {
+        await pool.call("getBalance", getBalance);
+      }
+      assert.equal(pool.health().endpoints[0].healthy, false);
+      assert.equal(pool.health().healthyEndpoints, 1);
+
+      // Tried last from now on, so it isn't asked while the other answers
+      const requests = first.requests;
+      await pool.call("getBalance", getBalance);
+      assert.equal(first.requests, requests);
+    });
+
+    test("brings an endpoint back once it answers a health check", async () => {
+      const { pool, nodes: [first] } = await poolOf(BigInt(1), BigInt(2));
+      first.failWith = 503;
+      for (let i = 0; i < config.rpc.failureThreshold; i++) {
+        await pool.call("getBalance", getBalance);
+      }
+
+      first.failWith = null;
+      await pool.checkHealth();
+
+      assert.equal(pool.health().endpoints[0].healthy, true);
+      assert.equal(await pool.call("getBalance", getBalance), BigInt(1));
+    });
+
+    test("throws errors that aren't transient without failing over", async () => {
+      const { pool, nodes: [, second] } = await poolOf(BigInt(1), BigInt(2));
+
+      await assert.rejects(
+        pool.call("unknown", (provider) => provider.send("eth_unknown", [])),
+        /method not found/
+      );
+      assert.equal(second.requests, 0);
+    });
+  });
+
+  describe("quorum", () => {
+    test("returns a value the endpoints agree on", async () => {
+      const { pool } = await poolOf(BigInt(5), BigInt(5));
+
+      const balance = await pool.quorum("balance", (provider, blockTag) =>
+        provider.getBalance(ADDRESS, blockTag)
+      );
+      assert.equal(balance, BigInt(5));
+    });
+
+    test("throws when the endpoints disagree", async () => {
+      const { pool } = await poolOf(BigInt(5), BigInt(6));
+
+      await assert.rejects(
+        pool.quorum("balance", (provider, blockTag) => provider.getBalance(ADDRESS, blockTag)),
+        /1 of 2 RPC endpoints agreed on balance/
+      );
+    });
+
+    test("reads every endpoint at the lowest block any has reached", async () => {
+      const { pool, nodes: [first, second] } = await poolOf(BigInt(5), BigInt(5));
+      first.blockNumber = 120;
+      second.blockNumber = 118;
+
+      await pool.quorum("balance", (provider, blockTag) => provider.getBalance(ADDRESS, blockTag));
+
+      assert.deepEqual(first.balanceBlockTags, ["0x76"]);
+      assert.deepEqual(second.balanceBlockTags, ["0x76"]);
+    });
+
+    test("counts an unreachable endpoint against the quorum", async () => {
+      const { pool, nodes: [first] } = await poolOf(BigInt(5), BigInt(5));
+      first.failWith = 503;
+
+      await assert.rejects(
+        pool.quorum("balance", (provider, blockTag) => provider.getBalance(ADDRESS, blockTag)),
+        /1 of 2 RPC endpoints agreed on balance/
+      );
+    });
+  });
+});
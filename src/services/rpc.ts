@@ -0,0 +1,368 @@
+import { BlockTag, FetchRequest, JsonRpcProvider } from "ethers";
+import { config } from "../config";
+import { ChainConfig, RpcChainHealth, RpcEndpointHealth } from "../types";
+import { logger, requestContext } from "./logger";
+import { metricsService } from "./metrics";
+
+// ethers error codes for failures another attempt may not hit
+const TRANSIENT_ERROR_CODES = new Set(["NETWORK_ERROR", "SERVER_ERROR", "TIMEOUT"]);
+
+// JSON-RPC errors nodes return while overloaded or a block behind
+const TRANSIENT_ERROR_PATTERN =
+  /rate limit|too many requests|header not found|timeout|ECONNRESET|ECONNREFUSED|socket hang up/i;
+
+interface Endpoint {
+  provider: JsonRpcProvider;
+  health: RpcEndpointHealth;
+}
+
+/**
+ * Whether a failed RPC call is worth retrying, here or on another endpoint
+ * Reverts, bad nonces and the like fail the same way everywhere.
+ */
+export const isTransientError = (error: any): boolean =>
+  TRANSIENT_ERROR_CODES.has(error?.code) ||
+  TRANSIENT_ERROR_PATTERN.test(error?.message || "");
+
+/**
+ * The part of an RPC URL that is safe to show
+ */
+const redactUrl = (url: string): string => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "(invalid URL)";
+  }
+};
+
+const createProvider = (url: string, chainId: number): JsonRpcProvider => {
+  // Tag RPC calls with the request ID; calls batched together carry the ID
+  // of the first one
+  const connection = new FetchRequest(url);
+  connection.timeout = config.rpc.timeoutMs;
+  // Retries (429s included) are handled by the endpoint pool, across endpoints
+  connection.setThrottleParams({ maxAttempts: 1 });
+  connection.getUrlFunc = metricsService.instrumentGetUrl(
+    "provider",
+    FetchRequest.createGetUrlFunc()
+  );
+  connection.preflightFunc = async (request) => {
+    const requestId = requestContext.getRequestId();
+    if (requestId) {
+      request.setHeader("X-Request-Id", requestId);
+    }
+    return request;
+  };
+
+  return new JsonRpcProvider(connection, chainId, { staticNetwork: true });
+};
+
+/**
+ * The RPC endpoints of one chain
+ * Calls go to the first healthy endpoint in configured order and fail over
+ * to the next on transient errors. An endpoint leaves the rotation after
+ * RPC_FAILURE_THRESHOLD consecutive failures or when it lags behind the
+ * others, and returns once a call or health check succeeds. Unhealthy
+ * endpoints are still tried, last, so a chain with none healthy keeps going.
+ */
+const createEndpointPool = (chain: ChainConfig) => {
+  const endpoints: Endpoint[] = chain.rpcUrls.map((url) => ({
+    provider: createProvider(url, chain.chainId),
+    health: {
+      url: redactUrl(url),
+      healthy: true,
+      lagging: false,
+      consecutiveFailures: 0,
+      blockNumber: null,
+      latencyMs: null,
+      lastCheckedAt: null,
+      lastError: null,
+    },
+  }));
+  const cache = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+  /**
+   * Recompute an endpoint's health, logging when it changes
+   */
+  const updateHealth = (endpoint: Endpoint): void => {
+    const { health } = endpoint;
+    const healthy =
+      health.consecutiveFailures < config.rpc.failureThreshold && !health.lagging;
+    if (healthy === health.healthy) return;
+
+    health.healthy = healthy;
+    if (healthy) {
+      logger.info("RPC endpoint back in rotation", { chainId: chain.chainId, endpoint: health.url });
+    } else {
+      logger.warn("RPC endpoint taken out of rotation", {
+        chainId: chain.chainId,
+        endpoint: health.url,
+        lagging: health.lagging,
+        lastError: health.lastError,
+      });
+    }
+  };
+
+  const recordSuccess = (endpoint: Endpoint): void => {
+    endpoint.health.consecutiveFailures = 0;
+    updateHealth(endpoint);
+  };
+
+  const recordFailure = (endpoint: Endpoint, error: any): void => {
+    endpoint.health.consecutiveFailures++;
+    endpoint.health.lastError = error.shortMessage || error.message;
+    updateHealth(endpoint);
+  };
+
+  /**
+   * Run fn against one endpoint, recording transient failures against it
+   */
+  const attempt = async <T>(
+    endpoint: Endpoint,
+    fn: (provider: JsonRpcProvider) => Promise<T>
+  ): Promise<T> => {
+    try {
+      const result = await fn(endpoint.provider);
+      recordSuccess(endpoint);
+      return result;
+    } catch (error: any) {
+      if (isTransientError(error)) {
+        recordFailure(endpoint, error);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    /**
+     * Run an RPC call with failover and retries
+     * Each endpoint is tried once, healthy ones first; then up to
+     * RPC_MAX_RETRIES more attempts go round again with backoff and jitter.
+     * Errors that aren't transient are thrown straight away.
+     */
+    async call<T>(
+      operation: string,
+      fn: (provider: JsonRpcProvider) => Promise<T>
+    ): Promise<T> {
+      const { maxRetries, retryBaseDelayMs } = config.rpc;
+      const order = [
+        ...endpoints.filter((endpoint) => endpoint.health.healthy),
+        ...endpoints.filter((endpoint) => !endpoint.health.healthy),
+      ];
+      const maxAttempts = order.length + maxRetries;
+
+      for (let attemptNumber = 1; ; attemptNumber++) {
+        const endpoint = order[(attemptNumber - 1) % order.length];
+        try {
+          return await attempt(endpoint, fn);
+        } catch (error: any) {
+          if (!isTransientError(error) || attemptNumber >= maxAttempts) {
+            throw error;
+          }
+
+          logger.warn("RPC call failed, retrying", {
+            chainId: chain.chainId,
+            operation,
+            endpoint: endpoint.health.url,
+            attempt: attemptNumber,
+            maxAttempts,
+            error,
+          });
+
+          // Failing over is immediate; going back to an endpoint backs off
+          const retry = attemptNumber - order.length;
+          if (retry >= 0) {
+            const delayMs = retryBaseDelayMs * 2 ** retry * (1 + Math.random() / 2);
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+          }
+        }
+      }
+    },
+
+    /**
+     * Read a value that RPC_BALANCE_QUORUM healthy endpoints must agree on
+     * Every healthy endpoint is asked, at the lowest block any of them has
+     * reached, so one a block behind still agrees. With a single healthy
+     * endpoint this is a plain call at the latest block.
+     */
+    async quorum<T>(
+      operation: string,
+      fn: (provider: JsonRpcProvider, blockTag: BlockTag) => Promise<T>
+    ): Promise<T> {
+      const healthy = endpoints.filter((endpoint) => endpoint.health.healthy);
+      const required = Math.min(config.rpc.balanceQuorum, healthy.length);
+      if (required <= 1) {
+        return this.call(operation, (provider) => fn(provider, "latest"));
+      }
+
+      // eth_blockNumber directly: getBlockNumber() can answer from ethers' cache
+      const heights = await Promise.allSettled(
+        healthy.map((endpoint) =>
+          attempt(endpoint, async (provider) => Number(await provider.send("eth_blockNumber", [])))
+        )
+      );
+      const reachable = healthy.filter((_, index) => heights[index].status === "fulfilled");
+      const blockTag = Math.min(
+        ...heights.flatMap((height) => (height.status === "fulfilled" ? [height.value] : []))
+      );
+
+      const results: PromiseSettledResult<T>[] = [
+        ...heights.filter((height): height is PromiseRejectedResult => height.status === "rejected"),
+        ...(await Promise.allSettled(
+          reachable.map((endpoint) => attempt(endpoint, (provider) => fn(provider, blockTag)))
+        )),
+      ];
+
+      const votes = new Map<string, { value: T; count: number }>();
+      for (const result of results) {
+        if (result.status !== "fulfilled") continue;
+        const key = String(result.value);
+        const vote = votes.get(key) ?? { value: result.value, count: 0 };
+        vote.count++;
+        votes.set(key, vote);
+      }
+
+      const winner = [...votes.values()].sort((a, b) => b.count - a.count)[0];
+      if (winner && winner.count >= required) {
+        return winner.value;
+      }
+
+      const failure = results.find((result) => result.status === "rejected");
+      throw new Error(
+        `${winner?.count ?? 0} of ${required} RPC endpoints agreed on ${operation}` +
+          (failure?.status === "rejected" ? `: ${failure.reason.message}` : "")
+      );
+    },
+
+    /**
+     * Share a value for RPC_CACHE_TTL_MS, including while it loads
+     * Failed loads are not kept.
+     */
+    cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+      const entry = cache.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        return entry.value as Promise<T>;
+      }
+
+      const value = load();
+      cache.set(key, { expiresAt: Date.now() + config.rpc.cacheTtlMs, value });
+      value.catch(() => {
+        if (cache.get(key)?.value === value) cache.delete(key);
+      });
+      return value;
+    },
+
+    /**
+     * Ask every endpoint for its latest block
+     * Endpoints more than RPC_MAX_BLOCK_LAG blocks behind the highest one
+     * leave the rotation until they catch up.
+     */
+    async checkHealth(): Promise<void> {
+      await Promise.all(
+        endpoints.map(async (endpoint) => {
+          const startedAt = Date.now();
+          try {
+            const blockNumber = await attempt(endpoint, (provider) =>
+              provider.send("eth_blockNumber", [])
+            );
+            endpoint.health.blockNumber = Number(blockNumber);
+            endpoint.health.latencyMs = Date.now() - startedAt;
+          } catch (error: any) {
+            // Not transient (e.g. a malformed response) still means unusable
+            if (!isTransientError(error)) recordFailure(endpoint, error);
+            endpoint.health.latencyMs = null;
+          }
+          endpoint.health.lastCheckedAt = new Date().toISOString();
+        })
+      );
+
+      const highest = Math.max(...endpoints.map((endpoint) => endpoint.health.blockNumber ?? 0));
+      for (const endpoint of endpoints) {
+        const { blockNumber } = endpoint.health;
+        endpoint.health.lagging =
+          blockNumber !== null && highest - blockNumber > config.rpc.maxBlockLag;
+        updateHealth(endpoint);
+      }
+    },
+
+    health(): RpcChainHealth {
+      return {
+        chainId: chain.chainId,
+        name: chain.name,
+        healthyEndpoints: endpoints.filter((endpoint) => endpoint.health.healthy).length,
+        endpoints: endpoints.map((endpoint) => ({ ...endpoint.health })),
+      };
+    },
+
+    destroy(): void {
+      endpoints.forEach((endpoint) => endpoint.provider.destroy());
+    },
+  };
+};
+
+export type EndpointPool = ReturnType<typeof createEndpointPool>;
+
+// One pool per configured chain, created on first use
+const pools = new Map<number, EndpointPool>();
+
+let timer: NodeJS.Timeout | null = null;
+let checking = false;
+
+export const rpcService = {
+  /**
+   * Get the endpoint pool for a configured chain
+   */
+  forChain(chain: ChainConfig): EndpointPool {
+    let pool = pools.get(chain.chainId);
+    if (!pool) {
+      pool = createEndpointPool(chain);
+      pools.set(chain.chainId, pool);
+    }
+    return pool;
+  },
+
+  /**
+   * Start health-checking every configured chain's endpoints in the background
+   * Safe to call more than once; only one loop runs
+   */
+  start(): void {
+    if (timer) return;
+
+    const check = () =>
+      this.checkHealth().catch((error) => logger.error("RPC health check error", { error }));
+    timer = setInterval(check, config.rpc.healthCheckIntervalMs);
+    check();
+  },
+
+  /**
+   * Stop the background loop
+   */
+  stop(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  },
+
+  /**
+   * Health-check every configured chain once
+   * Skips the run if the previous one is still in progress
+   */
+  async checkHealth(): Promise<void> {
+    if (checking) return;
+    checking = true;
+
+    try {
+      await Promise.all(config.chains.map((chain) => this.forChain(chain).checkHealth()));
+    } finally {
+      checking = false;
+    }
+  },
+
+  /**
+   * Endpoint health of every configured chain
+   */
+  getHealth(): RpcChainHealth[] {
+    return config.chains.map((chain) => this.forChain(chain).health());
+  },
+};
@@ -0,0 +1,137 @@
+import { config } from "../config";
+import { AuthenticatedUser } from "../types";
+import { databaseService } from "./database";
+import { realtimeService } from "./realtime";
+import { logger } from "./logger";
+
+// Recent revocation lookups, so most requests don't hit the database
+const sessionCache = new Map<string, { revoked: boolean; fetchedAt: number }>();
+const userCache = new Map<string, { revokedBefore: number | null; fetchedAt: number }>();
+
+const isFresh = (entry?: { fetchedAt: number }): boolean =>
+  !!entry && Date.now() - entry.fetchedAt < config.auth.revocationCacheTtlMs;
+
+// How often stale cache entries and expired revocations are swept
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+
+export const sessionService = {
+  /**
+   * Check whether a verified token belongs to a revoked session
+   * A token is revoked if its session was logged out, or it was issued
+   * before the user's last logout-all. Lookups are cached briefly; this
+   * instance sees its own revocations immediately.
+   */
+  async isRevoked(user: AuthenticatedUser): Promise<boolean> {
+    if (user.sessionId) {
+      let session = sessionCache.get(user.sessionId);
+      if (!isFresh(session)) {
+        session = {
+          revoked: await databaseService.isSessionRevoked(user.sessionId),
+          fetchedAt: Date.now(),
+        };
+        sessionCache.set(user.sessionId, session);
+      }
+      if (session!.revoked) return true;
+    }
+
+    let userEntry = userCache.get(user.userId);
+    if (!isFresh(userEntry)) {
+      const settings = await databaseService.getSecuritySettings(user.userId);
+      userEntry = {
+        revokedBefore: settings?.sessions_revoked_before
+          ? new Date(settings.sessions_revoked_before).getTime()
+          : null,
+        fetchedAt: Date.now(),
+      };
+      userCache.set(user.userId, userEntry);
+    }
+
+    return (
+      userEntry!.revokedBefore !== null &&
+      user.issuedAt !== undefined &&
+      user.issuedAt * 1000 < userEntry!.revokedBefore
+    );
+  },
+
+  /**
+   * Revoke the session a token belongs to
+   * Its event streams on this instance are closed.
+   */
+  async revoke(user: AuthenticatedUser): Promise<void> {
+    if (!user.sessionId) return;
+
+    // Keep the row until the token could no longer be used anyway
+    const expiresAt = user.expiresAt
+      ? new Date(user.expiresAt * 1000)
+      : new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    await databaseService.revokeSession(
+      user.sessionId,
+      user.userId,
+      expiresAt.toISOString()
+    );
+    sessionCache.set(user.sessionId, { revoked: true, fetchedAt: Date.now() });
+    realtimeService.publish(user.userId, "session.revoked", { sessionId: user.sessionId });
+  },
+
+  /**
+   * Revoke every token issued to a user up to now
+   * Streams opened with those tokens on this instance are closed.
+   */
+  async revokeAll(userId: string): Promise<void> {
+    // JWT iat has one-second resolution; round up so this second's tokens go too
+    const revokedBefore = Math.ceil(Date.now() / 1000) * 1000;
+
+    await databaseService.saveSecuritySettings(userId, {
+      sessions_revoked_before: new Date(revokedBefore).toISOString(),
+    });
+    userCache.set(userId, { revokedBefore, fetchedAt: Date.now() });
+    realtimeService.publish(userId, "session.revoked", {
+      revokedBefore: new Date(revokedBefore).toISOString(),
+    });
+  },
+
+  /**
+   * Start sweeping in the background
+   * Safe to call more than once; only one loop runs
+   */
+  start(): void {
+    if (timer) return;
+
+    timer = setInterval(() => {
+      this.sweep().catch((error) => logger.error("Session sweep error", { error }));
+    }, SWEEP_INTERVAL_MS);
+    // Don't keep the process alive just to sweep
+    timer.unref();
+  },
+
+  /**
+   * Stop the background loop
+   */
+  stop(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  },
+
+  /**
+   * Drop cache entries past their TTL, and revocations whose tokens have
+   * all expired (an expired token is refused without them)
+   */
+  async sweep(): Promise<void> {
+    for (const [sessionId, entry] of sessionCache) {
+      if (!isFresh(entry)) sessionCache.delete(sessionId);
+    }
+    for (const [userId, entry] of userCache) {
+      if (!isFresh(entry)) userCache.delete(userId);
+    }
+
+    const purged = await databaseService.deleteExpiredSessionRevocations();
+    if (purged > 0) {
+      logger.debug("Expired session revocations deleted", { count: purged });
+    }
+  },
+};
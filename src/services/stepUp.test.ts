@@ -0,0 +1,116 @@
+import "../testing/unitEnv";
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { AuthenticatedUser, TotpFactor } from "../types";
+import { config } from "../config";
+import { databaseService } from "./database";
+import { stepUpService } from "./stepUp";
+import { totpService } from "./totp";
+
+// RFC 6238 test key and its code at T = 1111111109 s (see totp.test.ts)
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const CODE = "081804";
+const STEP = Math.floor(1111111109 / 30);
+
+const user: AuthenticatedUser = {
+  userId: "0b6c1b9e-5d0c-4c1e-9f37-6a3f4d1e2c11",
+  email: "user@example.com",
+  sessionId: "5a1e7c2d-3b4f-4e6a-8c9d-0e1f2a3b4c5d",
+};
+
+/**
+ * A factor for the test key, stored the way enroll stores it
+ */
+const enrollFactor = async (): Promise<TotpFactor> => {
+  mock.method(totpService, "generateSecret", () => SECRET);
+  let stored: Partial<TotpFactor> = {};
+  mock.method(databaseService, "saveTotpFactor", async (_id: string, fields: Partial<TotpFactor>) => {
+    stored = fields;
+    return stored as TotpFactor;
+  });
+
+  await stepUpService.enroll(user);
+  return {
+    ...(stored as TotpFactor),
+    supabase_id: user.userId,
+    enabled: true,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+};
+
+describe("stepUpService", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["Date"], now: 1111111109 * 1000 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  describe("verifyCode", () => {
+    test("stores the secret encrypted", async () => {
+      const factor = await enrollFactor();
+      assert.notEqual(factor.secret, SECRET);
+      assert.ok(!factor.secret.includes(SECRET));
+    });
+
+    test("accepts a fresh code and claims its step", async () => {
+      const factor = await enrollFactor();
+      const claim = mock.method(databaseService, "claimTotpStep", async () => true);
+
+      assert.equal(await stepUpService.verifyCode(factor, CODE), true);
+      assert.deepEqual(claim.mock.calls[0].arguments, [user.userId, STEP]);
+    });
+
+    test("refuses a code whose step was already used", async () => {
+      const factor = await enrollFactor();
+      const claim = mock.method(databaseService, "claimTotpStep", async () => true);
+
+      assert.equal(await stepUpService.verifyCode({ ...factor, last_used_step: STEP }, CODE), false);
+      assert.equal(claim.mock.callCount(), 0);
+    });
+
+    test("refuses a code another request claimed first", async () => {
+      const factor = await enrollFactor();
+      mock.method(databaseService, "claimTotpStep", async () => false);
+
+      assert.equal(await stepUpService.verifyCode(factor, CODE), false);
+    });
+  });
+
+  describe("step-up tokens", () => {
+    test("are accepted for the user and session they were issued to", () => {
+      const { token } = stepUpService.issueToken(user);
+      assert.equal(stepUpService.verifyToken(user, token), true);
+    });
+
+    test("are refused in another session of the same user", () => {
+      const { token } = stepUpService.issueToken(user);
+      const otherSession = { ...user, sessionId: "9f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a" };
+      assert.equal(stepUpService.verifyToken(otherSession, token), false);
+    });
+
+    test("are refused for another user", () => {
+      const { token } = stepUpService.issueToken(user);
+      const otherUser = { ...user, userId: "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f" };
+      assert.equal(stepUpService.verifyToken(otherUser, token), false);
+    });
+
+    test("expire after STEP_UP_TOKEN_TTL_MS", () => {
+      const { token } = stepUpService.issueToken(user);
+      mock.timers.tick(config.stepUp.tokenTtlMs + 1000);
+      assert.equal(stepUpService.verifyToken(user, token), false);
+    });
+
+    test("are refused if tampered with", () => {
+      const { token } = stepUpService.issueToken(user);
+      const [header, payload, signature] = token.split(".");
+      const forged = Buffer.from(
+        JSON.stringify({ ...JSON.parse(Buffer.from(payload, "base64url").toString()), sid: "other" })
+      ).toString("base64url");
+      assert.equal(stepUpService.verifyToken(user, [header, forged, signature].join(".")), false);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from "crypto";
+import jwt, { JwtPayload } from "jsonwebtoken";
+import { getAddress, parseEther } from "ethers";
+import { config } from "../config";
+import { AuthenticatedUser, TotpFactor } from "../types";
+import { databaseService } from "./database";
+import { totpService } from "./totp";
+
+const STEP_UP_AUDIENCE = "step-up";
+
+// Separate keys for each use of the step-up secret
+const deriveKey = (purpose: string): Buffer =>
+  createHmac("sha256", config.stepUp.secret).update(purpose).digest();
+
+const encryptionKey = deriveKey("totp-secret-encryption");
+const tokenKey = deriveKey("step-up-token");
+
+/**
+ * Encrypt a TOTP secret for storage (AES-256-GCM, iv:tag:ciphertext)
+ */
+const encryptSecret = (secret: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(":");
+};
+
+const decryptSecret = (stored: string): string => {
+  const [iv, tag, ciphertext] = stored.split(":").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+};
+
+export const stepUpService = {
+  /**
+   * Start TOTP enrollment with a new secret
+   * The factor stays inactive until a code from it is confirmed with activate()
+   */
+  async enroll(
+    user: AuthenticatedUser
+  ): Promise<{ secret: string; otpauthUrl: string }> {
+    const secret = totpService.generateSecret();
+
+    await databaseService.saveTotpFactor(user.userId, {
+      secret: encryptSecret(secret),
+      enabled: false,
+      last_used_step: 0,
+      enabled_at: null,
+    });
+
+    return {
+      secret,
+      otpauthUrl: totpService.buildOtpauthUrl(
+        secret,
+        user.email || user.userId,
+        config.stepUp.totpIssuer
+      ),
+    };
+  },
+
+  /**
+   * Check a TOTP code against a user's factor and use it up
+   */
+  async verifyCode(factor: TotpFactor, code: string): Promise<boolean> {
+    const step = totpService.verifyCode(decryptSecret(factor.secret), code);
+    if (step === null || step <= factor.last_used_step) {
+      return false;
+    }
+
+    return databaseService.claimTotpStep(factor.supabase_id, step);
+  },
+
+  /**
+   * Turn on an enrolled factor once the user proves they can generate codes
+   */
+  async activate(factor: TotpFactor, code: string): Promise<boolean> {
+    if (!(await this.verifyCode(factor, code))) {
+      return false;
+    }
+
+    await databaseService.saveTotpFactor(factor.supabase_id, {
+      enabled: true,
+      enabled_at: new Date().toISOString(),
+    });
+    return true;
+  },
+
+  /**
+   * Issue a short-lived token that stands in for a TOTP code on later sends
+   * The token is bound to the user and the session it was issued to
+   */
+  issueToken(user: AuthenticatedUser): { token: string; expiresAt: string } {
+    const expiresAt = new Date(Date.now() + config.stepUp.tokenTtlMs);
+    const token = jwt.sign({ sid: user.sessionId }, tokenKey, {
+      algorithm: "HS256",
+      audience: STEP_UP_AUDIENCE,
+      subject: user.userId,
+      expiresIn: Math.floor(config.stepUp.tokenTtlMs / 1000),
+    });
+
+    return { token, expiresAt: expiresAt.toISOString() };
+  },
+
+  /**
+   * Check a step-up token for the current user and session
+   */
+  verifyToken(user: AuthenticatedUser, token: string): boolean {
+    try {
+      const payload = jwt.verify(token, tokenKey, {
+        algorithms: ["HS256"],
+        audience: STEP_UP_AUDIENCE,
+        subject: user.userId,
+      }) as JwtPayload;
+      return payload.sid === user.sessionId;
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Native-asset amount above which a send needs step-up
+   */
+  getThreshold(factor: TotpFactor): bigint {
+    return factor.step_up_threshold
+      ? BigInt(factor.step_up_threshold)
+      : parseEther(config.stepUp.thresholdEth);
+  },
+
+  /**
+   * Check whether a send may go ahead without further authentication
+   * Users with an active TOTP factor must present a fresh code or a step-up
+   * token for sends above their threshold, for every token send (the
+   * threshold is in the native asset), and for recipients they have not
+   * sent to or saved in their address book. Returns a reason if step-up is
+   * needed and was not satisfied, or null if the send is allowed.
+   */
+  async checkSend(
+    user: AuthenticatedUser,
+    send: { to: string; token: string | null; value: bigint },
+    credentials: { code?: string; token?: string }
+  ): Promise<string | null> {
+    const factor = await databaseService.getTotpFactor(user.userId);
+    if (!factor?.enabled) {
+      return null;
+    }
+
+    const to = getAddress(send.to);
+    let reason: string | null = null;
+    if (send.token) {
+      reason = "Token transfers always need step-up";
+    } else if (send.value > this.getThreshold(factor)) {
+      reason = "Amount is above your step-up threshold";
+    } else {
+      const [sentBefore, saved] = await Promise.all([
+        databaseService.hasTransferredTo(user.userId, to),
+        databaseService.getAddressByValue(user.userId, to),
+      ]);
+      if (!sentBefore && !saved) {
+        reason = "Recipient is a new address";
+      }
+    }
+
+    if (!reason) {
+      return null;
+    }
+    if (credentials.token && this.verifyToken(user, credentials.token)) {
+      return null;
+    }
+    if (credentials.code && (await this.verifyCode(factor, credentials.code))) {
+      return null;
+    }
+
+    return credentials.token || credentials.code
+      ? `${reason}; the TOTP code or step-up token is invalid or already used`
+      : `${reason}; send a TOTP code in X-TOTP-Code or a step-up token in X-Step-Up-Token`;
+  },
+};
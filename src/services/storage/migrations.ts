@@ -0,0 +1,101 @@
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { Pool } from "pg";
+import { Migration, MigrationReport } from "../../types";
+
+// Same depth from src/ and dist/
+const MIGRATIONS_DIR = path.join(__dirname, "../../..", "migrations");
+
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/;
+
+// Held while migrating so instances starting together don't race
+const MIGRATION_LOCK_ID = 7254810361;
+
+/**
+ * Read the migration files, ordered by version
+ */
+const loadMigrations = (): Migration[] => {
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .filter((file) => MIGRATION_FILE.test(file))
+    .map((file) => {
+      const [, version, name] = file.match(MIGRATION_FILE)!;
+      const sql = readFileSync(path.join(MIGRATIONS_DIR, file), "utf8");
+      return {
+        file,
+        version: Number(version),
+        name,
+        sql,
+        checksum: createHash("sha256").update(sql).digest("hex"),
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migrations[index - 1].version === migration.version) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+  });
+
+  return migrations;
+};
+
+/**
+ * Apply every migration not yet recorded in schema_migrations
+ * Each migration runs in its own transaction; the first failure stops the run.
+ * Applied migrations must not be edited: changes are reported, not re-run.
+ */
+export const runMigrations = async (pool: Pool): Promise<MigrationReport> => {
+  const migrations = loadMigrations();
+  const report: MigrationReport = { applied: [], modified: [] };
+  const client = await pool.connect();
+
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+
+    const { rows } = await client.query<{ version: number; checksum: string }>(
+      "SELECT version, checksum FROM schema_migrations"
+    );
+    const applied = new Map(rows.map((row) => [row.version, row.checksum]));
+
+    for (const migration of migrations) {
+      if (applied.has(migration.version)) {
+        if (applied.get(migration.version) !== migration.checksum) {
+          report.modified.push(migration.file);
+        }
+        continue;
+      }
+
+      try {
+        await client.query("BEGIN");
+        await client.query(migration.sql);
+        await client.query(
+          "INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)",
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query("COMMIT");
+      } catch (error: any) {
+        await client.query("ROLLBACK");
+        throw new Error(`Failed to apply migration ${migration.file}: ${error.message}`);
+      }
+
+      report.applied.push(migration.file);
+    }
+  } finally {
+    await client
+      .query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_ID])
+      .catch(() => undefined);
+    client.release();
+  }
+
+  return report;
+};
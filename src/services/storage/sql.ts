@@ -0,0 +1,1432 @@
+import { Pool, QueryResultRow, types } from "pg";
+import {
+  UserWallet,
+  TransactionRecord,
+  TransactionStatus,
+  TransactionHistoryQuery,
+  IdempotencyRecord,
+  SpendingLimitsRecord,
+  TokenSpendingLimitsRecord,
+  AddressBookEntry,
+  SecuritySettings,
+  TotpFactor,
+  ProvisioningJob,
+  WebhookEndpoint,
+  WebhookDelivery,
+  WebhookAttempt,
+  DepositRecord,
+  TransactionHistoryRecord,
+  AuditLogEntry,
+  AuditLogQuery,
+  StorageRepository,
+} from "../../types";
+import { logger } from "../logger";
+import { metricsService } from "../metrics";
+import { runMigrations } from "./migrations";
+
+type Row = Record<string, any>;
+
+// JSONB columns; other values go to pg as they are (arrays become TEXT[])
+const JSON_COLUMNS = new Set(["payload", "details", "response_body"]);
+
+const TIMESTAMPTZ_OID = 1184;
+const INT8_OID = 20;
+
+/**
+ * Timestamps come back as ISO 8601 strings and BIGINTs as numbers, the
+ * shapes PostgREST returns, so both backends give callers the same rows.
+ * Text is kept as is rather than parsed into a Date, which drops microseconds.
+ */
+const parseTimestamp = (value: string): string =>
+  value.replace(" ", "T").replace(/([+-]\d{2})$/, "$1:00");
+
+const getTypeParser = ((oid: number, format?: any) => {
+  if (oid === TIMESTAMPTZ_OID) return parseTimestamp;
+  if (oid === INT8_OID) return Number;
+  return types.getTypeParser(oid, format);
+}) as typeof types.getTypeParser;
+
+const toParam = (column: string, value: any): any =>
+  JSON_COLUMNS.has(column) && value !== null ? JSON.stringify(value) : value;
+
+// A unique or foreign key violation is an answer about our input, not an outage
+const isDependencyError = (error: any): boolean => !String(error.code || "").startsWith("23");
+
+// Methods that update a single row by key fail when it doesn't exist
+const onlyRow = <T>(rows: T[]): T => {
+  if (rows.length !== 1) {
+    throw new Error(`Expected one row, found ${rows.length}`);
+  }
+  return rows[0];
+};
+
+/**
+ * Storage on a direct Postgres connection, e.g. a local database for
+ * development and tests; the schema comes from migrations/
+ */
+export const createSqlStorage = (connectionString: string): StorageRepository => {
+  const pool = new Pool({ connectionString, types: { getTypeParser } });
+
+  // Errors on idle connections would otherwise crash the process
+  pool.on("error", (error) => logger.error("Idle database connection failed", { error }));
+
+  /**
+   * Run a statement, timed under the calling method's name
+   */
+  const run = async <T extends QueryResultRow = Row>(
+    operation: string,
+    text: string,
+    values: any[] = []
+  ): Promise<T[]> => {
+    const startedAt = process.hrtime.bigint();
+    try {
+      const { rows } = await pool.query<T>(text, values);
+      metricsService.recordDependencyCall(
+        "postgres",
+        operation,
+        Number(process.hrtime.bigint() - startedAt) / 1e9,
+        false
+      );
+      return rows;
+    } catch (error) {
+      metricsService.recordDependencyCall(
+        "postgres",
+        operation,
+        Number(process.hrtime.bigint() - startedAt) / 1e9,
+        isDependencyError(error)
+      );
+      throw error;
+    }
+  };
+
+  /**
+   * INSERT rows and return them; undefined values take the column default
+   */
+  const insert = <T extends QueryResultRow = Row>(
+    operation: string,
+    table: string,
+    rows: Row[],
+    onConflict: string = ""
+  ): Promise<T[]> => {
+    const columns = [
+      ...new Set(
+        rows.flatMap((row) => Object.keys(row).filter((column) => row[column] !== undefined))
+      ),
+    ];
+    const values: any[] = [];
+    const tuples = rows.map(
+      (row) =>
+        `(${columns
+          .map((column) => {
+            if (row[column] === undefined) return "DEFAULT";
+            values.push(toParam(column, row[column]));
+            return `$${values.length}`;
+          })
+          .join(", ")})`
+    );
+
+    return run<T>(
+      operation,
+      `INSERT INTO ${table} (${columns.join(", ")}) VALUES ${tuples.join(", ")} ${onConflict} RETURNING *`,
+      values
+    );
+  };
+
+  /**
+   * INSERT a row, or update the given columns of the row with the same key
+   */
+  const upsert = async <T extends QueryResultRow = Row>(
+    operation: string,
+    table: string,
+    row: Row,
+    key: string[]
+  ): Promise<T> => {
+    const assignments = Object.keys(row)
+      .filter((column) => row[column] !== undefined && !key.includes(column))
+      .map((column) => `${column} = EXCLUDED.${column}`);
+
+    const rows = await insert<T>(
+      operation,
+      table,
+      [row],
+      `ON CONFLICT (${key.join(", ")}) DO UPDATE SET ${assignments.join(", ")}`
+    );
+    return rows[0];
+  };
+
+  /**
+   * UPDATE the rows matching every column in where; returns the updated rows
+   */
+  const update = <T extends QueryResultRow = Row>(
+    operation: string,
+    table: string,
+    fields: Row,
+    where: Row
+  ): Promise<T[]> => {
+    const values: any[] = [];
+    const assignments = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([column, value]) => {
+        values.push(toParam(column, value));
+        return `${column} = $${values.length}`;
+      });
+    const conditions = Object.entries(where).map(([column, value]) => {
+      values.push(value);
+      return `${column} = $${values.length}`;
+    });
+
+    return run<T>(
+      operation,
+      `UPDATE ${table} SET ${assignments.join(", ")} WHERE ${conditions.join(" AND ")} RETURNING *`,
+      values
+    );
+  };
+
+  return {
+    /**
+     * Store the mapping from Supabase user ID to Para wallet ID
+     */
+    async saveUserWallet(
+      supabaseId: string,
+      paraWalletId: string,
+      walletAddress?: string
+    ): Promise<UserWallet> {
+      try {
+        const rows = await insert<UserWallet>("saveUserWallet", "user_wallets", [
+          {
+            supabase_id: supabaseId,
+            para_wallet_id: paraWalletId,
+            wallet_address: walletAddress,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          },
+        ]);
+        return rows[0];
+      } catch (error: any) {
+        throw new Error(`Failed to save user wallet: ${error.message}`);
+      }
+    },
+
+    /**
+     * Retrieve wallet ID for a Supabase user
+     */
+    async getUserWallet(supabaseId: string): Promise<UserWallet | null> {
+      try {
+        const rows = await run<UserWallet>(
+          "getUserWallet",
+          "SELECT * FROM user_wallets WHERE supabase_id = $1",
+          [supabaseId]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch user wallet: ${error.message}`);
+      }
+    },
+
+    /**
+     * Update wallet address after it becomes ready
+     * Only sets an address that is not stored yet; returns null if it was
+     */
+    async updateWalletAddress(
+      supabaseId: string,
+      walletAddress: string
+    ): Promise<UserWallet | null> {
+      try {
+        const rows = await run<UserWallet>(
+          "updateWalletAddress",
+          `UPDATE user_wallets SET wallet_address = $1, updated_at = $2
+           WHERE supabase_id = $3 AND wallet_address IS NULL RETURNING *`,
+          [walletAddress, new Date().toISOString(), supabaseId]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to update wallet address: ${error.message}`);
+      }
+    },
+
+    /**
+     * Count wallets Para is still creating (no address recorded yet)
+     */
+    async countCreatingWallets(): Promise<number> {
+      try {
+        const [{ count }] = await run<{ count: number }>(
+          "countCreatingWallets",
+          "SELECT count(*) AS count FROM user_wallets WHERE wallet_address IS NULL"
+        );
+        return count;
+      } catch (error: any) {
+        throw new Error(`Failed to count creating wallets: ${error.message}`);
+      }
+    },
+
+    /**
+     * List every wallet address to watch for deposits
+     */
+    async listWalletAddresses(): Promise<{ supabase_id: string; wallet_address: string }[]> {
+      try {
+        return await run(
+          "listWalletAddresses",
+          "SELECT supabase_id, wallet_address FROM user_wallets WHERE wallet_address IS NOT NULL"
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to list wallet addresses: ${error.message}`);
+      }
+    },
+
+    /**
+     * Retrieve a user's wallet provisioning job
+     */
+    async getProvisioningJob(supabaseId: string): Promise<ProvisioningJob | null> {
+      try {
+        const rows = await run<ProvisioningJob>(
+          "getProvisioningJob",
+          "SELECT * FROM provisioning_jobs WHERE supabase_id = $1",
+          [supabaseId]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch provisioning job: ${error.message}`);
+      }
+    },
+
+    /**
+     * Create or update a user's wallet provisioning job
+     */
+    async saveProvisioningJob(
+      supabaseId: string,
+      job: Partial<Omit<ProvisioningJob, "supabase_id" | "created_at" | "updated_at">>
+    ): Promise<ProvisioningJob> {
+      try {
+        return await upsert<ProvisioningJob>(
+          "saveProvisioningJob",
+          "provisioning_jobs",
+          { ...job, supabase_id: supabaseId, updated_at: new Date().toISOString() },
+          ["supabase_id"]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to save provisioning job: ${error.message}`);
+      }
+    },
+
+    /**
+     * Record a transaction sent from a user's wallet
+     */
+    async saveTransaction(
+      record: Omit<TransactionRecord, "id" | "created_at" | "updated_at">
+    ): Promise<TransactionRecord> {
+      try {
+        const rows = await insert<TransactionRecord>("saveTransaction", "transactions", [
+          {
+            ...record,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          },
+        ]);
+        return rows[0];
+      } catch (error: any) {
+        throw new Error(`Failed to save transaction: ${error.message}`);
+      }
+    },
+
+    /**
+     * Retrieve a recorded transaction by hash
+     */
+    async getTransactionByHash(txHash: string): Promise<TransactionRecord | null> {
+      try {
+        const rows = await run<TransactionRecord>(
+          "getTransactionByHash",
+          "SELECT * FROM transactions WHERE tx_hash = $1",
+          [txHash]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch transaction: ${error.message}`);
+      }
+    },
+
+    /**
+     * Update the status of a recorded transaction
+     * Extra fields (block number, gas used, error) are merged into the row
+     */
+    async updateTransactionStatus(
+      txHash: string,
+      status: TransactionStatus,
+      fields: Partial<
+        Pick<
+          TransactionRecord,
+          "block_number" | "confirmations" | "gas_used" | "error" | "confirmed_at"
+        >
+      > = {}
+    ): Promise<TransactionRecord> {
+      try {
+        const rows = await update<TransactionRecord>(
+          "updateTransactionStatus",
+          "transactions",
+          { ...fields, status, updated_at: new Date().toISOString() },
+          { tx_hash: txHash }
+        );
+        return onlyRow(rows);
+      } catch (error: any) {
+        throw new Error(`Failed to update transaction: ${error.message}`);
+      }
+    },
+
+    /**
+     * Link a transaction to the speed-up or cancel transaction replacing it
+     */
+    async linkReplacement(txHash: string, replacedByTxHash: string): Promise<void> {
+      try {
+        await update(
+          "linkReplacement",
+          "transactions",
+          { replaced_by_tx_hash: replacedByTxHash, updated_at: new Date().toISOString() },
+          { tx_hash: txHash }
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to link replacement transaction: ${error.message}`);
+      }
+    },
+
+    /**
+     * List pending transactions across all users, oldest first
+     */
+    async listPendingTransactions(limit: number = 100): Promise<TransactionRecord[]> {
+      try {
+        return await run<TransactionRecord>(
+          "listPendingTransactions",
+          "SELECT * FROM transactions WHERE status = 'pending' ORDER BY created_at ASC LIMIT $1",
+          [limit]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to list pending transactions: ${error.message}`);
+      }
+    },
+
+    /**
+     * Count transactions still waiting for confirmations
+     */
+    async countPendingTransactions(): Promise<number> {
+      try {
+        const [{ count }] = await run<{ count: number }>(
+          "countPendingTransactions",
+          "SELECT count(*) AS count FROM transactions WHERE status = 'pending'"
+        );
+        return count;
+      } catch (error: any) {
+        throw new Error(`Failed to count pending transactions: ${error.message}`);
+      }
+    },
+
+    /**
+     * List nonces of transactions still pending from an address on a chain
+     */
+    async listPendingNonces(fromAddress: string, chainId: number): Promise<number[]> {
+      try {
+        const rows = await run<{ nonce: number }>(
+          "listPendingNonces",
+          `SELECT nonce FROM transactions
+           WHERE from_address = $1 AND chain_id = $2 AND status = 'pending'`,
+          [fromAddress, chainId]
+        );
+        return rows.map((row) => row.nonce);
+      } catch (error: any) {
+        throw new Error(`Failed to list pending nonces: ${error.message}`);
+      }
+    },
+
+    /**
+     * List every transaction sent from an address on a chain with one nonce
+     */
+    async listTransactionsAtNonce(
+      fromAddress: string,
+      chainId: number,
+      nonce: number
+    ): Promise<TransactionRecord[]> {
+      try {
+        return await run<TransactionRecord>(
+          "listTransactionsAtNonce",
+          `SELECT * FROM transactions
+           WHERE from_address = $1 AND chain_id = $2 AND nonce = $3
+           ORDER BY created_at`,
+          [fromAddress, chainId, nonce]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to list transactions at nonce: ${error.message}`);
+      }
+    },
+
+    /**
+     * List a user's transactions and deposits, newest first
+     * Supports filtering by status, chain and created_at range
+     */
+    async listTransactions(
+      supabaseId: string,
+      query: TransactionHistoryQuery
+    ): Promise<{ transactions: TransactionHistoryRecord[]; total: number }> {
+      const values: any[] = [supabaseId];
+      const conditions = ["supabase_id = $1"];
+      const filter = (condition: string, value: any) => {
+        values.push(value);
+        conditions.push(`${condition} $${values.length}`);
+      };
+
+      if (query.status) filter("status =", query.status);
+      if (query.chainId !== undefined) filter("chain_id =", query.chainId);
+      if (query.since) filter("created_at >=", query.since);
+      if (query.until) filter("created_at <=", query.until);
+
+      const where = conditions.join(" AND ");
+
+      try {
+        const [transactions, [{ count }]] = await Promise.all([
+          run<TransactionHistoryRecord>(
+            "listTransactions",
+            `SELECT * FROM transaction_history WHERE ${where}
+             ORDER BY created_at DESC LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+            [...values, query.limit, query.offset]
+          ),
+          run<{ count: number }>(
+            "listTransactions",
+            `SELECT count(*) AS count FROM transaction_history WHERE ${where}`,
+            values
+          ),
+        ]);
+        return { transactions, total: count };
+      } catch (error: any) {
+        throw new Error(`Failed to list transactions: ${error.message}`);
+      }
+    },
+
+    /**
+     * List a user's transfers created since a point in time
+     * Excludes sends that never went through and speed-up/cancel transactions
+     */
+    async listTransfersSince(
+      supabaseId: string,
+      since: string
+    ): Promise<Pick<TransactionRecord, "value" | "token_address" | "chain_id" | "created_at">[]> {
+      try {
+        return await run(
+          "listTransfersSince",
+          `SELECT value, token_address, chain_id, created_at FROM transactions
+           WHERE supabase_id = $1 AND kind = 'transfer'
+             AND status IN ('pending', 'success', 'replaced') AND created_at >= $2`,
+          [supabaseId, since]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to list recent transfers: ${error.message}`);
+      }
+    },
+
+    /**
+     * Check whether a user has sent a transfer to an address before
+     */
+    async hasTransferredTo(supabaseId: string, toAddress: string): Promise<boolean> {
+      try {
+        const rows = await run(
+          "hasTransferredTo",
+          `SELECT 1 FROM transactions
+           WHERE supabase_id = $1 AND kind = 'transfer' AND to_address = $2
+             AND status IN ('pending', 'success', 'replaced')
+           LIMIT 1`,
+          [supabaseId, toAddress]
+        );
+        return rows.length > 0;
+      } catch (error: any) {
+        throw new Error(`Failed to check previous transfers: ${error.message}`);
+      }
+    },
+
+    /**
+     * Record deposits found by the block scanner
+     * Deposits already recorded (same chain, hash and log index) are skipped,
+     * except dropped ones, which go back to pending in their new block;
+     * returns only the new and revived ones
+     */
+    async saveDeposits(
+      deposits: Omit<DepositRecord, "id" | "created_at" | "updated_at" | "confirmed_at">[]
+    ): Promise<DepositRecord[]> {
+      if (deposits.length === 0) return [];
+
+      const now = new Date().toISOString();
+      try {
+        return await insert<DepositRecord>(
+          "saveDeposits",
+          "deposits",
+          deposits.map((deposit) => ({ ...deposit, created_at: now, updated_at: now })),
+          `ON CONFLICT (chain_id, tx_hash, log_index) DO UPDATE SET
+             block_number = EXCLUDED.block_number, block_hash = EXCLUDED.block_hash,
+             confirmations = EXCLUDED.confirmations, status = EXCLUDED.status,
+             updated_at = EXCLUDED.updated_at
+           WHERE deposits.status = 'dropped'`
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to save deposits: ${error.message}`);
+      }
+    },
+
+    /**
+     * List deposits on a chain still waiting for confirmations
+     */
+    async listPendingDeposits(chainId: number, limit: number = 500): Promise<DepositRecord[]> {
+      try {
+        return await run<DepositRecord>(
+          "listPendingDeposits",
+          `SELECT * FROM deposits WHERE chain_id = $1 AND status = 'pending'
+           ORDER BY block_number ASC LIMIT $2`,
+          [chainId, limit]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to list pending deposits: ${error.message}`);
+      }
+    },
+
+    /**
+     * Update a deposit's status and confirmation count
+     */
+    async updateDeposit(
+      id: string,
+      fields: Partial<Pick<DepositRecord, "status" | "confirmations" | "confirmed_at">>
+    ): Promise<DepositRecord> {
+      try {
+        const rows = await update<DepositRecord>(
+          "updateDeposit",
+          "deposits",
+          { ...fields, updated_at: new Date().toISOString() },
+          { id }
+        );
+        return onlyRow(rows);
+      } catch (error: any) {
+        throw new Error(`Failed to update deposit: ${error.message}`);
+      }
+    },
+
+    /**
+     * Get the last block the deposit scanner finished on a chain
+     * Returns null before the first scan
+     */
+    async getScannerCursor(chainId: number): Promise<number | null> {
+      try {
+        const rows = await run<{ last_block: number }>(
+          "getScannerCursor",
+          "SELECT last_block FROM block_scanner_state WHERE chain_id = $1",
+          [chainId]
+        );
+        return rows.length > 0 ? Number(rows[0].last_block) : null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch scanner state: ${error.message}`);
+      }
+    },
+
+    /**
+     * Record the last block the deposit scanner finished on a chain
+     */
+    async saveScannerCursor(chainId: number, lastBlock: number): Promise<void> {
+      try {
+        await upsert(
+          "saveScannerCursor",
+          "block_scanner_state",
+          { chain_id: chainId, last_block: lastBlock, updated_at: new Date().toISOString() },
+          ["chain_id"]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to save scanner state: ${error.message}`);
+      }
+    },
+
+    /**
+     * Retrieve per-user spending limit overrides
+     */
+    async getSpendingLimits(supabaseId: string): Promise<SpendingLimitsRecord | null> {
+      try {
+        const rows = await run<SpendingLimitsRecord>(
+          "getSpendingLimits",
+          "SELECT * FROM spending_limits WHERE supabase_id = $1",
+          [supabaseId]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch spending limits: ${error.message}`);
+      }
+    },
+
+    /**
+     * Create or update per-user spending limit overrides
+     */
+    async saveSpendingLimits(
+      limits: Omit<SpendingLimitsRecord, "created_at" | "updated_at">
+    ): Promise<SpendingLimitsRecord> {
+      try {
+        return await upsert<SpendingLimitsRecord>(
+          "saveSpendingLimits",
+          "spending_limits",
+          { ...limits, updated_at: new Date().toISOString() },
+          ["supabase_id"]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to save spending limits: ${error.message}`);
+      }
+    },
+
+    /**
+     * List a user's per-token spending limit overrides
+     */
+    async listTokenSpendingLimits(supabaseId: string): Promise<TokenSpendingLimitsRecord[]> {
+      try {
+        return await run<TokenSpendingLimitsRecord>(
+          "listTokenSpendingLimits",
+          `SELECT * FROM token_spending_limits WHERE supabase_id = $1
+           ORDER BY chain_id ASC, token_address ASC`,
+          [supabaseId]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to list token spending limits: ${error.message}`);
+      }
+    },
+
+    /**
+     * Retrieve a user's overrides for one token on one chain
+     */
+    async getTokenSpendingLimits(
+      supabaseId: string,
+      chainId: number,
+      token: string
+    ): Promise<TokenSpendingLimitsRecord | null> {
+      try {
+        const rows = await run<TokenSpendingLimitsRecord>(
+          "getTokenSpendingLimits",
+          `SELECT * FROM token_spending_limits
+           WHERE supabase_id = $1 AND chain_id = $2 AND token_address = $3`,
+          [supabaseId, chainId, token.toLowerCase()]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch token spending limits: ${error.message}`);
+      }
+    },
+
+    /**
+     * Create or update a user's overrides for one token on one chain
+     */
+    async saveTokenSpendingLimits(
+      limits: Omit<TokenSpendingLimitsRecord, "created_at" | "updated_at">
+    ): Promise<TokenSpendingLimitsRecord> {
+      try {
+        return await upsert<TokenSpendingLimitsRecord>(
+          "saveTokenSpendingLimits",
+          "token_spending_limits",
+          {
+            ...limits,
+            token_address: limits.token_address.toLowerCase(),
+            updated_at: new Date().toISOString(),
+          },
+          ["supabase_id", "chain_id", "token_address"]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to save token spending limits: ${error.message}`);
+      }
+    },
+
+    /**
+     * Remove a user's overrides for one token on one chain
+     * Returns false if there were none
+     */
+    async deleteTokenSpendingLimits(
+      supabaseId: string,
+      chainId: number,
+      token: string
+    ): Promise<boolean> {
+      try {
+        const rows = await run(
+          "deleteTokenSpendingLimits",
+          `DELETE FROM token_spending_limits
+           WHERE supabase_id = $1 AND chain_id = $2 AND token_address = $3
+           RETURNING supabase_id`,
+          [supabaseId, chainId, token.toLowerCase()]
+        );
+        return rows.length > 0;
+      } catch (error: any) {
+        throw new Error(`Failed to delete token spending limits: ${error.message}`);
+      }
+    },
+
+    /**
+     * List a user's saved addresses, oldest first
+     */
+    async listAddresses(supabaseId: string): Promise<AddressBookEntry[]> {
+      try {
+        return await run<AddressBookEntry>(
+          "listAddresses",
+          "SELECT * FROM address_book WHERE supabase_id = $1 ORDER BY created_at ASC",
+          [supabaseId]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to list addresses: ${error.message}`);
+      }
+    },
+
+    /**
+     * Find a saved address by its value
+     */
+    async getAddressByValue(
+      supabaseId: string,
+      address: string
+    ): Promise<AddressBookEntry | null> {
+      try {
+        const rows = await run<AddressBookEntry>(
+          "getAddressByValue",
+          "SELECT * FROM address_book WHERE supabase_id = $1 AND address = $2",
+          [supabaseId, address]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch address: ${error.message}`);
+      }
+    },
+
+    /**
+     * Save a new address; returns null if the user already saved it
+     */
+    async saveAddress(
+      entry: Omit<AddressBookEntry, "id" | "created_at" | "updated_at">
+    ): Promise<AddressBookEntry | null> {
+      try {
+        const rows = await insert<AddressBookEntry>("saveAddress", "address_book", [
+          {
+            ...entry,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          },
+        ]);
+        return rows[0];
+      } catch (error: any) {
+        // 23505: unique violation, address already saved
+        if (error.code === "23505") {
+          return null;
+        }
+        throw new Error(`Failed to save address: ${error.message}`);
+      }
+    },
+
+    /**
+     * Rename a saved address; returns null if it doesn't belong to the user
+     */
+    async updateAddressLabel(
+      supabaseId: string,
+      id: string,
+      label: string
+    ): Promise<AddressBookEntry | null> {
+      try {
+        const rows = await update<AddressBookEntry>(
+          "updateAddressLabel",
+          "address_book",
+          { label, updated_at: new Date().toISOString() },
+          { supabase_id: supabaseId, id }
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to update address: ${error.message}`);
+      }
+    },
+
+    /**
+     * Delete a saved address; returns false if it doesn't belong to the user
+     */
+    async deleteAddress(supabaseId: string, id: string): Promise<boolean> {
+      try {
+        const rows = await run(
+          "deleteAddress",
+          "DELETE FROM address_book WHERE supabase_id = $1 AND id = $2 RETURNING id",
+          [supabaseId, id]
+        );
+        return rows.length > 0;
+      } catch (error: any) {
+        throw new Error(`Failed to delete address: ${error.message}`);
+      }
+    },
+
+    /**
+     * Retrieve a user's security settings
+     */
+    async getSecuritySettings(supabaseId: string): Promise<SecuritySettings | null> {
+      try {
+        const rows = await run<SecuritySettings>(
+          "getSecuritySettings",
+          "SELECT * FROM security_settings WHERE supabase_id = $1",
+          [supabaseId]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch security settings: ${error.message}`);
+      }
+    },
+
+    /**
+     * Create or update a user's security settings
+     */
+    async saveSecuritySettings(
+      supabaseId: string,
+      settings: Partial<Omit<SecuritySettings, "supabase_id" | "created_at" | "updated_at">>
+    ): Promise<SecuritySettings> {
+      try {
+        return await upsert<SecuritySettings>(
+          "saveSecuritySettings",
+          "security_settings",
+          { ...settings, supabase_id: supabaseId, updated_at: new Date().toISOString() },
+          ["supabase_id"]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to save security settings: ${error.message}`);
+      }
+    },
+
+    /**
+     * Retrieve a user's TOTP factor
+     */
+    async getTotpFactor(supabaseId: string): Promise<TotpFactor | null> {
+      try {
+        const rows = await run<TotpFactor>(
+          "getTotpFactor",
+          "SELECT * FROM totp_factors WHERE supabase_id = $1",
+          [supabaseId]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch TOTP factor: ${error.message}`);
+      }
+    },
+
+    /**
+     * Create or update a user's TOTP factor
+     */
+    async saveTotpFactor(
+      supabaseId: string,
+      factor: Partial<Omit<TotpFactor, "supabase_id" | "created_at" | "updated_at">>
+    ): Promise<TotpFactor> {
+      try {
+        return await upsert<TotpFactor>(
+          "saveTotpFactor",
+          "totp_factors",
+          { ...factor, supabase_id: supabaseId, updated_at: new Date().toISOString() },
+          ["supabase_id"]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to save TOTP factor: ${error.message}`);
+      }
+    },
+
+    /**
+     * Mark a TOTP time step as used
+     * Returns false if that step or a later one was already used
+     */
+    async claimTotpStep(supabaseId: string, step: number): Promise<boolean> {
+      try {
+        const rows = await run(
+          "claimTotpStep",
+          `UPDATE totp_factors SET last_used_step = $1, updated_at = $2
+           WHERE supabase_id = $3 AND last_used_step < $1 RETURNING supabase_id`,
+          [step, new Date().toISOString(), supabaseId]
+        );
+        return rows.length > 0;
+      } catch (error: any) {
+        throw new Error(`Failed to record TOTP code: ${error.message}`);
+      }
+    },
+
+    /**
+     * Delete a user's TOTP factor
+     */
+    async deleteTotpFactor(supabaseId: string): Promise<void> {
+      try {
+        await run("deleteTotpFactor", "DELETE FROM totp_factors WHERE supabase_id = $1", [
+          supabaseId,
+        ]);
+      } catch (error: any) {
+        throw new Error(`Failed to delete TOTP factor: ${error.message}`);
+      }
+    },
+
+    /**
+     * Record a logged-out session so its access tokens are refused
+     */
+    async revokeSession(
+      sessionId: string,
+      supabaseId: string,
+      expiresAt: string
+    ): Promise<void> {
+      try {
+        await upsert(
+          "revokeSession",
+          "revoked_sessions",
+          {
+            session_id: sessionId,
+            supabase_id: supabaseId,
+            revoked_at: new Date().toISOString(),
+            expires_at: expiresAt,
+          },
+          ["session_id"]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to revoke session: ${error.message}`);
+      }
+    },
+
+    /**
+     * Check whether a session was logged out
+     */
+    async isSessionRevoked(sessionId: string): Promise<boolean> {
+      try {
+        const rows = await run(
+          "isSessionRevoked",
+          "SELECT session_id FROM revoked_sessions WHERE session_id = $1",
+          [sessionId]
+        );
+        return rows.length > 0;
+      } catch (error: any) {
+        throw new Error(`Failed to check session: ${error.message}`);
+      }
+    },
+
+    /**
+     * Delete revocations whose session's tokens have all expired
+     * Returns how many were deleted
+     */
+    async deleteExpiredSessionRevocations(): Promise<number> {
+      try {
+        const rows = await run(
+          "deleteExpiredSessionRevocations",
+          "DELETE FROM revoked_sessions WHERE expires_at <= NOW() RETURNING session_id"
+        );
+        return rows.length;
+      } catch (error: any) {
+        throw new Error(`Failed to delete expired session revocations: ${error.message}`);
+      }
+    },
+
+    /**
+     * List a user's webhook endpoints
+     */
+    async listWebhookEndpoints(supabaseId: string): Promise<WebhookEndpoint[]> {
+      try {
+        return await run<WebhookEndpoint>(
+          "listWebhookEndpoints",
+          "SELECT * FROM webhook_endpoints WHERE supabase_id = $1 ORDER BY created_at ASC",
+          [supabaseId]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to list webhook endpoints: ${error.message}`);
+      }
+    },
+
+    /**
+     * Retrieve one of a user's webhook endpoints
+     */
+    async getWebhookEndpoint(
+      supabaseId: string,
+      id: string
+    ): Promise<WebhookEndpoint | null> {
+      try {
+        const rows = await run<WebhookEndpoint>(
+          "getWebhookEndpoint",
+          "SELECT * FROM webhook_endpoints WHERE supabase_id = $1 AND id = $2",
+          [supabaseId, id]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch webhook endpoint: ${error.message}`);
+      }
+    },
+
+    /**
+     * Register a webhook endpoint
+     */
+    async saveWebhookEndpoint(
+      endpoint: Pick<WebhookEndpoint, "supabase_id" | "url" | "secret" | "events">
+    ): Promise<WebhookEndpoint> {
+      try {
+        const rows = await insert<WebhookEndpoint>("saveWebhookEndpoint", "webhook_endpoints", [
+          {
+            ...endpoint,
+            active: true,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          },
+        ]);
+        return rows[0];
+      } catch (error: any) {
+        throw new Error(`Failed to save webhook endpoint: ${error.message}`);
+      }
+    },
+
+    /**
+     * Remove a webhook endpoint and its delivery log
+     * Returns false if the user has no such endpoint
+     */
+    async deleteWebhookEndpoint(supabaseId: string, id: string): Promise<boolean> {
+      try {
+        const rows = await run(
+          "deleteWebhookEndpoint",
+          "DELETE FROM webhook_endpoints WHERE supabase_id = $1 AND id = $2 RETURNING id",
+          [supabaseId, id]
+        );
+        return rows.length > 0;
+      } catch (error: any) {
+        throw new Error(`Failed to delete webhook endpoint: ${error.message}`);
+      }
+    },
+
+    /**
+     * Queue a webhook delivery
+     */
+    async saveWebhookDelivery(
+      delivery: Pick<
+        WebhookDelivery,
+        | "endpoint_id"
+        | "supabase_id"
+        | "event_id"
+        | "event_type"
+        | "payload"
+        | "next_attempt_at"
+        | "replay_of"
+      >
+    ): Promise<WebhookDelivery> {
+      try {
+        const rows = await insert<WebhookDelivery>("saveWebhookDelivery", "webhook_deliveries", [
+          {
+            ...delivery,
+            status: "pending",
+            attempts: 0,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          },
+        ]);
+        return rows[0];
+      } catch (error: any) {
+        throw new Error(`Failed to save webhook delivery: ${error.message}`);
+      }
+    },
+
+    /**
+     * Retrieve one of a user's webhook deliveries
+     */
+    async getWebhookDelivery(
+      supabaseId: string,
+      id: string
+    ): Promise<WebhookDelivery | null> {
+      try {
+        const rows = await run<WebhookDelivery>(
+          "getWebhookDelivery",
+          "SELECT * FROM webhook_deliveries WHERE supabase_id = $1 AND id = $2",
+          [supabaseId, id]
+        );
+        return rows[0] || null;
+      } catch (error: any) {
+        throw new Error(`Failed to fetch webhook delivery: ${error.message}`);
+      }
+    },
+
+    /**
+     * List an endpoint's deliveries, newest first
+     */
+    async listWebhookDeliveries(
+      endpointId: string,
+      limit: number,
+      offset: number
+    ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+      try {
+        const [deliveries, [{ count }]] = await Promise.all([
+          run<WebhookDelivery>(
+            "listWebhookDeliveries",
+            `SELECT * FROM webhook_deliveries WHERE endpoint_id = $1
+             ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+            [endpointId, limit, offset]
+          ),
+          run<{ count: number }>(
+            "listWebhookDeliveries",
+            "SELECT count(*) AS count FROM webhook_deliveries WHERE endpoint_id = $1",
+            [endpointId]
+          ),
+        ]);
+        return { deliveries, total: count };
+      } catch (error: any) {
+        throw new Error(`Failed to list webhook deliveries: ${error.message}`);
+      }
+    },
+
+    /**
+     * List deliveries whose next attempt is due
+     */
+    async listDueWebhookDeliveries(limit: number = 50): Promise<WebhookDelivery[]> {
+      try {
+        return await run<WebhookDelivery>(
+          "listDueWebhookDeliveries",
+          `SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= $1
+           ORDER BY next_attempt_at ASC LIMIT $2`,
+          [new Date().toISOString(), limit]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to list due webhook deliveries: ${error.message}`);
+      }
+    },
+
+    /**
+     * Take a due delivery for one attempt by pushing its next attempt ahead
+     * Returns false if another worker took it first
+     */
+    async claimWebhookDelivery(
+      id: string,
+      dueAt: string,
+      leaseUntil: string
+    ): Promise<boolean> {
+      try {
+        const rows = await run(
+          "claimWebhookDelivery",
+          `UPDATE webhook_deliveries SET next_attempt_at = $1, updated_at = $2
+           WHERE id = $3 AND status = 'pending' AND next_attempt_at = $4 RETURNING id`,
+          [leaseUntil, new Date().toISOString(), id, dueAt]
+        );
+        return rows.length > 0;
+      } catch (error: any) {
+        throw new Error(`Failed to claim webhook delivery: ${error.message}`);
+      }
+    },
+
+    /**
+     * Record the outcome of a delivery attempt
+     */
+    async updateWebhookDelivery(
+      id: string,
+      fields: Partial<
+        Pick<
+          WebhookDelivery,
+          | "status"
+          | "attempts"
+          | "next_attempt_at"
+          | "last_status_code"
+          | "last_error"
+          | "delivered_at"
+        >
+      >
+    ): Promise<WebhookDelivery> {
+      try {
+        const rows = await update<WebhookDelivery>(
+          "updateWebhookDelivery",
+          "webhook_deliveries",
+          { ...fields, updated_at: new Date().toISOString() },
+          { id }
+        );
+        return onlyRow(rows);
+      } catch (error: any) {
+        throw new Error(`Failed to update webhook delivery: ${error.message}`);
+      }
+    },
+
+    /**
+     * Log one delivery attempt
+     */
+    async saveWebhookAttempt(attempt: Omit<WebhookAttempt, "id" | "created_at">): Promise<void> {
+      try {
+        await insert("saveWebhookAttempt", "webhook_attempts", [
+          { ...attempt, created_at: new Date().toISOString() },
+        ]);
+      } catch (error: any) {
+        throw new Error(`Failed to log webhook attempt: ${error.message}`);
+      }
+    },
+
+    /**
+     * List the attempts of some deliveries, oldest first
+     */
+    async listWebhookAttempts(deliveryIds: string[]): Promise<WebhookAttempt[]> {
+      if (deliveryIds.length === 0) return [];
+
+      try {
+        return await run<WebhookAttempt>(
+          "listWebhookAttempts",
+          `SELECT * FROM webhook_attempts WHERE delivery_id = ANY($1::uuid[])
+           ORDER BY created_at ASC`,
+          [deliveryIds]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to list webhook attempts: ${error.message}`);
+      }
+    },
+
+    /**
+     * Append an entry to the audit log
+     */
+    async saveAuditEntry(entry: Omit<AuditLogEntry, "id" | "created_at">): Promise<void> {
+      try {
+        await insert("saveAuditEntry", "audit_log", [
+          { ...entry, created_at: new Date().toISOString() },
+        ]);
+      } catch (error: any) {
+        throw new Error(`Failed to write audit log: ${error.message}`);
+      }
+    },
+
+    /**
+     * List audit log entries, newest first
+     */
+    async listAuditLog(
+      query: AuditLogQuery
+    ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+      const values: any[] = [];
+      const conditions = ["TRUE"];
+      const filter = (condition: string, value: any) => {
+        values.push(value);
+        conditions.push(`${condition} $${values.length}`);
+      };
+
+      if (query.supabaseId) filter("supabase_id =", query.supabaseId);
+      if (query.action) filter("action =", query.action);
+      if (query.outcome) filter("outcome =", query.outcome);
+      if (query.since) filter("created_at >=", query.since);
+      if (query.until) filter("created_at <", query.until);
+
+      const where = conditions.join(" AND ");
+
+      try {
+        const [entries, [{ count }]] = await Promise.all([
+          run<AuditLogEntry>(
+            "listAuditLog",
+            `SELECT * FROM audit_log WHERE ${where}
+             ORDER BY created_at DESC LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+            [...values, query.limit, query.offset]
+          ),
+          run<{ count: number }>(
+            "listAuditLog",
+            `SELECT count(*) AS count FROM audit_log WHERE ${where}`,
+            values
+          ),
+        ]);
+        return { entries, total: count };
+      } catch (error: any) {
+        throw new Error(`Failed to list audit log: ${error.message}`);
+      }
+    },
+
+    /**
+     * Claim an idempotency key for a user
+     * Returns null if the key was claimed, or the existing record if it is taken.
+     * Expired records are discarded and the key is claimed afresh.
+     */
+    async claimIdempotencyKey(
+      supabaseId: string,
+      key: string,
+      requestHash: string,
+      expiresAt: string
+    ): Promise<IdempotencyRecord | null> {
+      try {
+        await insert("claimIdempotencyKey", "idempotency_keys", [
+          {
+            supabase_id: supabaseId,
+            idempotency_key: key,
+            request_hash: requestHash,
+            status: "in_progress",
+            created_at: new Date().toISOString(),
+            expires_at: expiresAt,
+          },
+        ]);
+        return null;
+      } catch (error: any) {
+        // 23505: unique violation, key already exists
+        if (error.code !== "23505") {
+          throw new Error(`Failed to claim idempotency key: ${error.message}`);
+        }
+      }
+
+      let existing: IdempotencyRecord;
+      try {
+        existing = onlyRow(
+          await run<IdempotencyRecord>(
+            "claimIdempotencyKey",
+            "SELECT * FROM idempotency_keys WHERE supabase_id = $1 AND idempotency_key = $2",
+            [supabaseId, key]
+          )
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to fetch idempotency key: ${error.message}`);
+      }
+
+      if (new Date(existing.expires_at).getTime() <= Date.now()) {
+        await this.releaseIdempotencyKey(supabaseId, key);
+        return this.claimIdempotencyKey(supabaseId, key, requestHash, expiresAt);
+      }
+
+      return existing;
+    },
+
+    /**
+     * Store the response for a claimed idempotency key
+     */
+    async completeIdempotencyKey(
+      supabaseId: string,
+      key: string,
+      responseStatus: number,
+      responseBody: any
+    ): Promise<void> {
+      try {
+        await update(
+          "completeIdempotencyKey",
+          "idempotency_keys",
+          { status: "completed", response_status: responseStatus, response_body: responseBody },
+          { supabase_id: supabaseId, idempotency_key: key }
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to complete idempotency key: ${error.message}`);
+      }
+    },
+
+    /**
+     * Delete an idempotency key so the request can be retried
+     */
+    async releaseIdempotencyKey(supabaseId: string, key: string): Promise<void> {
+      try {
+        await run(
+          "releaseIdempotencyKey",
+          "DELETE FROM idempotency_keys WHERE supabase_id = $1 AND idempotency_key = $2",
+          [supabaseId, key]
+        );
+      } catch (error: any) {
+        throw new Error(`Failed to release idempotency key: ${error.message}`);
+      }
+    },
+
+    /**
+     * Apply pending migrations (migrations/)
+     * Run on app startup; safe with several instances starting at once
+     */
+    async initializeSchema(): Promise<void> {
+      const { applied, modified } = await runMigrations(pool);
+
+      if (applied.length > 0) {
+        logger.info("Applied database migrations", { migrations: applied });
+      }
+      if (modified.length > 0) {
+        logger.warn(
+          "Migrations changed after they were applied; changes need a new migration file",
+          { migrations: modified }
+        );
+      }
+    },
+
+    /**
+     * Read one row of user_wallets, to show the database is reachable and migrated
+     */
+    async probe(): Promise<void> {
+      try {
+        await run("probe", "SELECT id FROM user_wallets LIMIT 1");
+      } catch (error: any) {
+        throw new Error(`Failed to read user_wallets: ${error.message}`);
+      }
+    },
+
+    /**
+     * Close the connection pool
+     */
+    async close(): Promise<void> {
+      await pool.end();
+    },
+  };
+};
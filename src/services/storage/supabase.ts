@@ -0,0 +1,1428 @@
+import { createClient } from "@supabase/supabase-js";
+import { config } from "../../config";
+import {
+  UserWallet,
+  TransactionRecord,
+  TransactionStatus,
+  TransactionHistoryQuery,
+  IdempotencyRecord,
+  SpendingLimitsRecord,
+  TokenSpendingLimitsRecord,
+  AddressBookEntry,
+  SecuritySettings,
+  TotpFactor,
+  ProvisioningJob,
+  WebhookEndpoint,
+  WebhookDelivery,
+  WebhookAttempt,
+  DepositRecord,
+  TransactionHistoryRecord,
+  AuditLogEntry,
+  AuditLogQuery,
+  StorageRepository,
+} from "../../types";
+import { logger } from "../logger";
+import { metricsService } from "../metrics";
+import { createSqlStorage } from "./sql";
+
+/**
+ * Storage through Supabase's REST API, using the service role key for
+ * admin-level database operations
+ */
+export const createSupabaseStorage = (): StorageRepository => {
+  const supabaseAdmin = createClient(config.supabase.url, config.supabase.serviceRoleKey, {
+    global: { fetch: metricsService.instrumentFetch("supabaseAdmin") },
+  });
+
+  return {
+    /**
+     * Store the mapping from Supabase user ID to Para wallet ID
+     * This is the minimal state needed: only non-sensitive mappings
+     */
+    async saveUserWallet(
+      supabaseId: string,
+      paraWalletId: string,
+      walletAddress?: string
+    ): Promise<UserWallet> {
+      const { data, error } = await supabaseAdmin
+        .from("user_wallets")
+        .insert({
+          supabase_id: supabaseId,
+          para_wallet_id: paraWalletId,
+          wallet_address: walletAddress,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save user wallet: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Retrieve wallet ID for a Supabase user
+     */
+    async getUserWallet(supabaseId: string): Promise<UserWallet | null> {
+      const { data, error } = await supabaseAdmin
+        .from("user_wallets")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          // Row not found
+          return null;
+        }
+        throw new Error(`Failed to fetch user wallet: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Update wallet address after it becomes ready
+     * Only sets an address that is not stored yet; returns null if it was
+     */
+    async updateWalletAddress(
+      supabaseId: string,
+      walletAddress: string
+    ): Promise<UserWallet | null> {
+      const { data, error } = await supabaseAdmin
+        .from("user_wallets")
+        .update({
+          wallet_address: walletAddress,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("supabase_id", supabaseId)
+        .is("wallet_address", null)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to update wallet address: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Count wallets Para is still creating (no address recorded yet)
+     */
+    async countCreatingWallets(): Promise<number> {
+      const { count, error } = await supabaseAdmin
+        .from("user_wallets")
+        .select("id", { count: "exact", head: true })
+        .is("wallet_address", null);
+
+      if (error) {
+        throw new Error(`Failed to count creating wallets: ${error.message}`);
+      }
+
+      return count || 0;
+    },
+
+    /**
+     * Retrieve a user's wallet provisioning job
+     */
+    async getProvisioningJob(supabaseId: string): Promise<ProvisioningJob | null> {
+      const { data, error } = await supabaseAdmin
+        .from("provisioning_jobs")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          return null;
+        }
+        throw new Error(`Failed to fetch provisioning job: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Create or update a user's wallet provisioning job
+     */
+    async saveProvisioningJob(
+      supabaseId: string,
+      job: Partial<Omit<ProvisioningJob, "supabase_id" | "created_at" | "updated_at">>
+    ): Promise<ProvisioningJob> {
+      const { data, error } = await supabaseAdmin
+        .from("provisioning_jobs")
+        .upsert({
+          ...job,
+          supabase_id: supabaseId,
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save provisioning job: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Record a transaction sent from a user's wallet
+     */
+    async saveTransaction(
+      record: Omit<TransactionRecord, "id" | "created_at" | "updated_at">
+    ): Promise<TransactionRecord> {
+      const { data, error } = await supabaseAdmin
+        .from("transactions")
+        .insert({
+          ...record,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save transaction: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Retrieve a recorded transaction by hash
+     */
+    async getTransactionByHash(txHash: string): Promise<TransactionRecord | null> {
+      const { data, error } = await supabaseAdmin
+        .from("transactions")
+        .select("*")
+        .eq("tx_hash", txHash)
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          return null;
+        }
+        throw new Error(`Failed to fetch transaction: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Update the status of a recorded transaction
+     * Extra fields (block number, gas used, error) are merged into the row
+     */
+    async updateTransactionStatus(
+      txHash: string,
+      status: TransactionStatus,
+      fields: Partial<
+        Pick<
+          TransactionRecord,
+          "block_number" | "confirmations" | "gas_used" | "error" | "confirmed_at"
+        >
+      > = {}
+    ): Promise<TransactionRecord> {
+      const { data, error } = await supabaseAdmin
+        .from("transactions")
+        .update({
+          ...fields,
+          status,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("tx_hash", txHash)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update transaction: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Link a transaction to the speed-up or cancel transaction replacing it
+     */
+    async linkReplacement(txHash: string, replacedByTxHash: string): Promise<void> {
+      const { error } = await supabaseAdmin
+        .from("transactions")
+        .update({
+          replaced_by_tx_hash: replacedByTxHash,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("tx_hash", txHash);
+
+      if (error) {
+        throw new Error(`Failed to link replacement transaction: ${error.message}`);
+      }
+    },
+
+    /**
+     * List pending transactions across all users, oldest first
+     * Used by the confirmation tracker
+     */
+    async listPendingTransactions(limit: number = 100): Promise<TransactionRecord[]> {
+      const { data, error } = await supabaseAdmin
+        .from("transactions")
+        .select("*")
+        .eq("status", "pending")
+        .order("created_at", { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to list pending transactions: ${error.message}`);
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Count transactions still waiting for confirmations
+     */
+    async countPendingTransactions(): Promise<number> {
+      const { count, error } = await supabaseAdmin
+        .from("transactions")
+        .select("id", { count: "exact", head: true })
+        .eq("status", "pending");
+
+      if (error) {
+        throw new Error(`Failed to count pending transactions: ${error.message}`);
+      }
+
+      return count || 0;
+    },
+
+    /**
+     * List nonces of transactions still pending from an address on a chain
+     * Used by the nonce manager to skip nonces that are already in flight
+     */
+    async listPendingNonces(fromAddress: string, chainId: number): Promise<number[]> {
+      const { data, error } = await supabaseAdmin
+        .from("transactions")
+        .select("nonce")
+        .eq("from_address", fromAddress)
+        .eq("chain_id", chainId)
+        .eq("status", "pending");
+
+      if (error) {
+        throw new Error(`Failed to list pending nonces: ${error.message}`);
+      }
+
+      return (data || []).map((row) => row.nonce);
+    },
+
+    /**
+     * List every transaction sent from an address on a chain with one nonce
+     * Used by the tracker to tell which of a transaction and its replacements
+     * was mined
+     */
+    async listTransactionsAtNonce(
+      fromAddress: string,
+      chainId: number,
+      nonce: number
+    ): Promise<TransactionRecord[]> {
+      const { data, error } = await supabaseAdmin
+        .from("transactions")
+        .select("*")
+        .eq("from_address", fromAddress)
+        .eq("chain_id", chainId)
+        .eq("nonce", nonce)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to list transactions at nonce: ${error.message}`);
+      }
+
+      return data || [];
+    },
+
+    /**
+     * List a user's transactions, newest first
+     * Includes incoming deposits alongside sends (transaction_history view).
+     * Supports filtering by status and created_at range
+     */
+    async listTransactions(
+      supabaseId: string,
+      query: TransactionHistoryQuery
+    ): Promise<{ transactions: TransactionHistoryRecord[]; total: number }> {
+      let request = supabaseAdmin
+        .from("transaction_history")
+        .select("*", { count: "exact" })
+        .eq("supabase_id", supabaseId);
+
+      if (query.status) {
+        request = request.eq("status", query.status);
+      }
+      if (query.chainId !== undefined) {
+        request = request.eq("chain_id", query.chainId);
+      }
+      if (query.since) {
+        request = request.gte("created_at", query.since);
+      }
+      if (query.until) {
+        request = request.lte("created_at", query.until);
+      }
+
+      const { data, error, count } = await request
+        .order("created_at", { ascending: false })
+        .range(query.offset, query.offset + query.limit - 1);
+
+      if (error) {
+        throw new Error(`Failed to list transactions: ${error.message}`);
+      }
+
+      return { transactions: data || [], total: count || 0 };
+    },
+
+    /**
+     * List a user's transfers created since a point in time
+     * Used by the policy engine to total spending; excludes sends that never
+     * went through and speed-up/cancel transactions, which spend nothing new
+     */
+    async listTransfersSince(
+      supabaseId: string,
+      since: string
+    ): Promise<Pick<TransactionRecord, "value" | "token_address" | "chain_id" | "created_at">[]> {
+      const { data, error } = await supabaseAdmin
+        .from("transactions")
+        .select("value, token_address, chain_id, created_at")
+        .eq("supabase_id", supabaseId)
+        .eq("kind", "transfer")
+        .in("status", ["pending", "success", "replaced"])
+        .gte("created_at", since);
+
+      if (error) {
+        throw new Error(`Failed to list recent transfers: ${error.message}`);
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Check whether a user has sent a transfer to an address before
+     */
+    async hasTransferredTo(supabaseId: string, toAddress: string): Promise<boolean> {
+      const { count, error } = await supabaseAdmin
+        .from("transactions")
+        .select("id", { count: "exact", head: true })
+        .eq("supabase_id", supabaseId)
+        .eq("kind", "transfer")
+        .eq("to_address", toAddress)
+        .in("status", ["pending", "success", "replaced"]);
+
+      if (error) {
+        throw new Error(`Failed to check previous transfers: ${error.message}`);
+      }
+
+      return (count || 0) > 0;
+    },
+
+    /**
+     * List every wallet address to watch for deposits
+     * Addresses are stored once a wallet is ready
+     */
+    async listWalletAddresses(): Promise<{ supabase_id: string; wallet_address: string }[]> {
+      const { data, error } = await supabaseAdmin
+        .from("user_wallets")
+        .select("supabase_id, wallet_address")
+        .not("wallet_address", "is", null);
+
+      if (error) {
+        throw new Error(`Failed to list wallet addresses: ${error.message}`);
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Record deposits found by the block scanner
+     * Deposits already recorded (same chain, hash and log index) are skipped,
+     * except dropped ones, which go back to pending in their new block;
+     * returns only the new and revived ones
+     */
+    async saveDeposits(
+      deposits: Omit<DepositRecord, "id" | "created_at" | "updated_at" | "confirmed_at">[]
+    ): Promise<DepositRecord[]> {
+      const now = new Date().toISOString();
+      const { data, error } = await supabaseAdmin
+        .from("deposits")
+        .upsert(
+          deposits.map((deposit) => ({ ...deposit, created_at: now, updated_at: now })),
+          { onConflict: "chain_id,tx_hash,log_index", ignoreDuplicates: true }
+        )
+        .select();
+
+      if (error) {
+        throw new Error(`Failed to save deposits: ${error.message}`);
+      }
+
+      const saved: DepositRecord[] = data || [];
+      const isSaved = (deposit: (typeof deposits)[number]) =>
+        saved.some(
+          (row) =>
+            row.chain_id === deposit.chain_id &&
+            row.tx_hash === deposit.tx_hash &&
+            row.log_index === deposit.log_index
+        );
+
+      for (const deposit of deposits.filter((deposit) => !isSaved(deposit))) {
+        const { data: revived, error: reviveError } = await supabaseAdmin
+          .from("deposits")
+          .update({
+            block_number: deposit.block_number,
+            block_hash: deposit.block_hash,
+            confirmations: deposit.confirmations,
+            status: deposit.status,
+            updated_at: now,
+          })
+          .eq("chain_id", deposit.chain_id)
+          .eq("tx_hash", deposit.tx_hash)
+          .eq("log_index", deposit.log_index)
+          .eq("status", "dropped")
+          .select();
+
+        if (reviveError) {
+          throw new Error(`Failed to save deposits: ${reviveError.message}`);
+        }
+
+        saved.push(...(revived || []));
+      }
+
+      return saved;
+    },
+
+    /**
+     * List deposits on a chain still waiting for confirmations
+     */
+    async listPendingDeposits(chainId: number, limit: number = 500): Promise<DepositRecord[]> {
+      const { data, error } = await supabaseAdmin
+        .from("deposits")
+        .select("*")
+        .eq("chain_id", chainId)
+        .eq("status", "pending")
+        .order("block_number", { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to list pending deposits: ${error.message}`);
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Update a deposit's status and confirmation count
+     */
+    async updateDeposit(
+      id: string,
+      fields: Partial<Pick<DepositRecord, "status" | "confirmations" | "confirmed_at">>
+    ): Promise<DepositRecord> {
+      const { data, error } = await supabaseAdmin
+        .from("deposits")
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update deposit: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Get the last block the deposit scanner finished on a chain
+     * Returns null before the first scan
+     */
+    async getScannerCursor(chainId: number): Promise<number | null> {
+      const { data, error } = await supabaseAdmin
+        .from("block_scanner_state")
+        .select("last_block")
+        .eq("chain_id", chainId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch scanner state: ${error.message}`);
+      }
+
+      return data ? Number(data.last_block) : null;
+    },
+
+    /**
+     * Record the last block the deposit scanner finished on a chain
+     */
+    async saveScannerCursor(chainId: number, lastBlock: number): Promise<void> {
+      const { error } = await supabaseAdmin.from("block_scanner_state").upsert({
+        chain_id: chainId,
+        last_block: lastBlock,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (error) {
+        throw new Error(`Failed to save scanner state: ${error.message}`);
+      }
+    },
+
+    /**
+     * Retrieve per-user spending limit overrides
+     */
+    async getSpendingLimits(supabaseId: string): Promise<SpendingLimitsRecord | null> {
+      const { data, error } = await supabaseAdmin
+        .from("spending_limits")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          return null;
+        }
+        throw new Error(`Failed to fetch spending limits: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Create or update per-user spending limit overrides
+     */
+    async saveSpendingLimits(
+      limits: Omit<SpendingLimitsRecord, "created_at" | "updated_at">
+    ): Promise<SpendingLimitsRecord> {
+      const { data, error } = await supabaseAdmin
+        .from("spending_limits")
+        .upsert({
+          ...limits,
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save spending limits: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * List a user's per-token spending limit overrides
+     */
+    async listTokenSpendingLimits(supabaseId: string): Promise<TokenSpendingLimitsRecord[]> {
+      const { data, error } = await supabaseAdmin
+        .from("token_spending_limits")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .order("chain_id", { ascending: true })
+        .order("token_address", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to list token spending limits: ${error.message}`);
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Retrieve a user's overrides for one token on one chain
+     */
+    async getTokenSpendingLimits(
+      supabaseId: string,
+      chainId: number,
+      token: string
+    ): Promise<TokenSpendingLimitsRecord | null> {
+      const { data, error } = await supabaseAdmin
+        .from("token_spending_limits")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .eq("chain_id", chainId)
+        .eq("token_address", token.toLowerCase())
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch token spending limits: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Create or update a user's overrides for one token on one chain
+     */
+    async saveTokenSpendingLimits(
+      limits: Omit<TokenSpendingLimitsRecord, "created_at" | "updated_at">
+    ): Promise<TokenSpendingLimitsRecord> {
+      const { data, error } = await supabaseAdmin
+        .from("token_spending_limits")
+        .upsert({
+          ...limits,
+          token_address: limits.token_address.toLowerCase(),
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save token spending limits: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Remove a user's overrides for one token on one chain
+     * Returns false if there were none
+     */
+    async deleteTokenSpendingLimits(
+      supabaseId: string,
+      chainId: number,
+      token: string
+    ): Promise<boolean> {
+      const { data, error } = await supabaseAdmin
+        .from("token_spending_limits")
+        .delete()
+        .eq("supabase_id", supabaseId)
+        .eq("chain_id", chainId)
+        .eq("token_address", token.toLowerCase())
+        .select();
+
+      if (error) {
+        throw new Error(`Failed to delete token spending limits: ${error.message}`);
+      }
+
+      return (data || []).length > 0;
+    },
+
+    /**
+     * List a user's saved addresses, oldest first
+     */
+    async listAddresses(supabaseId: string): Promise<AddressBookEntry[]> {
+      const { data, error } = await supabaseAdmin
+        .from("address_book")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to list addresses: ${error.message}`);
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Find a saved address by its value
+     */
+    async getAddressByValue(
+      supabaseId: string,
+      address: string
+    ): Promise<AddressBookEntry | null> {
+      const { data, error } = await supabaseAdmin
+        .from("address_book")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .eq("address", address)
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          return null;
+        }
+        throw new Error(`Failed to fetch address: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Save a new address; returns null if the user already saved it
+     */
+    async saveAddress(
+      entry: Omit<AddressBookEntry, "id" | "created_at" | "updated_at">
+    ): Promise<AddressBookEntry | null> {
+      const { data, error } = await supabaseAdmin
+        .from("address_book")
+        .insert({
+          ...entry,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "23505") {
+          return null;
+        }
+        throw new Error(`Failed to save address: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Rename a saved address; returns null if it doesn't belong to the user
+     */
+    async updateAddressLabel(
+      supabaseId: string,
+      id: string,
+      label: string
+    ): Promise<AddressBookEntry | null> {
+      const { data, error } = await supabaseAdmin
+        .from("address_book")
+        .update({ label, updated_at: new Date().toISOString() })
+        .eq("supabase_id", supabaseId)
+        .eq("id", id)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to update address: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Delete a saved address; returns false if it doesn't belong to the user
+     */
+    async deleteAddress(supabaseId: string, id: string): Promise<boolean> {
+      const { data, error } = await supabaseAdmin
+        .from("address_book")
+        .delete()
+        .eq("supabase_id", supabaseId)
+        .eq("id", id)
+        .select();
+
+      if (error) {
+        throw new Error(`Failed to delete address: ${error.message}`);
+      }
+
+      return (data || []).length > 0;
+    },
+
+    /**
+     * Retrieve a user's security settings
+     */
+    async getSecuritySettings(supabaseId: string): Promise<SecuritySettings | null> {
+      const { data, error } = await supabaseAdmin
+        .from("security_settings")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          return null;
+        }
+        throw new Error(`Failed to fetch security settings: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Create or update a user's security settings
+     */
+    async saveSecuritySettings(
+      supabaseId: string,
+      settings: Partial<Omit<SecuritySettings, "supabase_id" | "created_at" | "updated_at">>
+    ): Promise<SecuritySettings> {
+      const { data, error } = await supabaseAdmin
+        .from("security_settings")
+        .upsert({
+          ...settings,
+          supabase_id: supabaseId,
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save security settings: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Retrieve a user's TOTP factor
+     */
+    async getTotpFactor(supabaseId: string): Promise<TotpFactor | null> {
+      const { data, error } = await supabaseAdmin
+        .from("totp_factors")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          return null;
+        }
+        throw new Error(`Failed to fetch TOTP factor: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Create or update a user's TOTP factor
+     */
+    async saveTotpFactor(
+      supabaseId: string,
+      factor: Partial<Omit<TotpFactor, "supabase_id" | "created_at" | "updated_at">>
+    ): Promise<TotpFactor> {
+      const { data, error } = await supabaseAdmin
+        .from("totp_factors")
+        .upsert({
+          ...factor,
+          supabase_id: supabaseId,
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save TOTP factor: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Mark a TOTP time step as used
+     * Returns false if that step or a later one was already used, so each code
+     * is accepted once even across instances
+     */
+    async claimTotpStep(supabaseId: string, step: number): Promise<boolean> {
+      const { data, error } = await supabaseAdmin
+        .from("totp_factors")
+        .update({ last_used_step: step, updated_at: new Date().toISOString() })
+        .eq("supabase_id", supabaseId)
+        .lt("last_used_step", step)
+        .select("supabase_id");
+
+      if (error) {
+        throw new Error(`Failed to record TOTP code: ${error.message}`);
+      }
+
+      return (data || []).length > 0;
+    },
+
+    /**
+     * Delete a user's TOTP factor
+     */
+    async deleteTotpFactor(supabaseId: string): Promise<void> {
+      const { error } = await supabaseAdmin
+        .from("totp_factors")
+        .delete()
+        .eq("supabase_id", supabaseId);
+
+      if (error) {
+        throw new Error(`Failed to delete TOTP factor: ${error.message}`);
+      }
+    },
+
+    /**
+     * Record a logged-out session so its access tokens are refused
+     * expires_at is when its last access token expires; the row can go after that
+     */
+    async revokeSession(
+      sessionId: string,
+      supabaseId: string,
+      expiresAt: string
+    ): Promise<void> {
+      const { error } = await supabaseAdmin.from("revoked_sessions").upsert({
+        session_id: sessionId,
+        supabase_id: supabaseId,
+        revoked_at: new Date().toISOString(),
+        expires_at: expiresAt,
+      });
+
+      if (error) {
+        throw new Error(`Failed to revoke session: ${error.message}`);
+      }
+    },
+
+    /**
+     * Check whether a session was logged out
+     */
+    async isSessionRevoked(sessionId: string): Promise<boolean> {
+      const { data, error } = await supabaseAdmin
+        .from("revoked_sessions")
+        .select("session_id")
+        .eq("session_id", sessionId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to check session: ${error.message}`);
+      }
+
+      return data !== null;
+    },
+
+    /**
+     * Delete revocations whose session's tokens have all expired
+     * Returns how many were deleted
+     */
+    async deleteExpiredSessionRevocations(): Promise<number> {
+      const { data, error } = await supabaseAdmin
+        .from("revoked_sessions")
+        .delete()
+        .lte("expires_at", new Date().toISOString())
+        .select("session_id");
+
+      if (error) {
+        throw new Error(`Failed to delete expired session revocations: ${error.message}`);
+      }
+
+      return (data || []).length;
+    },
+
+    /**
+     * List a user's webhook endpoints
+     */
+    async listWebhookEndpoints(supabaseId: string): Promise<WebhookEndpoint[]> {
+      const { data, error } = await supabaseAdmin
+        .from("webhook_endpoints")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to list webhook endpoints: ${error.message}`);
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Retrieve one of a user's webhook endpoints
+     */
+    async getWebhookEndpoint(
+      supabaseId: string,
+      id: string
+    ): Promise<WebhookEndpoint | null> {
+      const { data, error } = await supabaseAdmin
+        .from("webhook_endpoints")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch webhook endpoint: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Register a webhook endpoint
+     */
+    async saveWebhookEndpoint(
+      endpoint: Pick<WebhookEndpoint, "supabase_id" | "url" | "secret" | "events">
+    ): Promise<WebhookEndpoint> {
+      const { data, error } = await supabaseAdmin
+        .from("webhook_endpoints")
+        .insert({
+          ...endpoint,
+          active: true,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save webhook endpoint: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Remove a webhook endpoint and its delivery log
+     * Returns false if the user has no such endpoint
+     */
+    async deleteWebhookEndpoint(supabaseId: string, id: string): Promise<boolean> {
+      const { data, error } = await supabaseAdmin
+        .from("webhook_endpoints")
+        .delete()
+        .eq("supabase_id", supabaseId)
+        .eq("id", id)
+        .select();
+
+      if (error) {
+        throw new Error(`Failed to delete webhook endpoint: ${error.message}`);
+      }
+
+      return (data || []).length > 0;
+    },
+
+    /**
+     * Queue a webhook delivery
+     */
+    async saveWebhookDelivery(
+      delivery: Pick<
+        WebhookDelivery,
+        | "endpoint_id"
+        | "supabase_id"
+        | "event_id"
+        | "event_type"
+        | "payload"
+        | "next_attempt_at"
+        | "replay_of"
+      >
+    ): Promise<WebhookDelivery> {
+      const { data, error } = await supabaseAdmin
+        .from("webhook_deliveries")
+        .insert({
+          ...delivery,
+          status: "pending",
+          attempts: 0,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to save webhook delivery: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Retrieve one of a user's webhook deliveries
+     */
+    async getWebhookDelivery(
+      supabaseId: string,
+      id: string
+    ): Promise<WebhookDelivery | null> {
+      const { data, error } = await supabaseAdmin
+        .from("webhook_deliveries")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch webhook delivery: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * List an endpoint's deliveries, newest first
+     */
+    async listWebhookDeliveries(
+      endpointId: string,
+      limit: number,
+      offset: number
+    ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+      const { data, error, count } = await supabaseAdmin
+        .from("webhook_deliveries")
+        .select("*", { count: "exact" })
+        .eq("endpoint_id", endpointId)
+        .order("created_at", { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new Error(`Failed to list webhook deliveries: ${error.message}`);
+      }
+
+      return { deliveries: data || [], total: count || 0 };
+    },
+
+    /**
+     * List deliveries whose next attempt is due
+     */
+    async listDueWebhookDeliveries(limit: number = 50): Promise<WebhookDelivery[]> {
+      const { data, error } = await supabaseAdmin
+        .from("webhook_deliveries")
+        .select("*")
+        .eq("status", "pending")
+        .lte("next_attempt_at", new Date().toISOString())
+        .order("next_attempt_at", { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        throw new Error(`Failed to list due webhook deliveries: ${error.message}`);
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Take a due delivery for one attempt by pushing its next attempt ahead
+     * Returns false if another worker took it first
+     */
+    async claimWebhookDelivery(
+      id: string,
+      dueAt: string,
+      leaseUntil: string
+    ): Promise<boolean> {
+      const { data, error } = await supabaseAdmin
+        .from("webhook_deliveries")
+        .update({ next_attempt_at: leaseUntil, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .eq("status", "pending")
+        .eq("next_attempt_at", dueAt)
+        .select("id");
+
+      if (error) {
+        throw new Error(`Failed to claim webhook delivery: ${error.message}`);
+      }
+
+      return (data || []).length > 0;
+    },
+
+    /**
+     * Record the outcome of a delivery attempt
+     */
+    async updateWebhookDelivery(
+      id: string,
+      fields: Partial<
+        Pick<
+          WebhookDelivery,
+          | "status"
+          | "attempts"
+          | "next_attempt_at"
+          | "last_status_code"
+          | "last_error"
+          | "delivered_at"
+        >
+      >
+    ): Promise<WebhookDelivery> {
+      const { data, error } = await supabaseAdmin
+        .from("webhook_deliveries")
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update webhook delivery: ${error.message}`);
+      }
+
+      return data;
+    },
+
+    /**
+     * Log one delivery attempt
+     */
+    async saveWebhookAttempt(
+      attempt: Omit<WebhookAttempt, "id" | "created_at">
+    ): Promise<void> {
+      const { error } = await supabaseAdmin.from("webhook_attempts").insert({
+        ...attempt,
+        created_at: new Date().toISOString(),
+      });
+
+      if (error) {
+        throw new Error(`Failed to log webhook attempt: ${error.message}`);
+      }
+    },
+
+    /**
+     * List the attempts of some deliveries, oldest first
+     */
+    async listWebhookAttempts(deliveryIds: string[]): Promise<WebhookAttempt[]> {
+      if (deliveryIds.length === 0) return [];
+
+      const { data, error } = await supabaseAdmin
+        .from("webhook_attempts")
+        .select("*")
+        .in("delivery_id", deliveryIds)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to list webhook attempts: ${error.message}`);
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Append an entry to the audit log
+     */
+    async saveAuditEntry(entry: Omit<AuditLogEntry, "id" | "created_at">): Promise<void> {
+      const { error } = await supabaseAdmin.from("audit_log").insert({
+        ...entry,
+        created_at: new Date().toISOString(),
+      });
+
+      if (error) {
+        throw new Error(`Failed to write audit log: ${error.message}`);
+      }
+    },
+
+    /**
+     * List audit log entries, newest first
+     */
+    async listAuditLog(
+      query: AuditLogQuery
+    ): Promise<{ entries: AuditLogEntry[]; total: number }> {
+      let request = supabaseAdmin.from("audit_log").select("*", { count: "exact" });
+
+      if (query.supabaseId) {
+        request = request.eq("supabase_id", query.supabaseId);
+      }
+      if (query.action) {
+        request = request.eq("action", query.action);
+      }
+      if (query.outcome) {
+        request = request.eq("outcome", query.outcome);
+      }
+      if (query.since) {
+        request = request.gte("created_at", query.since);
+      }
+      if (query.until) {
+        request = request.lt("created_at", query.until);
+      }
+
+      const { data, error, count } = await request
+        .order("created_at", { ascending: false })
+        .range(query.offset, query.offset + query.limit - 1);
+
+      if (error) {
+        throw new Error(`Failed to list audit log: ${error.message}`);
+      }
+
+      return { entries: data || [], total: count || 0 };
+    },
+
+    /**
+     * Claim an idempotency key for a user
+     * Returns null if the key was claimed, or the existing record if it is taken.
+     * Expired records are discarded and the key is claimed afresh.
+     */
+    async claimIdempotencyKey(
+      supabaseId: string,
+      key: string,
+      requestHash: string,
+      expiresAt: string
+    ): Promise<IdempotencyRecord | null> {
+      const { error } = await supabaseAdmin.from("idempotency_keys").insert({
+        supabase_id: supabaseId,
+        idempotency_key: key,
+        request_hash: requestHash,
+        status: "in_progress",
+        created_at: new Date().toISOString(),
+        expires_at: expiresAt,
+      });
+
+      if (!error) {
+        return null;
+      }
+
+      // 23505: unique violation, key already exists
+      if (error.code !== "23505") {
+        throw new Error(`Failed to claim idempotency key: ${error.message}`);
+      }
+
+      const { data, error: fetchError } = await supabaseAdmin
+        .from("idempotency_keys")
+        .select("*")
+        .eq("supabase_id", supabaseId)
+        .eq("idempotency_key", key)
+        .single();
+
+      if (fetchError) {
+        throw new Error(`Failed to fetch idempotency key: ${fetchError.message}`);
+      }
+
+      if (new Date(data.expires_at).getTime() <= Date.now()) {
+        await this.releaseIdempotencyKey(supabaseId, key);
+        return this.claimIdempotencyKey(supabaseId, key, requestHash, expiresAt);
+      }
+
+      return data;
+    },
+
+    /**
+     * Store the response for a claimed idempotency key
+     */
+    async completeIdempotencyKey(
+      supabaseId: string,
+      key: string,
+      responseStatus: number,
+      responseBody: any
+    ): Promise<void> {
+      const { error } = await supabaseAdmin
+        .from("idempotency_keys")
+        .update({
+          status: "completed",
+          response_status: responseStatus,
+          response_body: responseBody,
+        })
+        .eq("supabase_id", supabaseId)
+        .eq("idempotency_key", key);
+
+      if (error) {
+        throw new Error(`Failed to complete idempotency key: ${error.message}`);
+      }
+    },
+
+    /**
+     * Delete an idempotency key so the request can be retried
+     */
+    async releaseIdempotencyKey(supabaseId: string, key: string): Promise<void> {
+      const { error } = await supabaseAdmin
+        .from("idempotency_keys")
+        .delete()
+        .eq("supabase_id", supabaseId)
+        .eq("idempotency_key", key);
+
+      if (error) {
+        throw new Error(`Failed to release idempotency key: ${error.message}`);
+      }
+    },
+
+    /**
+     * Apply pending migrations (migrations/)
+     * PostgREST can't run DDL, so this connects to Postgres directly and needs
+     * DATABASE_URL (Project Settings > Database > Connection string).
+     */
+    async initializeSchema(): Promise<void> {
+      if (!config.storage.databaseUrl) {
+        logger.warn(
+          "DATABASE_URL is not set; skipping database migrations. Set it, or run `npm run migrate` with it, to create or update the tables"
+        );
+        return;
+      }
+
+      const migrator = createSqlStorage(config.storage.databaseUrl);
+      try {
+        await migrator.initializeSchema();
+      } finally {
+        await migrator.close();
+      }
+    },
+
+    /**
+     * Read one row of user_wallets, to show the database is reachable and migrated
+     */
+    async probe(): Promise<void> {
+      const { error } = await supabaseAdmin.from("user_wallets").select("id").limit(1);
+
+      if (error) {
+        throw new Error(`Failed to read user_wallets: ${error.message}`);
+      }
+    },
+
+    /**
+     * Nothing to release: the REST client holds no connections
+     */
+    async close(): Promise<void> {},
+  };
+};
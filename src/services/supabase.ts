@@ -1,8 +1,80 @@
 import { createClient } from "@supabase/supabase-js";
+import axios from "axios";
+import jwt, { Algorithm, JwtPayload } from "jsonwebtoken";
+import { createPublicKey, KeyObject } from "crypto";
 import { config } from "../config";
-import { AuthResponse, SignupRequest, LoginRequest } from "../types";
+import {
+  AuthResponse,
+  AuthenticatedUser,
+  SignupRequest,
+  LoginRequest,
+} from "../types";
+import { metricsService } from "./metrics";
 
-const supabase = createClient(config.supabase.url, config.supabase.anonKey);
+const supabase = createClient(config.supabase.url, config.supabase.anonKey, {
+  global: { fetch: metricsService.instrumentFetch("supabase") },
+});
+
+// Service role client for auth admin calls (sign-out)
+const supabaseAdmin = createClient(config.supabase.url, config.supabase.serviceRoleKey, {
+  global: { fetch: metricsService.instrumentFetch("supabaseAdmin") },
+});
+
+const ASYMMETRIC_ALGORITHMS: Algorithm[] = ["RS256", "ES256"];
+
+// Don't refetch the JWKS for an unknown key ID more often than this
+const JWKS_MIN_REFRESH_MS = 30 * 1000;
+
+// Signing keys from the JWKS endpoint, by key ID
+let jwksCache: { keys: Map<string, KeyObject>; fetchedAt: number } | null = null;
+
+/**
+ * Shape a Supabase session for API responses
+ */
+const toSession = (session: {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  expires_at?: number;
+}): AuthResponse["session"] => ({
+  access_token: session.access_token,
+  refresh_token: session.refresh_token,
+  token_type: "Bearer",
+  expires_in: session.expires_in,
+  expires_at: session.expires_at,
+});
+
+/**
+ * Get the public key for a key ID from Supabase's JWKS, with caching
+ * Refetches when the cache expires, or early when a new key ID shows up
+ * (Supabase rotated its keys)
+ */
+const getSigningKey = async (kid: string): Promise<KeyObject> => {
+  const age = jwksCache ? Date.now() - jwksCache.fetchedAt : Infinity;
+  const stale = age > config.auth.jwksCacheTtlMs;
+  const unknownKid = !jwksCache?.keys.has(kid) && age > JWKS_MIN_REFRESH_MS;
+
+  if (stale || unknownKid) {
+    const response = await axios.get<{ keys: any[] }>(config.auth.jwksUrl, {
+      timeout: 5000,
+    });
+    jwksCache = {
+      keys: new Map(
+        response.data.keys.map((jwk) => [
+          jwk.kid,
+          createPublicKey({ key: jwk, format: "jwk" }),
+        ])
+      ),
+      fetchedAt: Date.now(),
+    };
+  }
+
+  const key = jwksCache?.keys.get(kid);
+  if (!key) {
+    throw new Error(`Unknown signing key: ${kid}`);
+  }
+  return key;
+};
 
 export const supabaseService = {
   /**
@@ -25,10 +97,7 @@ export const supabaseService = {
         id: data.user.id,
         email: data.user.email!,
       },
-      session: {
-        access_token: data.session.access_token,
-        token_type: "Bearer",
-      },
+      session: toSession(data.session),
     };
   },
 
@@ -52,28 +121,164 @@ export const supabaseService = {
         id: data.user.id,
         email: data.user.email!,
       },
-      session: {
-        access_token: data.session.access_token,
-        token_type: "Bearer",
-      },
+      session: toSession(data.session),
     };
   },
 
   /**
    * Verify JWT token and extract user ID
+   * Uses the mode in config.auth.verification (local, remote or hybrid)
    */
   async verifyToken(
     token: string
-  ): Promise<{ userId: string; email: string }> {
+  ): Promise<AuthenticatedUser> {
+    switch (config.auth.verification) {
+      case "remote":
+        return this.verifyTokenRemotely(token);
+      case "hybrid": {
+        const user = await this.verifyTokenLocally(token);
+        await this.verifyTokenRemotely(token);
+        return user;
+      }
+      default:
+        return this.verifyTokenLocally(token);
+    }
+  },
+
+  /**
+   * Verify JWT signature, expiry, audience and issuer without a network call
+   * HS256 tokens are checked with the project's JWT secret; RS256/ES256 tokens
+   * with the matching key from the JWKS endpoint
+   */
+  async verifyTokenLocally(
+    token: string
+  ): Promise<AuthenticatedUser> {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded || typeof decoded.payload === "string") {
+      throw new Error("Invalid or expired token");
+    }
+
+    const algorithm = decoded.header.alg as Algorithm;
+    let key: string | KeyObject;
+    if (algorithm === "HS256") {
+      key = config.supabase.jwtSecret;
+    } else if (ASYMMETRIC_ALGORITHMS.includes(algorithm) && decoded.header.kid) {
+      key = await getSigningKey(decoded.header.kid);
+    } else {
+      throw new Error("Invalid or expired token");
+    }
+
+    let payload: JwtPayload;
+    try {
+      payload = jwt.verify(token, key, {
+        algorithms: [algorithm],
+        audience: config.auth.audience,
+        issuer: config.auth.issuer,
+      }) as JwtPayload;
+    } catch {
+      throw new Error("Invalid or expired token");
+    }
+
+    if (!payload.sub) {
+      throw new Error("Invalid or expired token");
+    }
+
+    return {
+      userId: payload.sub,
+      email: payload.email,
+      sessionId: payload.session_id,
+      issuedAt: payload.iat,
+      expiresAt: payload.exp,
+    };
+  },
+
+  /**
+   * Verify JWT token with Supabase Auth
+   * Costs a round trip, but rejects tokens whose session was revoked
+   */
+  async verifyTokenRemotely(
+    token: string
+  ): Promise<AuthenticatedUser> {
     const { data, error } = await supabase.auth.getUser(token);
 
     if (error || !data.user) {
       throw new Error("Invalid or expired token");
     }
 
+    // Supabase vouched for the token, so its claims can be read as-is
+    const claims = jwt.decode(token) as JwtPayload | null;
+
     return {
       userId: data.user.id,
       email: data.user.email!,
+      sessionId: claims?.session_id,
+      issuedAt: claims?.iat,
+      expiresAt: claims?.exp,
+    };
+  },
+
+  /**
+   * Exchange a refresh token for a new session
+   * Supabase rotates the refresh token; the old one stops working
+   */
+  async refreshSession(refreshToken: string): Promise<AuthResponse> {
+    const { data, error } = await supabase.auth.refreshSession({
+      refresh_token: refreshToken,
+    });
+
+    if (error) throw error;
+    if (!data.user || !data.session) {
+      throw new Error("Refresh failed: No user or session returned");
+    }
+
+    return {
+      user: {
+        id: data.user.id,
+        email: data.user.email!,
+      },
+      session: toSession(data.session),
     };
   },
+
+  /**
+   * Sign out the session an access token belongs to
+   * "global" signs out every session of the user. Supabase revokes the
+   * refresh tokens; access tokens stay valid until they expire unless the
+   * caller also records the revocation (see sessionService).
+   */
+  async signOut(accessToken: string, scope: "local" | "global"): Promise<void> {
+    const { error } = await supabaseAdmin.auth.admin.signOut(accessToken, scope);
+
+    if (error) {
+      throw new Error(`Sign out failed: ${error.message}`);
+    }
+  },
+
+  /**
+   * Check Supabase Auth answers its health endpoint
+   */
+  async checkHealth(): Promise<void> {
+    try {
+      await axios.get(`${config.supabase.url}/auth/v1/health`, {
+        headers: { apikey: config.supabase.anonKey },
+        timeout: config.health.probeTimeoutMs,
+      });
+    } catch (error: any) {
+      throw new Error(
+        `Supabase Auth health check failed: ${error.response?.status ?? error.message}`
+      );
+    }
+  },
+
+  /**
+   * Delete a user, e.g. to undo a signup whose wallet could not be created
+   * Rows referencing the user are removed by ON DELETE CASCADE
+   */
+  async deleteUser(userId: string): Promise<void> {
+    const { error } = await supabaseAdmin.auth.admin.deleteUser(userId);
+
+    if (error) {
+      throw new Error(`Failed to delete user: ${error.message}`);
+    }
+  },
 };
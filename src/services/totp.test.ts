@@ -0,0 +1,38 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { totpService } from "./totp";
+
+// RFC 6238 appendix B: the SHA-1 key "12345678901234567890" gives 07081804
+// at T = 1111111109 s, whose last six digits are the code
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const CODE = "081804";
+const STEP = Math.floor(1111111109 / 30);
+
+// A moment inside a time step
+const during = (step: number): number => step * 30 * 1000 + 1000;
+
+describe("totpService.verifyCode", () => {
+  test("accepts the code in its own step and returns the step", () => {
+    assert.equal(totpService.verifyCode(SECRET, CODE, 1111111109 * 1000), STEP);
+  });
+
+  test("accepts the code one step early or late, for clock drift", () => {
+    assert.equal(totpService.verifyCode(SECRET, CODE, during(STEP - 1)), STEP);
+    assert.equal(totpService.verifyCode(SECRET, CODE, during(STEP + 1)), STEP);
+  });
+
+  test("refuses the code two steps away", () => {
+    assert.equal(totpService.verifyCode(SECRET, CODE, during(STEP - 2)), null);
+    assert.equal(totpService.verifyCode(SECRET, CODE, during(STEP + 2)), null);
+  });
+
+  test("refuses codes that aren't six digits", () => {
+    for (const code of ["81804", "0818040", "08180a", ""]) {
+      assert.equal(totpService.verifyCode(SECRET, code, during(STEP)), null);
+    }
+  });
+
+  test("refuses a wrong code", () => {
+    assert.equal(totpService.verifyCode(SECRET, "081805", during(STEP)), null);
+  });
+});
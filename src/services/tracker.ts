@@ -0,0 +1,188 @@
+import { config } from "../config";
+import { TransactionRecord } from "../types";
+import { databaseService } from "./database";
+import { blockchainService } from "./blockchain";
+import { webhookService } from "./webhooks";
+import { realtimeService } from "./realtime";
+import { logger } from "./logger";
+import { metricsService } from "./metrics";
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+export const transactionTracker = {
+  /**
+   * Start polling pending transactions in the background
+   * Safe to call more than once; only one loop runs
+   */
+  start(): void {
+    if (timer) return;
+
+    timer = setInterval(() => {
+      this.tick().catch((error) =>
+        logger.error("Transaction tracker error", { error })
+      );
+    }, config.tracker.pollIntervalMs);
+  },
+
+  /**
+   * Stop the background loop
+   */
+  stop(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  },
+
+  /**
+   * Reconcile every pending transaction once
+   * Skips the run if the previous one is still in progress
+   */
+  async tick(): Promise<void> {
+    if (running) return;
+    running = true;
+
+    try {
+      const pending = await databaseService.listPendingTransactions();
+      for (const record of pending) {
+        try {
+          await this.reconcile(record);
+        } catch (error: any) {
+          logger.error("Failed to reconcile transaction", {
+            txHash: record.tx_hash,
+            error,
+          });
+        }
+      }
+    } finally {
+      running = false;
+    }
+  },
+
+  /**
+   * Check one pending transaction against the chain and record its outcome
+   *
+   * - Mined with enough confirmations: success or failed (reverted)
+   * - Mined but shallow: confirmation count updated, stays pending
+   * - Unmined and a ledger transaction with the same nonce mined: replaced
+   * - Unknown to the node past the drop timeout: dropped
+   */
+  async reconcile(record: TransactionRecord): Promise<void> {
+    const receipt = await blockchainService.getTransactionReceipt(
+      record.tx_hash,
+      record.chain_id
+    );
+
+    if (receipt) {
+      const confirmations = await receipt.confirmations();
+
+      if (confirmations < config.tracker.confirmations) {
+        if (confirmations !== record.confirmations) {
+          const updated = await databaseService.updateTransactionStatus(
+            record.tx_hash,
+            "pending",
+            { block_number: receipt.blockNumber, confirmations }
+          );
+          realtimeService.publish(
+            updated.supabase_id,
+            "transaction.confirmations",
+            webhookService.transactionData(updated)
+          );
+        }
+        return;
+      }
+
+      const settled = await databaseService.updateTransactionStatus(
+        record.tx_hash,
+        receipt.status === 1 ? "success" : "failed",
+        {
+          block_number: receipt.blockNumber,
+          confirmations,
+          gas_used: receipt.gasUsed.toString(),
+          error: receipt.status === 1 ? null : "Transaction reverted",
+          confirmed_at: new Date().toISOString(),
+        }
+      );
+      if (settled.status === "failed") {
+        metricsService.recordTransactionFailed(settled.chain_id, "reverted");
+      }
+      await webhookService.emitTransaction(
+        settled.status === "success" ? "transaction.confirmed" : "transaction.failed",
+        settled
+      );
+      return;
+    }
+
+    // A mined nonce past ours means some transaction took the slot
+    const confirmedNonce = await blockchainService.getConfirmedNonce(
+      record.from_address,
+      record.chain_id
+    );
+    const nonceUsed = confirmedNonce > record.nonce;
+    if (nonceUsed) {
+      // The nonce may come from a node ahead of the one that had no receipt;
+      // ask again before deciding this transaction wasn't the one mined
+      const receipt = await blockchainService.getTransactionReceipt(
+        record.tx_hash,
+        record.chain_id
+      );
+      if (receipt) return;
+
+      const replacement = await this.findMinedSibling(record);
+      if (replacement) {
+        const replaced = await databaseService.updateTransactionStatus(
+          record.tx_hash,
+          "replaced",
+          { error: `Nonce ${record.nonce} was used by ${replacement}` }
+        );
+        await webhookService.emitTransaction("transaction.replaced", replaced);
+        return;
+      }
+    }
+
+    const age = Date.now() - new Date(record.created_at).getTime();
+    if (age < config.tracker.dropTimeoutMs) return;
+
+    const mempoolTx = await blockchainService.getTransaction(
+      record.tx_hash,
+      record.chain_id
+    );
+    if (!mempoolTx) {
+      const dropped = await databaseService.updateTransactionStatus(
+        record.tx_hash,
+        "dropped",
+        {
+          error: nonceUsed
+            ? `Nonce ${record.nonce} was used by a transaction not in the ledger`
+            : "Transaction was dropped from the mempool",
+        }
+      );
+      await webhookService.emitTransaction("transaction.dropped", dropped);
+    }
+  },
+
+  /**
+   * Find the mined transaction among the ledger's others at a record's nonce
+   * (its replacements, or the original it replaced)
+   * Returns the hash, or null if none of them has a receipt.
+   */
+  async findMinedSibling(record: TransactionRecord): Promise<string | null> {
+    const siblings = await databaseService.listTransactionsAtNonce(
+      record.from_address,
+      record.chain_id,
+      record.nonce
+    );
+
+    for (const sibling of siblings) {
+      if (sibling.tx_hash === record.tx_hash) continue;
+      const receipt = await blockchainService.getTransactionReceipt(
+        sibling.tx_hash,
+        sibling.chain_id
+      );
+      if (receipt) return sibling.tx_hash;
+    }
+
+    return null;
+  },
+};
@@ -0,0 +1,136 @@
+import "../testing/unitEnv";
+import { afterEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import dns from "dns";
+import { WebhookDelivery, WebhookEndpoint } from "../types";
+import { databaseService } from "./database";
+import { webhookService } from "./webhooks";
+
+const USER_ID = "0b6c1b9e-5d0c-4c1e-9f37-6a3f4d1e2c11";
+
+const endpoint = (fields: Partial<WebhookEndpoint> = {}): WebhookEndpoint => ({
+  id: "2f1d5c3b-8a9e-4f70-b6c1-2d3e4f5a6b7c",
+  supabase_id: USER_ID,
+  url: "http://hooks.example.test/para",
+  secret: "whsec_test",
+  events: [],
+  active: true,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  ...fields,
+});
+
+const delivery = (): WebhookDelivery => ({
+  id: "7a6b5c4d-3e2f-4a1b-9c8d-7e6f5a4b3c2d",
+  endpoint_id: endpoint().id,
+  supabase_id: USER_ID,
+  event_id: "5f1d2c3b-8a9e-4f70-b6c1-2d3e4f5a6b7c",
+  event_type: "wallet.ready",
+  payload: {
+    id: "5f1d2c3b-8a9e-4f70-b6c1-2d3e4f5a6b7c",
+    type: "wallet.ready",
+    createdAt: new Date().toISOString(),
+    data: {},
+  },
+  status: "pending",
+  attempts: 0,
+  next_attempt_at: new Date().toISOString(),
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+});
+
+/**
+ * Run one delivery attempt and return the error it recorded
+ */
+const attemptError = async (target: WebhookEndpoint): Promise<string | null | undefined> => {
+  mock.method(databaseService, "saveWebhookAttempt", async () => undefined);
+  const update = mock.method(databaseService, "updateWebhookDelivery", async () => delivery());
+
+  await webhookService.attempt(delivery(), target);
+  return update.mock.calls[0].arguments[1]?.last_error;
+};
+
+describe("webhookService", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  describe("checkEndpointAddress", () => {
+    for (const url of [
+      "http://127.0.0.1/hook",
+      "http://10.1.2.3/hook",
+      "http://172.16.0.1/hook",
+      "http://192.168.1.1/hook",
+      "http://100.64.0.1/hook",
+      "http://169.254.169.254/latest/meta-data",
+      "http://0.0.0.0/hook",
+      "http://[::1]/hook",
+      "http://[fd00::1]/hook",
+      "http://[fe80::1]/hook",
+      "http://[::ffff:127.0.0.1]/hook",
+      "http://[64:ff9b::a9fe:a9fe]/hook",
+    ]) {
+      test(`refuses ${url}`, async () => {
+        assert.match((await webhookService.checkEndpointAddress(url))!, /must not point/);
+      });
+    }
+
+    test("accepts a public address", async () => {
+      assert.equal(await webhookService.checkEndpointAddress("https://93.184.215.14/hook"), null);
+    });
+
+    test("refuses a hostname that resolves to a private address", async () => {
+      mock.method(dns.promises, "lookup", async () => [
+        { address: "93.184.215.14", family: 4 },
+        { address: "10.0.0.7", family: 4 },
+      ]);
+      assert.match(
+        (await webhookService.checkEndpointAddress("https://hooks.example.test/para"))!,
+        /must not point/
+      );
+    });
+  });
+
+  describe("attempt", () => {
+    test("refuses to connect to a hostname that now resolves to a private address", async () => {
+      // Registered while public; re-pointed inward since
+      mock.method(dns, "lookup", (_hostname: string, options: any, callback: any) => {
+        const address = "169.254.169.254";
+        return options?.all
+          ? callback(null, [{ address, family: 4 }])
+          : callback(null, address, 4);
+      });
+
+      assert.match(
+        (await attemptError(endpoint()))!,
+        /hooks\.example\.test resolves to a private address \(169\.254\.169\.254\)/
+      );
+    });
+
+    test("refuses a private IP literal without a DNS lookup", async () => {
+      const lookup = mock.method(dns, "lookup");
+
+      assert.match(
+        (await attemptError(endpoint({ url: "http://[::1]:8080/hook" })))!,
+        /::1 is a private address/
+      );
+      assert.equal(lookup.mock.callCount(), 0);
+    });
+  });
+
+  describe("tick", () => {
+    test("fails a due delivery whose endpoint is inactive instead of retrying it", async () => {
+      mock.method(databaseService, "listDueWebhookDeliveries", async () => [delivery()]);
+      mock.method(databaseService, "claimWebhookDelivery", async () => true);
+      mock.method(databaseService, "getWebhookEndpoint", async () => endpoint({ active: false }));
+      const update = mock.method(databaseService, "updateWebhookDelivery", async () => delivery());
+
+      await webhookService.tick();
+
+      assert.deepEqual(update.mock.calls[0].arguments[1], {
+        status: "failed",
+        last_error: "Endpoint is inactive",
+      });
+    });
+  });
+});
@@ -0,0 +1,396 @@
+import axios from "axios";
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP } from "net";
+import { config } from "../config";
+import {
+  TransactionRecord,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+} from "../types";
+import { databaseService } from "./database";
+import { realtimeService } from "./realtime";
+import { logger } from "./logger";
+
+// How long an attempt may hold a delivery before another worker retries it
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+// Longest wait between attempts
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Addresses webhooks must never reach: this host, internal networks, link-local
+// (including cloud metadata at 169.254.169.254) and other non-public ranges.
+// IPv4-mapped IPv6 addresses match the IPv4 ranges.
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is one webhooks may not be sent to
+ */
+const isPrivateAddress = (address: string): boolean =>
+  !config.webhooks.allowPrivateAddresses &&
+  privateAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+
+/**
+ * DNS lookup for delivery sockets that refuses private addresses
+ * Checking the address actually connected to means a hostname that resolved
+ * to a public address at registration can't be re-pointed inward later.
+ */
+const guardedLookup = (hostname: string, options: any, callback: any): void => {
+  dns.lookup(hostname, options, (error: any, address: any, family?: number) => {
+    if (error) return callback(error, address, family);
+
+    const addresses: { address: string }[] = Array.isArray(address)
+      ? address
+      : [{ address }];
+    const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+    if (blocked) {
+      return callback(
+        new Error(`${hostname} resolves to a private address (${blocked.address})`),
+        address,
+        family
+      );
+    }
+    callback(null, address, family);
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+/**
+ * HMAC-SHA256 signature header for a payload
+ * Receivers recompute HMAC(secret, "<t>.<body>") and compare it with v1.
+ * The timestamp is signed too, so old deliveries can't be replayed at them.
+ */
+const signPayload = (secret: string, timestamp: number, body: string): string => {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+};
+
+const retryDelayMs = (attempts: number): number =>
+  Math.min(config.webhooks.retryBaseDelayMs * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+export const webhookService = {
+  /**
+   * Check that an endpoint URL's host is a public address
+   * Returns an error message, or null if it is acceptable. Deliveries check
+   * again on every connection.
+   */
+  async checkEndpointAddress(url: string): Promise<string | null> {
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+
+    let addresses: string[];
+    try {
+      addresses = isIP(hostname)
+        ? [hostname]
+        : (await dns.promises.lookup(hostname, { all: true })).map((entry) => entry.address);
+    } catch {
+      return `'url' host ${hostname} could not be resolved`;
+    }
+
+    if (addresses.some(isPrivateAddress)) {
+      return "'url' must not point to a loopback, private, link-local or metadata address";
+    }
+    return null;
+  },
+
+  /**
+   * Generate a signing secret for a new endpoint
+   */
+  generateSecret(): string {
+    return `whsec_${randomBytes(24).toString("hex")}`;
+  },
+
+  /**
+   * Queue an event for every endpoint of the user subscribed to it, and try
+   * to deliver it right away
+   * The event also goes to the user's open real-time streams.
+   * Never throws: a webhook problem must not fail the action that caused it.
+   */
+  async emit(
+    supabaseId: string,
+    type: WebhookEventType,
+    data: Record<string, any>
+  ): Promise<void> {
+    try {
+      await this.dispatch(supabaseId, {
+        id: randomUUID(),
+        type,
+        createdAt: new Date().toISOString(),
+        data,
+      });
+    } catch (error: any) {
+      logger.error("Failed to emit webhook", { type, error });
+    }
+  },
+
+  /**
+   * Like emit, for an event built by the caller, and throwing if it could
+   * not be queued
+   * For events that must not be lost: the caller retries, and reusing the
+   * event ID lets receivers drop the copies that did get through.
+   */
+  async dispatch(supabaseId: string, event: WebhookEvent): Promise<void> {
+    realtimeService.publish(supabaseId, event.type, event.data, event.id);
+
+    const endpoints = (await databaseService.listWebhookEndpoints(supabaseId)).filter(
+      (endpoint) =>
+        endpoint.active &&
+        (endpoint.events.length === 0 || endpoint.events.includes(event.type))
+    );
+
+    for (const endpoint of endpoints) {
+      await this.enqueue(endpoint, event);
+    }
+  },
+
+  /**
+   * Queue one event for one endpoint and attempt it in the background
+   * The delivery starts out leased to this attempt; if the process stops
+   * before it finishes, the dispatcher picks it up when the lease runs out.
+   */
+  async enqueue(
+    endpoint: WebhookEndpoint,
+    event: WebhookEvent,
+    replayOf: string | null = null
+  ): Promise<WebhookDelivery> {
+    const delivery = await databaseService.saveWebhookDelivery({
+      endpoint_id: endpoint.id,
+      supabase_id: endpoint.supabase_id,
+      event_id: event.id,
+      event_type: event.type,
+      payload: event,
+      next_attempt_at: new Date(Date.now() + DELIVERY_LEASE_MS).toISOString(),
+      replay_of: replayOf,
+    });
+
+    this.attempt(delivery, endpoint).catch((error) =>
+      logger.error("Webhook delivery error", { deliveryId: delivery.id, error })
+    );
+
+    return delivery;
+  },
+
+  /**
+   * Queue a past delivery's event again, with the same event ID
+   */
+  async replay(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const endpoint = await databaseService.getWebhookEndpoint(
+      delivery.supabase_id,
+      delivery.endpoint_id
+    );
+    if (!endpoint) {
+      throw new Error("Webhook endpoint no longer exists");
+    }
+
+    return this.enqueue(endpoint, delivery.payload, delivery.id);
+  },
+
+  /**
+   * POST a delivery to its endpoint once, log the attempt and schedule the
+   * next one if it failed
+   * Any 2xx response counts as delivered. Call only while holding the lease.
+   */
+  async attempt(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<void> {
+    const attempt = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+    const startedAt = Date.now();
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      // IP literals skip DNS, so the agents' lookup never sees them
+      const hostname = new URL(endpoint.url).hostname.replace(/^\[|\]$/g, "");
+      if (isIP(hostname) && isPrivateAddress(hostname)) {
+        throw new Error(`${hostname} is a private address`);
+      }
+
+      const response = await axios.post(endpoint.url, body, {
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "para-fintech-webhooks/1.0",
+          "X-Webhook-Id": delivery.event_id,
+          "X-Webhook-Event": delivery.event_type,
+          "X-Webhook-Signature": signPayload(
+            endpoint.secret,
+            Math.floor(startedAt / 1000),
+            body
+          ),
+        },
+        timeout: config.webhooks.timeoutMs,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        // Connect directly, so every address is checked by the agents
+        httpAgent,
+        httpsAgent,
+        proxy: false,
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Endpoint responded with ${statusCode}`;
+      }
+    } catch (requestError: any) {
+      error = requestError.message;
+    }
+
+    await databaseService.saveWebhookAttempt({
+      delivery_id: delivery.id,
+      attempt,
+      status_code: statusCode,
+      error,
+      duration_ms: Date.now() - startedAt,
+    });
+
+    if (!error) {
+      await databaseService.updateWebhookDelivery(delivery.id, {
+        status: "succeeded",
+        attempts: attempt,
+        last_status_code: statusCode,
+        last_error: null,
+        delivered_at: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const exhausted = attempt >= config.webhooks.maxAttempts;
+    await databaseService.updateWebhookDelivery(delivery.id, {
+      status: exhausted ? "failed" : "pending",
+      attempts: attempt,
+      last_status_code: statusCode,
+      last_error: error,
+      next_attempt_at: new Date(Date.now() + retryDelayMs(attempt)).toISOString(),
+    });
+  },
+
+  /**
+   * Start retrying due deliveries in the background
+   * Safe to call more than once; only one loop runs
+   */
+  start(): void {
+    if (timer) return;
+
+    timer = setInterval(() => {
+      this.tick().catch((error) =>
+        logger.error("Webhook dispatcher error", { error })
+      );
+    }, config.webhooks.pollIntervalMs);
+  },
+
+  /**
+   * Stop the background loop
+   */
+  stop(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  },
+
+  /**
+   * Attempt every due delivery once
+   * Skips the run if the previous one is still in progress
+   */
+  async tick(): Promise<void> {
+    if (running) return;
+    running = true;
+
+    try {
+      const due = await databaseService.listDueWebhookDeliveries();
+      for (const delivery of due) {
+        try {
+          const leaseUntil = new Date(Date.now() + DELIVERY_LEASE_MS).toISOString();
+          if (
+            !(await databaseService.claimWebhookDelivery(
+              delivery.id,
+              delivery.next_attempt_at,
+              leaseUntil
+            ))
+          ) {
+            continue;
+          }
+
+          const endpoint = await databaseService.getWebhookEndpoint(
+            delivery.supabase_id,
+            delivery.endpoint_id
+          );
+          if (!endpoint?.active) {
+            // Settle it, or it would be claimed again every time its lease ran out
+            await databaseService.updateWebhookDelivery(delivery.id, {
+              status: "failed",
+              last_error: endpoint ? "Endpoint is inactive" : "Endpoint no longer exists",
+            });
+            continue;
+          }
+
+          await this.attempt(delivery, endpoint);
+        } catch (error: any) {
+          logger.error("Failed to deliver webhook", { deliveryId: delivery.id, error });
+        }
+      }
+    } finally {
+      running = false;
+    }
+  },
+
+  /**
+   * Emit a transaction event with the transaction's current state
+   */
+  emitTransaction(type: WebhookEventType, record: TransactionRecord): Promise<void> {
+    return this.emit(record.supabase_id, type, this.transactionData(record));
+  },
+
+  /**
+   * Event payload describing a transaction
+   */
+  transactionData(record: TransactionRecord): Record<string, any> {
+    return {
+      transactionHash: record.tx_hash,
+      kind: record.kind,
+      status: record.status,
+      replacesTransactionHash: record.replaces_tx_hash ?? null,
+      from: record.from_address,
+      to: record.to_address,
+      token: record.token_address ?? null,
+      value: record.value,
+      nonce: record.nonce,
+      chainId: record.chain_id,
+      blockNumber: record.block_number ?? null,
+      confirmations: record.confirmations,
+      gasUsed: record.gas_used ?? null,
+      error: record.error ?? null,
+    };
+  },
+};
@@ -0,0 +1,121 @@
+import { ChildProcess, spawn } from "child_process";
+import { createServer } from "net";
+import { JsonRpcProvider, toQuantity } from "ethers";
+
+interface DevChainOptions {
+  chainId?: number;
+  // Seconds between blocks; 0 mines a block per transaction only
+  blockTimeSeconds?: number;
+  // anvil binary; npm scripts put node_modules/.bin on PATH
+  command?: string;
+  startupTimeoutMs?: number;
+}
+
+/**
+ * A free local TCP port
+ */
+export const freePort = (): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once("error", reject);
+    probe.listen(0, "127.0.0.1", () => {
+      const address = probe.address();
+      const port = typeof address === "object" && address ? address.port : 0;
+      probe.close(() => resolve(port));
+    });
+  });
+
+/**
+ * Start a local EVM dev chain (anvil, from @foundry-rs/anvil) as a child
+ * process and wait until it answers JSON-RPC
+ * Balances are set directly rather than funded from a prefunded account, so
+ * tests don't depend on anvil's default mnemonic.
+ */
+export const startDevChain = async ({
+  chainId = 31337,
+  blockTimeSeconds = 0,
+  command = process.env.ANVIL_PATH || "anvil",
+  startupTimeoutMs = 15000,
+}: DevChainOptions = {}) => {
+  const port = await freePort();
+  const rpcUrl = `http://127.0.0.1:${port}`;
+
+  const args = ["--host", "127.0.0.1", "--port", String(port), "--chain-id", String(chainId)];
+  if (blockTimeSeconds > 0) {
+    args.push("--block-time", String(blockTimeSeconds));
+  }
+
+  const child: ChildProcess = spawn(command, args, { stdio: ["ignore", "ignore", "pipe"] });
+  // Don't leave the chain running if the process exits without stop()
+  const killChain = () => child.kill();
+  process.once("exit", killChain);
+
+  let stderr = "";
+  child.stderr?.on("data", (chunk) => {
+    stderr = (stderr + chunk).slice(-2000);
+  });
+
+  // Set if anvil can't be run or exits while starting up
+  let startupError: Error | null = null;
+  child.once("error", (error) => {
+    startupError = new Error(`Failed to start ${command}: ${error.message}`);
+  });
+  child.once("exit", (code) => {
+    startupError = new Error(`${command} exited with code ${code}: ${stderr.trim()}`);
+  });
+
+  const provider = new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+
+  const deadline = Date.now() + startupTimeoutMs;
+  for (;;) {
+    if (!startupError && Date.now() > deadline) {
+      startupError = new Error(`Dev chain did not start within ${startupTimeoutMs}ms`);
+      child.kill();
+    }
+    if (startupError) {
+      provider.destroy();
+      throw startupError;
+    }
+    try {
+      await provider.send("eth_chainId", []);
+      break;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  return {
+    rpcUrl,
+    chainId,
+    provider,
+
+    /**
+     * Set an address's native balance, in wei
+     */
+    async fund(address: string, wei: bigint): Promise<void> {
+      await provider.send("anvil_setBalance", [address, toQuantity(wei)]);
+    },
+
+    /**
+     * Mine blocks now, e.g. to reach a confirmation count
+     */
+    async mine(blocks: number = 1): Promise<void> {
+      await provider.send("anvil_mine", [toQuantity(blocks)]);
+    },
+
+    /**
+     * Stop the chain process
+     */
+    async stop(): Promise<void> {
+      process.off("exit", killChain);
+      provider.destroy();
+      if (child.exitCode !== null) return;
+      await new Promise<void>((resolve) => {
+        child.once("exit", () => resolve());
+        child.kill();
+      });
+    },
+  };
+};
+
+export type DevChain = Awaited<ReturnType<typeof startDevChain>>;
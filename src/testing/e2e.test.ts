@@ -0,0 +1,167 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { Wallet, parseEther } from "ethers";
+import { LocalEnvironment, startLocalEnvironment } from "./environment";
+import {
+  AuthResponse,
+  ParaWallet,
+  SendTransactionResponse,
+  TransactionKind,
+  TransactionStatus,
+} from "../types";
+
+// Response bodies of the routes the test calls, as far as it reads them
+interface SignupBody extends AuthResponse {
+  wallet: { id: string; status: ParaWallet["status"]; address: string | null };
+}
+
+interface WalletStatusBody {
+  status: ParaWallet["status"];
+  address: string | null;
+}
+
+interface TransactionBody {
+  kind: TransactionKind | "deposit";
+  status: TransactionStatus;
+  confirmations: number;
+  confirmedAt: string | null;
+}
+
+/**
+ * Signup to a confirmed send, through the HTTP API, against the offline
+ * environment: npm test
+ * Uses the Postgres database on DATABASE_URL if set (migrations are applied
+ * to it), or else a throwaway one.
+ */
+describe("end to end", () => {
+  let environment: LocalEnvironment;
+  let server: Server;
+  let baseUrl: string;
+  let closeDatabase: () => Promise<void>;
+  let reconcile: () => Promise<void>;
+
+  let accessToken: string;
+  let walletAddress: string;
+  let transactionHash: string;
+
+  const api = async <T>(method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}/api${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as T };
+  };
+
+  /**
+   * Call check until it returns a value, or fail after timeoutMs
+   */
+  const waitFor = async <T>(
+    what: string,
+    check: () => Promise<T | undefined>,
+    timeoutMs: number = 10000
+  ): Promise<T> => {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const value = await check();
+      if (value !== undefined) return value;
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${what}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  };
+
+  before(async () => {
+    // Wallets turn ready on their first lookup, so provisioning's background
+    // watcher stops straight away rather than outliving the tests
+    environment = await startLocalEnvironment({ paraReadyAfterMs: 0 });
+    Object.assign(process.env, environment.env, {
+      TX_CONFIRMATIONS: "1",
+      DEPOSIT_SCAN_ENABLED: "false",
+      LOG_LEVEL: process.env.LOG_LEVEL || "error",
+    });
+
+    // Imported only now: config reads the environment once, at import
+    const { default: app } = await import("../index");
+    const { databaseService } = await import("../services/database");
+    const { transactionTracker } = await import("../services/tracker");
+
+    await databaseService.initializeSchema();
+    closeDatabase = () => databaseService.close();
+    reconcile = () => transactionTracker.tick();
+
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    await closeDatabase?.();
+    await environment?.stop();
+  });
+
+  test("signup creates the user and a Para wallet", async () => {
+    const { status, body } = await api<SignupBody>("POST", "/auth/signup", {
+      email: `e2e-${Date.now()}@example.com`,
+      password: "TestPassword123!",
+    });
+
+    assert.equal(status, 201);
+    assert.ok(body.session.access_token);
+    assert.ok(body.wallet.id);
+    assert.equal(body.wallet.status, "creating");
+    assert.ok(environment.para.getWallet(body.wallet.id));
+    accessToken = body.session.access_token;
+  });
+
+  test("the wallet turns ready and is funded", async () => {
+    walletAddress = await waitFor("the wallet to be ready", async () => {
+      const { status, body } = await api<WalletStatusBody>("GET", "/wallet/status");
+      assert.equal(status, 200);
+      return body.status === "ready" ? body.address ?? undefined : undefined;
+    });
+
+    const balance = await environment.chain.provider.getBalance(walletAddress);
+    assert.equal(balance, parseEther("10"));
+  });
+
+  test("a send is signed by Para and broadcast", async () => {
+    const recipient = Wallet.createRandom().address;
+    const { status, body } = await api<SendTransactionResponse>("POST", "/transaction/send", {
+      to: recipient,
+      amount: "0.01",
+    });
+
+    assert.equal(status, 201, JSON.stringify(body));
+    assert.equal(body.status, "pending");
+    assert.equal(body.from, walletAddress);
+    transactionHash = body.transactionHash;
+
+    const transaction = await environment.chain.provider.getTransaction(transactionHash);
+    assert.equal(transaction?.from, walletAddress);
+    assert.equal(transaction?.to, recipient);
+    assert.equal(transaction?.value, parseEther("0.01"));
+    assert.equal(environment.para.signedHashes().length, 1);
+  });
+
+  test("the tracker confirms the send", async () => {
+    const confirmed = await waitFor("the send to be confirmed", async () => {
+      await reconcile();
+      // Served from the ledger (with confirmedAt) once the tracker settles it
+      const { body } = await api<TransactionBody>("GET", `/transaction/${transactionHash}`);
+      return body.confirmedAt ? body : undefined;
+    });
+
+    assert.equal(confirmed.status, "success");
+    assert.equal(confirmed.kind, "transfer");
+    assert.ok(confirmed.confirmations >= 1);
+  });
+});
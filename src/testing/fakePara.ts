@@ -0,0 +1,218 @@
+import express, { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { SigningKey, computeAddress, hexlify, randomBytes } from "ethers";
+import { ParaWallet } from "../types";
+
+const HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+interface FakeParaOptions {
+  apiKey: string;
+  // How long a new wallet stays "creating", like Para's key generation
+  readyAfterMs?: number;
+  // Called once when a wallet turns ready, before it is returned (e.g. to fund it)
+  onWalletReady?: (wallet: ParaWallet) => Promise<void> | void;
+}
+
+interface FakeWallet {
+  wallet: ParaWallet;
+  signingKey: SigningKey;
+  readyAt: number;
+}
+
+/**
+ * In-process stand-in for Para's REST API, for offline development and tests
+ * Implements POST /v1/wallets, GET /v1/wallets (by userIdentifier),
+ * GET /v1/wallets/:id and POST /v1/wallets/:id/sign-raw. Each wallet gets a real secp256k1 key, so
+ * its signatures recover to its address and transactions it signs are valid
+ * on any EVM chain (e.g. a local dev chain).
+ */
+export const createFakePara = ({
+  apiKey,
+  readyAfterMs = 200,
+  onWalletReady,
+}: FakeParaOptions) => {
+  const wallets = new Map<string, FakeWallet>();
+  // Errors to answer the next requests with, to exercise retries and outages
+  const injectedFailures: number[] = [];
+  const signedHashes: { walletId: string; data: string }[] = [];
+  let server: Server | null = null;
+
+  /**
+   * Turn a wallet ready once its key generation time has passed
+   */
+  const refresh = async (entry: FakeWallet): Promise<ParaWallet> => {
+    if (entry.wallet.status === "creating" && Date.now() >= entry.readyAt) {
+      const ready: ParaWallet = {
+        ...entry.wallet,
+        status: "ready",
+        address: computeAddress(entry.signingKey.publicKey),
+        publicKey: entry.signingKey.publicKey,
+      };
+      await onWalletReady?.(ready);
+      entry.wallet = ready;
+    }
+    return entry.wallet;
+  };
+
+  const app = express();
+  app.use(express.json());
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (req.header("X-API-Key") !== apiKey) {
+      return res.status(401).json({ message: "Invalid API key" });
+    }
+    const failure = injectedFailures.shift();
+    if (failure) {
+      return res.status(failure).json({ message: `Injected failure (${failure})` });
+    }
+    next();
+  });
+
+  app.post("/v1/wallets", (req: Request, res: Response) => {
+    const { type, userIdentifier, userIdentifierType } = req.body || {};
+
+    if (type !== "EVM" || !userIdentifier || !userIdentifierType) {
+      return res.status(400).json({
+        message: "'type' (EVM), 'userIdentifier' and 'userIdentifierType' are required",
+      });
+    }
+
+    // One wallet per (type, scheme, userIdentifier)
+    const existing = [...wallets.values()].find(
+      (entry) => entry.wallet.userIdentifier === userIdentifier
+    );
+    if (existing) {
+      return res.status(409).json({
+        message: "A wallet already exists for this user identifier",
+        walletId: existing.wallet.id,
+      });
+    }
+
+    const entry: FakeWallet = {
+      wallet: {
+        id: randomUUID(),
+        type: "EVM",
+        status: "creating",
+        createdAt: new Date().toISOString(),
+        scheme: "DKLS",
+        userIdentifier,
+        userIdentifierType,
+      },
+      signingKey: new SigningKey(hexlify(randomBytes(32))),
+      readyAt: Date.now() + readyAfterMs,
+    };
+    wallets.set(entry.wallet.id, entry);
+
+    return res.status(201).json(entry.wallet);
+  });
+
+  app.get("/v1/wallets", async (req: Request, res: Response) => {
+    const { userIdentifier } = req.query;
+    if (!userIdentifier) {
+      return res.status(400).json({ message: "'userIdentifier' is required" });
+    }
+
+    try {
+      const matches = [...wallets.values()].filter(
+        (entry) => entry.wallet.userIdentifier === userIdentifier
+      );
+      return res.status(200).json({ wallets: await Promise.all(matches.map(refresh)) });
+    } catch (error: any) {
+      return res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/v1/wallets/:id", async (req: Request, res: Response) => {
+    const entry = wallets.get(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ message: `Wallet ${req.params.id} not found` });
+    }
+
+    try {
+      return res.status(200).json(await refresh(entry));
+    } catch (error: any) {
+      return res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/v1/wallets/:id/sign-raw", async (req: Request, res: Response) => {
+    const entry = wallets.get(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ message: `Wallet ${req.params.id} not found` });
+    }
+
+    const { data } = req.body || {};
+    if (typeof data !== "string" || !HASH_PATTERN.test(data)) {
+      return res.status(400).json({ message: "'data' must be a 32-byte 0x-prefixed hash" });
+    }
+
+    try {
+      if ((await refresh(entry)).status !== "ready") {
+        return res.status(409).json({ message: "Wallet is not ready" });
+      }
+    } catch (error: any) {
+      return res.status(500).json({ message: error.message });
+    }
+
+    signedHashes.push({ walletId: entry.wallet.id, data });
+
+    // 65 bytes: r, s and v (27 or 28)
+    return res.status(200).json({
+      signature: entry.signingKey.sign(data).serialized,
+      data,
+    });
+  });
+
+  return {
+    app,
+
+    /**
+     * Listen on a local port (random by default); resolves to the base URL
+     */
+    start(port: number = 0): Promise<string> {
+      return new Promise((resolve, reject) => {
+        server = app.listen(port, "127.0.0.1", () => {
+          const { port: bound } = server!.address() as AddressInfo;
+          resolve(`http://127.0.0.1:${bound}`);
+        });
+        server.once("error", reject);
+      });
+    },
+
+    stop(): Promise<void> {
+      return new Promise((resolve, reject) => {
+        if (!server) return resolve();
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+        server = null;
+      });
+    },
+
+    /**
+     * Current view of a wallet, as GET /v1/wallets/:id would return it
+     */
+    getWallet(walletId: string): ParaWallet | undefined {
+      return wallets.get(walletId)?.wallet;
+    },
+
+    /**
+     * Hashes signed so far, oldest first
+     */
+    signedHashes(): { walletId: string; data: string }[] {
+      return [...signedHashes];
+    },
+
+    /**
+     * Answer the next `times` requests with an HTTP error status
+     */
+    failNext(status: number, times: number = 1): void {
+      for (let i = 0; i < times; i++) {
+        injectedFailures.push(status);
+      }
+    },
+  };
+};
+
+export type FakePara = ReturnType<typeof createFakePara>;
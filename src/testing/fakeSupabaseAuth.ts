@@ -0,0 +1,239 @@
+import express, { Request, Response } from "express";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import jwt, { JwtPayload } from "jsonwebtoken";
+
+interface FakeSupabaseAuthOptions {
+  // Access tokens are HS256 JWTs signed with this, like a Supabase project's
+  jwtSecret: string;
+  accessTokenTtlSeconds?: number;
+}
+
+interface FakeUser {
+  id: string;
+  email: string;
+  passwordHash: string;
+  createdAt: string;
+}
+
+const hashPassword = (password: string): string =>
+  createHash("sha256").update(password).digest("hex");
+
+/**
+ * Auth error in GoTrue's shape, which supabase-js turns into an AuthError
+ */
+const authError = (res: Response, status: number, errorCode: string, msg: string) =>
+  res.status(status).json({ code: status, error_code: errorCode, msg });
+
+/**
+ * In-process stand-in for Supabase Auth (GoTrue), for offline development
+ * and tests. Covers what supabase-js calls from this backend: email/password
+ * signup and login, refresh, getUser, sign-out and user deletion, plus the
+ * health endpoint readiness checks call. Signups are confirmed immediately. Point SUPABASE_URL at it and use its jwtSecret as
+ * SUPABASE_JWT_SECRET so local token verification accepts its tokens.
+ */
+export const createFakeSupabaseAuth = ({
+  jwtSecret,
+  accessTokenTtlSeconds = 3600,
+}: FakeSupabaseAuthOptions) => {
+  const users = new Map<string, FakeUser>();
+  // Refresh token -> session; a refresh token is spent when used
+  const refreshTokens = new Map<string, { userId: string; sessionId: string }>();
+  const revokedSessions = new Set<string>();
+  let server: Server | null = null;
+  let issuer = "";
+
+  const toUser = (user: FakeUser) => ({
+    id: user.id,
+    aud: "authenticated",
+    role: "authenticated",
+    email: user.email,
+    email_confirmed_at: user.createdAt,
+    app_metadata: { provider: "email", providers: ["email"] },
+    user_metadata: {},
+    created_at: user.createdAt,
+    updated_at: user.createdAt,
+  });
+
+  const issueSession = (user: FakeUser, sessionId: string = randomUUID()) => {
+    const refreshToken = randomBytes(16).toString("hex");
+    refreshTokens.set(refreshToken, { userId: user.id, sessionId });
+
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = jwt.sign(
+      {
+        sub: user.id,
+        email: user.email,
+        role: "authenticated",
+        session_id: sessionId,
+      },
+      jwtSecret,
+      {
+        algorithm: "HS256",
+        audience: "authenticated",
+        issuer,
+        expiresIn: accessTokenTtlSeconds,
+      }
+    );
+
+    return {
+      access_token: accessToken,
+      token_type: "bearer",
+      expires_in: accessTokenTtlSeconds,
+      expires_at: now + accessTokenTtlSeconds,
+      refresh_token: refreshToken,
+      user: toUser(user),
+    };
+  };
+
+  /**
+   * Claims of a valid, not signed-out access token from the Authorization header
+   */
+  const verifyBearer = (req: Request): JwtPayload | null => {
+    const token = (req.header("Authorization") || "").replace(/^Bearer\s+/i, "");
+    try {
+      const claims = jwt.verify(token, jwtSecret, {
+        algorithms: ["HS256"],
+        audience: "authenticated",
+        issuer,
+      }) as JwtPayload;
+      return revokedSessions.has(claims.session_id) || !users.has(claims.sub!)
+        ? null
+        : claims;
+    } catch {
+      return null;
+    }
+  };
+
+  const app = express();
+  app.use(express.json());
+
+  app.get("/auth/v1/health", (req: Request, res: Response) => {
+    return res.status(200).json({ name: "GoTrue", description: "Fake Supabase Auth" });
+  });
+
+  app.post("/auth/v1/signup", (req: Request, res: Response) => {
+    const { email, password } = req.body || {};
+    if (typeof email !== "string" || typeof password !== "string") {
+      return authError(res, 400, "validation_failed", "Email and password are required");
+    }
+    if (password.length < 6) {
+      return authError(res, 422, "weak_password", "Password should be at least 6 characters");
+    }
+
+    const normalized = email.toLowerCase();
+    if ([...users.values()].some((user) => user.email === normalized)) {
+      return authError(res, 422, "user_already_exists", "User already registered");
+    }
+
+    const user: FakeUser = {
+      id: randomUUID(),
+      email: normalized,
+      passwordHash: hashPassword(password),
+      createdAt: new Date().toISOString(),
+    };
+    users.set(user.id, user);
+
+    return res.status(200).json(issueSession(user));
+  });
+
+  app.post("/auth/v1/token", (req: Request, res: Response) => {
+    if (req.query.grant_type === "password") {
+      const { email, password } = req.body || {};
+      const user = [...users.values()].find(
+        (candidate) => candidate.email === String(email).toLowerCase()
+      );
+      if (!user || user.passwordHash !== hashPassword(String(password))) {
+        return authError(res, 400, "invalid_credentials", "Invalid login credentials");
+      }
+      return res.status(200).json(issueSession(user));
+    }
+
+    if (req.query.grant_type === "refresh_token") {
+      const session = refreshTokens.get(req.body?.refresh_token);
+      const user = session && users.get(session.userId);
+      if (!session || !user || revokedSessions.has(session.sessionId)) {
+        return authError(res, 400, "refresh_token_not_found", "Invalid Refresh Token");
+      }
+      refreshTokens.delete(req.body.refresh_token);
+      return res.status(200).json(issueSession(user, session.sessionId));
+    }
+
+    return authError(res, 400, "validation_failed", "Unsupported grant_type");
+  });
+
+  app.get("/auth/v1/user", (req: Request, res: Response) => {
+    const claims = verifyBearer(req);
+    if (!claims) {
+      return authError(res, 401, "bad_jwt", "Invalid JWT");
+    }
+    return res.status(200).json(toUser(users.get(claims.sub!)!));
+  });
+
+  app.post("/auth/v1/logout", (req: Request, res: Response) => {
+    const claims = verifyBearer(req);
+    if (!claims) {
+      return authError(res, 401, "bad_jwt", "Invalid JWT");
+    }
+
+    // "local" ends this session; "global" (the default) every session of the user
+    const ending =
+      req.query.scope === "local"
+        ? [claims.session_id]
+        : [...refreshTokens.values()]
+            .filter((session) => session.userId === claims.sub)
+            .map((session) => session.sessionId)
+            .concat(claims.session_id);
+    ending.forEach((sessionId) => revokedSessions.add(sessionId));
+
+    return res.status(204).send();
+  });
+
+  app.delete("/auth/v1/admin/users/:id", (req: Request, res: Response) => {
+    const user = users.get(req.params.id);
+    if (!user) {
+      return authError(res, 404, "user_not_found", "User not found");
+    }
+    users.delete(user.id);
+    return res.status(200).json(toUser(user));
+  });
+
+  return {
+    app,
+
+    /**
+     * Listen on a local port (random by default); resolves to the URL to use
+     * as SUPABASE_URL
+     */
+    start(port: number = 0): Promise<string> {
+      return new Promise((resolve, reject) => {
+        server = app.listen(port, "127.0.0.1", () => {
+          const { port: bound } = server!.address() as AddressInfo;
+          const url = `http://127.0.0.1:${bound}`;
+          issuer = `${url}/auth/v1`;
+          resolve(url);
+        });
+        server.once("error", reject);
+      });
+    },
+
+    stop(): Promise<void> {
+      return new Promise((resolve, reject) => {
+        if (!server) return resolve();
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+        server = null;
+      });
+    },
+
+    /**
+     * Whether a user exists, e.g. to check a failed signup was rolled back
+     */
+    hasUser(userId: string): boolean {
+      return users.has(userId);
+    },
+  };
+};
+
+export type FakeSupabaseAuth = ReturnType<typeof createFakeSupabaseAuth>;
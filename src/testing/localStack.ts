@@ -0,0 +1,43 @@
+import { startLocalEnvironment } from "./environment";
+
+/**
+ * Run the backend fully offline: npm run dev:local
+ * Starts a dev chain (a block a second), a fake Para and a fake Supabase Auth,
+ * then the server against them, on DATABASE_URL or else a throwaway Postgres.
+ * New wallets are funded with 10 ETH on the dev chain, so test-flow.sh runs
+ * as is.
+ */
+const main = async () => {
+  const environment = await startLocalEnvironment({ blockTimeSeconds: 1 });
+  Object.assign(process.env, environment.env);
+
+  const shutdown = async () => {
+    await environment.stop();
+    process.exit(0);
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  try {
+    // Imported only now: config reads the environment once, at import
+    const { logger } = await import("../services/logger");
+    logger.info("Local environment started", {
+      rpcUrl: environment.chain.rpcUrl,
+      chainId: environment.chain.chainId,
+      paraUrl: environment.env.PARA_BASE_URL,
+      supabaseUrl: environment.env.SUPABASE_URL,
+    });
+    const { startServer } = await import("../index");
+    await startServer();
+  } catch (error: any) {
+    // The logger can't load without a valid configuration
+    process.stderr.write(`Failed to start local environment: ${error.message}\n`);
+    await environment.stop();
+    process.exit(1);
+  }
+};
+
+main().catch((error) => {
+  process.stderr.write(`Failed to start local environment: ${error.message}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+/**
+ * Configuration for unit tests; import it before any app module, since config
+ * reads the environment once, at import
+ * Nothing listens on these URLs: tests mock the services they don't exercise,
+ * and set the variables of the ones they run against a fake before importing
+ * them.
+ */
+Object.assign(process.env, {
+  SUPABASE_URL: "http://127.0.0.1:9",
+  SUPABASE_ANON_KEY: "test-anon-key",
+  SUPABASE_SERVICE_ROLE_KEY: "test-service-role-key",
+  SUPABASE_JWT_SECRET: "test-jwt-secret",
+  PARA_API_KEY: "test-para-api-key",
+  SEPOLIA_RPC_URL: "http://127.0.0.1:9",
+  STORAGE_BACKEND: "supabase",
+  LOG_LEVEL: process.env.LOG_LEVEL || "error",
+});
@@ -7,6 +7,24 @@ export interface UserWallet {
   updated_at: string;
 }
 
+// Signup wallet provisioning, tracked so a failed signup can be resumed
+export type ProvisioningStatus =
+  | "creating_wallet"
+  | "saving_wallet"
+  | "completed"
+  | "failed";
+
+export interface ProvisioningJob {
+  supabase_id: string;
+  status: ProvisioningStatus;
+  para_wallet_id?: string | null; // set once Para has created the wallet
+  attempts: number; // provisioning runs, not individual retries
+  last_error?: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string | null;
+}
+
 // Para API Response Types
 export interface ParaWallet {
   id: string;
@@ -25,15 +43,173 @@ export interface ParaSignResponse {
   data: string;
 }
 
+// Why a Para call failed; each maps to one HTTP status in our responses
+export type ParaErrorCode =
+  | "PARA_NOT_FOUND"
+  | "PARA_CONFLICT"
+  | "PARA_RATE_LIMITED"
+  | "PARA_UNAVAILABLE" // network error, timeout, 5xx or circuit open
+  | "PARA_SIGNING_REJECTED"
+  | "PARA_REQUEST_FAILED"; // any other 4xx, e.g. a bad API key
+
+export type ParaCircuitState = "closed" | "open" | "half_open";
+
 // Transaction Request/Response
 export interface SendTransactionRequest {
   to: string;
-  amount: string; // in ETH
+  amount: string; // in native units (ETH), or in token units when token is set
+  token?: string; // ERC-20 contract address; omit for native ETH
+  chainId?: number; // defaults to the primary chain (Sepolia)
   gasLimit?: string;
   maxFeePerGas?: string;
   maxPriorityFeePerGas?: string;
 }
 
+// Transaction Ledger
+export type TransactionStatus =
+  | "pending"
+  | "success"
+  | "failed"
+  | "replaced"
+  | "dropped";
+
+export type TransactionKind = "transfer" | "speedup" | "cancel";
+
+// How a signed transaction's broadcast ended; "unknown" when the node timed
+// out or the connection failed, so it may still have got through
+export type BroadcastOutcome = "broadcast" | "unknown" | "rejected";
+
+export interface TransactionRecord {
+  id: string;
+  supabase_id: string;
+  tx_hash: string;
+  kind: TransactionKind;
+  replaces_tx_hash?: string | null; // set on speed-up/cancel transactions
+  replaced_by_tx_hash?: string | null; // set on the transaction they replace
+  from_address: string;
+  to_address: string;
+  token_address?: string | null; // null for native ETH
+  value: string; // in Wei, or token base units
+  nonce: number;
+  gas_limit: string;
+  max_fee_per_gas: string;
+  max_priority_fee_per_gas: string;
+  chain_id: number;
+  status: TransactionStatus;
+  block_number?: number | null;
+  confirmations: number;
+  gas_used?: string | null;
+  error?: string | null;
+  created_at: string;
+  updated_at: string;
+  confirmed_at?: string | null;
+}
+
+export interface TransactionHistoryQuery {
+  status?: TransactionStatus;
+  chainId?: number;
+  since?: string;
+  until?: string;
+  limit: number;
+  offset: number;
+}
+
+// Deposits: incoming transfers to user wallets, found by the block scanner
+// log_index is -1 for native transfers
+export interface DepositRecord {
+  id: string;
+  supabase_id: string;
+  tx_hash: string;
+  log_index: number;
+  from_address: string;
+  to_address: string;
+  token_address?: string | null; // null for native transfers
+  value: string; // wei, or token base units
+  chain_id: number;
+  block_number: number;
+  block_hash: string; // to notice the block being reorged out
+  confirmations: number;
+  status: Extract<TransactionStatus, "pending" | "success" | "dropped">;
+  created_at: string;
+  updated_at: string;
+  confirmed_at?: string | null;
+}
+
+// A transfer into a watched address, as read from a block
+export interface IncomingTransfer {
+  txHash: string;
+  logIndex: number;
+  from: string;
+  to: string;
+  token: string | null;
+  value: bigint;
+  blockNumber: number;
+  blockHash: string;
+}
+
+// A row of the transaction_history view: sends from the ledger plus deposits
+export type TransactionHistoryRecord = Omit<
+  TransactionRecord,
+  "kind" | "nonce" | "gas_limit" | "max_fee_per_gas" | "max_priority_fee_per_gas"
+> & {
+  kind: TransactionKind | "deposit";
+  direction: "in" | "out";
+  nonce: number | null;
+  gas_limit: string | null;
+  max_fee_per_gas: string | null;
+  max_priority_fee_per_gas: string | null;
+  log_index: number | null;
+};
+
+// Idempotency
+export interface IdempotencyRecord {
+  supabase_id: string;
+  idempotency_key: string;
+  request_hash: string;
+  status: "in_progress" | "completed";
+  response_status?: number | null;
+  response_body?: any;
+  created_at: string;
+  expires_at: string;
+}
+
+// Transaction Quotes
+export interface QuoteIssue {
+  code:
+    | "INSUFFICIENT_FUNDS"
+    | "INSUFFICIENT_TOKEN_BALANCE"
+    | "EXECUTION_REVERTED"
+    | "GAS_ESTIMATION_FAILED"
+    | "GAS_LIMIT_TOO_LOW";
+  message: string;
+}
+
+export interface TransactionQuote {
+  chainId: number;
+  from: string;
+  to: string;
+  token: string | null;
+  value: string; // in Wei, or token base units
+  nonce: number;
+  gasLimit: string | null; // null if gas could not be estimated
+  estimatedGas: string | null;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  maxGasCost: string | null; // gasLimit * maxFeePerGas, in Wei
+  totalCost: string | null; // native value + maxGasCost, in Wei
+  balance: string; // native balance, in Wei
+  balanceAfter: string | null; // balance - totalCost; negative if short
+  tokenBalance: string | null;
+  tokenBalanceAfter: string | null;
+  willSucceed: boolean;
+  issues: QuoteIssue[];
+}
+
+export interface ReplaceTransactionRequest {
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
 export interface SendTransactionResponse {
   transactionHash: string;
   status: "pending" | "success";
@@ -49,6 +225,487 @@ export interface WalletBalance {
   balanceEth: string; // in ETH
 }
 
+export interface TokenBalance {
+  token: string; // contract address
+  symbol: string;
+  decimals: number;
+  balance: string; // in base units
+  formatted: string; // in token units
+}
+
+// Spending Limits
+// Amounts are in wei of the native asset; null means "use the default"
+export interface SpendingLimitsRecord {
+  supabase_id: string;
+  max_per_transaction: string | null;
+  daily_limit: string | null;
+  weekly_limit: string | null;
+  daily_tx_count: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SpendingLimits {
+  maxPerTransaction: bigint;
+  dailyLimit: bigint;
+  weeklyLimit: bigint;
+  dailyTxCount: number;
+}
+
+// A user's caps on one ERC-20 token on one chain, in token base units
+// null falls back to the token's LIMIT_TOKENS default
+export interface TokenSpendingLimitsRecord {
+  supabase_id: string;
+  chain_id: number;
+  token_address: string; // lowercase
+  max_per_transaction: string | null;
+  daily_limit: string | null;
+  weekly_limit: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Per-user overrides as set through the operator API (wei; null = default)
+export interface SpendingLimitsUpdate {
+  maxPerTransaction: string | null;
+  daily: string | null;
+  weekly: string | null;
+  dailyTxCount: number | null;
+}
+
+export interface SpendingUsage {
+  daily: bigint;
+  weekly: bigint;
+  dailyTxCount: number;
+}
+
+// What a send spends: a chain's native asset (token null) or an ERC-20 token
+export interface SpendingAsset {
+  chainId: number;
+  token: string | null;
+}
+
+// Default caps on one ERC-20 token on one chain, in token units (e.g. "100.5")
+export interface TokenLimitConfig {
+  chainId: number;
+  token: string; // lowercase
+  maxPerTransaction: string;
+  daily: string;
+  weekly: string;
+}
+
+// Address Book & Allowlist
+export interface AddressBookEntry {
+  id: string;
+  supabase_id: string;
+  label: string;
+  address: string; // checksummed; valid on every EVM chain
+  usable_at: string; // end of the cooling-off period
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SecuritySettings {
+  supabase_id: string;
+  allowlist_only: boolean;
+  allowlist_disable_at?: string | null; // turning the allowlist off is delayed too
+  sessions_revoked_before?: string | null; // set by logout-all
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TotpFactor {
+  supabase_id: string;
+  secret: string; // encrypted at rest
+  enabled: boolean; // set once the first code is confirmed
+  last_used_step: number; // codes at or before this time step are refused
+  step_up_threshold?: string | null; // wei; null uses the configured default
+  created_at: string;
+  updated_at: string;
+  enabled_at?: string | null;
+}
+
+// Webhooks
+export type WebhookEventType =
+  | "wallet.ready"
+  | "transaction.broadcast"
+  | "transaction.confirmed"
+  | "transaction.failed"
+  | "transaction.replaced"
+  | "transaction.dropped"
+  | "deposit.received";
+
+export interface WebhookEvent {
+  id: string; // the same on every delivery and replay, for deduplication
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  supabase_id: string;
+  url: string;
+  secret: string; // HMAC key for X-Webhook-Signature
+  events: WebhookEventType[]; // empty means every event
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  supabase_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string; // also pushed ahead while an attempt is in flight
+  last_status_code?: number | null;
+  last_error?: string | null;
+  replay_of?: string | null; // delivery this one replays
+  created_at: string;
+  updated_at: string;
+  delivered_at?: string | null;
+}
+
+export interface WebhookAttempt {
+  id: string;
+  delivery_id: string;
+  attempt: number;
+  status_code?: number | null;
+  error?: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+// Real-time stream: every webhook event, plus changes only worth showing live
+export type StreamEventType =
+  | WebhookEventType
+  | "wallet.status"
+  | "balance.changed"
+  | "transaction.confirmations"
+  | "session.revoked"; // { sessionId } on logout, { revokedBefore } on logout-all
+
+export interface StreamEvent {
+  id: string;
+  type: StreamEventType;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+// Logging & Audit
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface RequestContext {
+  requestId: string;
+  ip?: string;
+  userAgent?: string;
+  userId?: string; // set once the request is authenticated
+}
+
+export type AuditAction =
+  | "auth.signup"
+  | "auth.login"
+  | "auth.logout"
+  | "auth.logout_all"
+  | "totp.enroll"
+  | "totp.activate"
+  | "totp.threshold"
+  | "totp.disable"
+  | "auth.step_up"
+  | "wallet.provision"
+  | "wallet.sign"
+  | "transaction.send"
+  | "transaction.speedup"
+  | "transaction.cancel"
+  | "address_book.add"
+  | "address_book.remove"
+  | "allowlist.update"
+  | "limits.update"
+  | "webhook.create"
+  | "webhook.delete";
+
+// "denied": refused by a policy or a failed check (wrong code, limit, step-up)
+export type AuditOutcome = "success" | "failure" | "denied";
+
+export interface AuditLogEntry {
+  id: string;
+  supabase_id?: string | null;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  request_id?: string | null;
+  ip?: string | null;
+  user_agent?: string | null;
+  details: Record<string, any>;
+  created_at: string;
+}
+
+export interface AuditLogQuery {
+  supabaseId?: string;
+  action?: AuditAction;
+  outcome?: AuditOutcome;
+  since?: string; // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, exclusive
+  limit: number;
+  offset: number;
+}
+
+// Storage
+// Implemented by the Supabase (REST) and SQL (direct Postgres) backends;
+// both must return rows in the same shapes
+export interface StorageRepository {
+  // Wallets and provisioning
+  saveUserWallet(supabaseId: string, paraWalletId: string, walletAddress?: string): Promise<UserWallet>;
+  getUserWallet(supabaseId: string): Promise<UserWallet | null>;
+  updateWalletAddress(supabaseId: string, walletAddress: string): Promise<UserWallet | null>;
+  countCreatingWallets(): Promise<number>;
+  listWalletAddresses(): Promise<{ supabase_id: string; wallet_address: string }[]>;
+  getProvisioningJob(supabaseId: string): Promise<ProvisioningJob | null>;
+  saveProvisioningJob(
+    supabaseId: string,
+    job: Partial<Omit<ProvisioningJob, "supabase_id" | "created_at" | "updated_at">>
+  ): Promise<ProvisioningJob>;
+
+  // Transactions
+  saveTransaction(
+    record: Omit<TransactionRecord, "id" | "created_at" | "updated_at">
+  ): Promise<TransactionRecord>;
+  getTransactionByHash(txHash: string): Promise<TransactionRecord | null>;
+  updateTransactionStatus(
+    txHash: string,
+    status: TransactionStatus,
+    fields?: Partial<
+      Pick<
+        TransactionRecord,
+        "block_number" | "confirmations" | "gas_used" | "error" | "confirmed_at"
+      >
+    >
+  ): Promise<TransactionRecord>;
+  linkReplacement(txHash: string, replacedByTxHash: string): Promise<void>;
+  listPendingTransactions(limit?: number): Promise<TransactionRecord[]>;
+  countPendingTransactions(): Promise<number>;
+  listPendingNonces(fromAddress: string, chainId: number): Promise<number[]>;
+  listTransactionsAtNonce(
+    fromAddress: string,
+    chainId: number,
+    nonce: number
+  ): Promise<TransactionRecord[]>;
+  listTransactions(
+    supabaseId: string,
+    query: TransactionHistoryQuery
+  ): Promise<{ transactions: TransactionHistoryRecord[]; total: number }>;
+  listTransfersSince(
+    supabaseId: string,
+    since: string
+  ): Promise<Pick<TransactionRecord, "value" | "token_address" | "chain_id" | "created_at">[]>;
+  hasTransferredTo(supabaseId: string, toAddress: string): Promise<boolean>;
+
+  // Deposits
+  saveDeposits(
+    deposits: Omit<DepositRecord, "id" | "created_at" | "updated_at" | "confirmed_at">[]
+  ): Promise<DepositRecord[]>;
+  listPendingDeposits(chainId: number, limit?: number): Promise<DepositRecord[]>;
+  updateDeposit(
+    id: string,
+    fields: Partial<Pick<DepositRecord, "status" | "confirmations" | "confirmed_at">>
+  ): Promise<DepositRecord>;
+  getScannerCursor(chainId: number): Promise<number | null>;
+  saveScannerCursor(chainId: number, lastBlock: number): Promise<void>;
+
+  // Spending limits and address book
+  getSpendingLimits(supabaseId: string): Promise<SpendingLimitsRecord | null>;
+  saveSpendingLimits(
+    limits: Omit<SpendingLimitsRecord, "created_at" | "updated_at">
+  ): Promise<SpendingLimitsRecord>;
+  listTokenSpendingLimits(supabaseId: string): Promise<TokenSpendingLimitsRecord[]>;
+  getTokenSpendingLimits(
+    supabaseId: string,
+    chainId: number,
+    token: string
+  ): Promise<TokenSpendingLimitsRecord | null>;
+  saveTokenSpendingLimits(
+    limits: Omit<TokenSpendingLimitsRecord, "created_at" | "updated_at">
+  ): Promise<TokenSpendingLimitsRecord>;
+  deleteTokenSpendingLimits(supabaseId: string, chainId: number, token: string): Promise<boolean>;
+  listAddresses(supabaseId: string): Promise<AddressBookEntry[]>;
+  getAddressByValue(supabaseId: string, address: string): Promise<AddressBookEntry | null>;
+  saveAddress(
+    entry: Omit<AddressBookEntry, "id" | "created_at" | "updated_at">
+  ): Promise<AddressBookEntry | null>;
+  updateAddressLabel(
+    supabaseId: string,
+    id: string,
+    label: string
+  ): Promise<AddressBookEntry | null>;
+  deleteAddress(supabaseId: string, id: string): Promise<boolean>;
+
+  // Security settings, TOTP and sessions
+  getSecuritySettings(supabaseId: string): Promise<SecuritySettings | null>;
+  saveSecuritySettings(
+    supabaseId: string,
+    settings: Partial<Omit<SecuritySettings, "supabase_id" | "created_at" | "updated_at">>
+  ): Promise<SecuritySettings>;
+  getTotpFactor(supabaseId: string): Promise<TotpFactor | null>;
+  saveTotpFactor(
+    supabaseId: string,
+    factor: Partial<Omit<TotpFactor, "supabase_id" | "created_at" | "updated_at">>
+  ): Promise<TotpFactor>;
+  claimTotpStep(supabaseId: string, step: number): Promise<boolean>;
+  deleteTotpFactor(supabaseId: string): Promise<void>;
+  revokeSession(sessionId: string, supabaseId: string, expiresAt: string): Promise<void>;
+  isSessionRevoked(sessionId: string): Promise<boolean>;
+  deleteExpiredSessionRevocations(): Promise<number>;
+
+  // Webhooks
+  listWebhookEndpoints(supabaseId: string): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(supabaseId: string, id: string): Promise<WebhookEndpoint | null>;
+  saveWebhookEndpoint(
+    endpoint: Pick<WebhookEndpoint, "supabase_id" | "url" | "secret" | "events">
+  ): Promise<WebhookEndpoint>;
+  deleteWebhookEndpoint(supabaseId: string, id: string): Promise<boolean>;
+  saveWebhookDelivery(
+    delivery: Pick<
+      WebhookDelivery,
+      | "endpoint_id"
+      | "supabase_id"
+      | "event_id"
+      | "event_type"
+      | "payload"
+      | "next_attempt_at"
+      | "replay_of"
+    >
+  ): Promise<WebhookDelivery>;
+  getWebhookDelivery(supabaseId: string, id: string): Promise<WebhookDelivery | null>;
+  listWebhookDeliveries(
+    endpointId: string,
+    limit: number,
+    offset: number
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }>;
+  listDueWebhookDeliveries(limit?: number): Promise<WebhookDelivery[]>;
+  claimWebhookDelivery(id: string, dueAt: string, leaseUntil: string): Promise<boolean>;
+  updateWebhookDelivery(
+    id: string,
+    fields: Partial<
+      Pick<
+        WebhookDelivery,
+        | "status"
+        | "attempts"
+        | "next_attempt_at"
+        | "last_status_code"
+        | "last_error"
+        | "delivered_at"
+      >
+    >
+  ): Promise<WebhookDelivery>;
+  saveWebhookAttempt(attempt: Omit<WebhookAttempt, "id" | "created_at">): Promise<void>;
+  listWebhookAttempts(deliveryIds: string[]): Promise<WebhookAttempt[]>;
+
+  // Audit log
+  saveAuditEntry(entry: Omit<AuditLogEntry, "id" | "created_at">): Promise<void>;
+  listAuditLog(query: AuditLogQuery): Promise<{ entries: AuditLogEntry[]; total: number }>;
+
+  // Idempotency keys
+  claimIdempotencyKey(
+    supabaseId: string,
+    key: string,
+    requestHash: string,
+    expiresAt: string
+  ): Promise<IdempotencyRecord | null>;
+  completeIdempotencyKey(
+    supabaseId: string,
+    key: string,
+    responseStatus: number,
+    responseBody: any
+  ): Promise<void>;
+  releaseIdempotencyKey(supabaseId: string, key: string): Promise<void>;
+
+  // Lifecycle
+  initializeSchema(): Promise<void>;
+  probe(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// A migration file in migrations/, named <version>_<name>.sql
+export interface Migration {
+  file: string;
+  version: number;
+  name: string;
+  sql: string;
+  checksum: string;
+}
+
+// Lists of migration file names
+export interface MigrationReport {
+  applied: string[];
+  // Already applied, but the file has changed since
+  modified: string[];
+}
+
+// Chain Registry
+export interface ChainConfig {
+  key: string; // env var prefix, e.g. BASE_SEPOLIA
+  chainId: number;
+  name: string;
+  nativeSymbol: string;
+  rpcUrls: string[]; // in order of preference
+  explorerUrl: string;
+  tokens: string[]; // ERC-20 contracts shown on the wallet view
+}
+
+// RPC endpoint health, as shown on /health
+export interface RpcEndpointHealth {
+  url: string; // origin only; hosted RPC URLs carry API keys in the path
+  healthy: boolean;
+  // Trailing the highest block seen on the chain by more than RPC_MAX_BLOCK_LAG
+  lagging: boolean;
+  consecutiveFailures: number;
+  blockNumber: number | null;
+  latencyMs: number | null; // of the last health check
+  lastCheckedAt: string | null;
+  lastError: string | null;
+}
+
+export interface RpcChainHealth {
+  chainId: number;
+  name: string;
+  healthyEndpoints: number;
+  endpoints: RpcEndpointHealth[];
+}
+
+// Readiness checks (GET /health/ready)
+export interface DependencyCheck {
+  status: "ok" | "error";
+  latencyMs: number;
+  error?: string;
+  [detail: string]: unknown; // e.g. blockNumber for the RPC
+}
+
+export interface ReadinessReport {
+  status: "ready" | "not_ready";
+  timestamp: string;
+  checks: {
+    supabase: DependencyCheck;
+    database: DependencyCheck;
+    para: DependencyCheck;
+    rpc: DependencyCheck;
+  };
+}
+
+export interface ChainBalance {
+  chainId: number;
+  name: string;
+  nativeSymbol: string;
+  explorerUrl: string; // address page on the chain's explorer
+  balance: { wei: string; eth: string } | null; // null if the RPC failed
+  tokens: TokenBalance[];
+  error?: string;
+}
+
 // Auth Types
 export interface SignupRequest {
   email: string;
@@ -67,10 +724,26 @@ export interface AuthResponse {
   };
   session: {
     access_token: string;
+    refresh_token: string;
     token_type: string;
+    expires_in: number; // seconds
+    expires_at?: number; // unix seconds
   };
 }
 
+// Identity attached to authenticated requests
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  sessionId?: string; // Supabase session_id claim
+  issuedAt?: number; // iat claim, unix seconds
+  expiresAt?: number; // exp claim, unix seconds
+}
+
+export interface RefreshRequest {
+  refresh_token: string;
+}
+
 // Error Response
 export interface ErrorResponse {
   error: string;
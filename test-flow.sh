@@ -6,7 +6,7 @@
 set -e  # Exit on error
 
 # Configuration
-BASE_URL="http://localhost:3000/api"
+BASE_URL="${BASE_URL:-http://localhost:3000/api}"
 TEST_EMAIL="test-$(date +%s)@example.com"
 TEST_PASSWORD="TestPassword123!"
 RECIPIENT_ADDRESS="0x8ba1f109551bd432803012645ac136ddd64dba72"
@@ -46,7 +46,8 @@ SIGNUP_RESPONSE=$(curl -s -X POST "$BASE_URL/auth/signup" \
     \"password\": \"$TEST_PASSWORD\"
   }")
 
-echo "Response: $SIGNUP_RESPONSE" | jq .
+echo "Response:"
+echo "$SIGNUP_RESPONSE" | jq .
 
 USER_ID=$(echo "$SIGNUP_RESPONSE" | jq -r '.user.id')
 ACCESS_TOKEN=$(echo "$SIGNUP_RESPONSE" | jq -r '.session.access_token')
@@ -105,7 +106,8 @@ info "Fetching complete wallet information including balance..."
 WALLET_RESPONSE=$(curl -s -X GET "$BASE_URL/wallet" \
   -H "Authorization: Bearer $ACCESS_TOKEN")
 
-echo "Response: $WALLET_RESPONSE" | jq .
+echo "Response:"
+echo "$WALLET_RESPONSE" | jq .
 
 BALANCE_ETH=$(echo "$WALLET_RESPONSE" | jq -r '.balance.eth')
 PUBLIC_KEY=$(echo "$WALLET_RESPONSE" | jq -r '.publicKey')
@@ -134,7 +136,8 @@ TX_RESPONSE=$(curl -s -X POST "$BASE_URL/transaction/send" \
     \"amount\": \"0.001\"
   }")
 
-echo "Response: $TX_RESPONSE" | jq .
+echo "Response:"
+echo "$TX_RESPONSE" | jq .
 
 TX_HASH=$(echo "$TX_RESPONSE" | jq -r '.transactionHash')
 TX_STATUS=$(echo "$TX_RESPONSE" | jq -r '.status')
@@ -155,14 +158,16 @@ TX_ATTEMPT=0
 TX_CONFIRMED=0
 
 while [[ $TX_ATTEMPT -lt $MAX_TX_ATTEMPTS ]]; do
-    TX_STATUS_RESPONSE=$(curl -s -X GET "$BASE_URL/transaction/$TX_HASH")
+    TX_STATUS_RESPONSE=$(curl -s -X GET "$BASE_URL/transaction/$TX_HASH" \
+      -H "Authorization: Bearer $ACCESS_TOKEN")
     
     if echo "$TX_STATUS_RESPONSE" | jq empty 2>/dev/null; then
         CONFIRMED_STATUS=$(echo "$TX_STATUS_RESPONSE" | jq -r '.status')
         BLOCK_NUMBER=$(echo "$TX_STATUS_RESPONSE" | jq -r '.blockNumber')
         
         if [[ -n "$BLOCK_NUMBER" ]] && [[ "$BLOCK_NUMBER" != "null" ]]; then
-            echo "Response: $TX_STATUS_RESPONSE" | jq .
+            echo "Response:"
+            echo "$TX_STATUS_RESPONSE" | jq .
             success "Transaction confirmed in block $BLOCK_NUMBER"
             success "Transaction Status: $CONFIRMED_STATUS"
             TX_CONFIRMED=1
@@ -193,7 +198,8 @@ LOGIN_RESPONSE=$(curl -s -X POST "$BASE_URL/auth/login" \
     \"password\": \"$TEST_PASSWORD\"
   }")
 
-echo "Response: $LOGIN_RESPONSE" | jq .
+echo "Response:"
+echo "$LOGIN_RESPONSE" | jq .
 
 LOGIN_TOKEN=$(echo "$LOGIN_RESPONSE" | jq -r '.session.access_token')
 